@@ -0,0 +1,80 @@
+import {
+  ChatInputCommandInteraction,
+  DMChannel,
+  InteractionEditReplyOptions,
+  InteractionReplyOptions,
+  Message,
+  MessageCreateOptions,
+  MessageFlags,
+  PermissionFlagsBits,
+} from 'discord.js';
+import { DiscordCommandContext } from '../types/ReminderTypes';
+
+export interface CommandReply {
+  content?: string;
+  embeds?: object[];         // Plain embed objects, timestamps may be Date instances
+  components?: MessageCreateOptions['components'];
+}
+
+/**
+ * A command issued either as a prefix message (`?remind ...`) or as a slash command,
+ * so both can share the same handlers.
+ */
+export interface CommandInvocation extends DiscordCommandContext {
+  args: string;              // Everything after the command name
+  isInteraction: boolean;    // Whether the command came from a slash command
+  canManageGuild: boolean;   // Whether the user may change server-wide settings
+  reply(payload: CommandReply): Promise<void>;
+}
+
+/**
+ * Build an invocation from a prefix command message. Replies are posted to the channel.
+ */
+export function invocationFromMessage(message: Message, args: string): CommandInvocation {
+  return {
+    args,
+    isInteraction: false,
+    canManageGuild: message.member?.permissions.has(PermissionFlagsBits.ManageGuild) ?? false,
+    userId: message.author.id,
+    username: message.author.username,
+    channelId: message.channel.id,
+    messageId: message.id,
+    guildId: message.guild?.id,
+    isDM: message.channel instanceof DMChannel,
+    reply: async (payload) => {
+      const channel = message.channel;
+      if ('send' in channel && typeof channel.send === 'function') {
+        await channel.send(payload as MessageCreateOptions);
+      }
+    },
+  };
+}
+
+/**
+ * Build an invocation from a slash command. The first reply fills in the deferred
+ * reply, later replies are sent as follow-ups; all of them are ephemeral.
+ */
+export function invocationFromInteraction(interaction: ChatInputCommandInteraction, args: string): CommandInvocation {
+  return {
+    args,
+    isInteraction: true,
+    canManageGuild: interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) ?? false,
+    userId: interaction.user.id,
+    username: interaction.user.username,
+    channelId: interaction.channelId,
+    messageId: interaction.id,
+    guildId: interaction.guildId ?? undefined,
+    isDM: !interaction.inGuild(),
+    reply: async (payload) => {
+      const options = { ...payload, flags: MessageFlags.Ephemeral } as InteractionReplyOptions;
+
+      if (interaction.replied) {
+        await interaction.followUp(options);
+      } else if (interaction.deferred) {
+        await interaction.editReply(payload as InteractionEditReplyOptions);
+      } else {
+        await interaction.reply(options);
+      }
+    },
+  };
+}
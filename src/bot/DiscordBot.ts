@@ -1,49 +1,145 @@
 import {
+  ActionRowBuilder,
+  AutocompleteInteraction,
+  ButtonInteraction,
+  ChatInputCommandInteraction,
   Client,
   GatewayIntentBits,
+  Interaction,
+  InteractionUpdateOptions,
   Message,
-  DMChannel,
+  MessageCreateOptions,
+  MessageFlags,
+  ModalBuilder,
+  ModalSubmitInteraction,
   Events,
+  REST,
+  Routes,
+  StringSelectMenuInteraction,
+  TextInputBuilder,
+  TextInputStyle,
 } from 'discord.js';
+import { Job } from 'bullmq';
+import moment from 'moment-timezone';
 import { ReminderQueue } from '../queue/ReminderQueue';
+import { DeliveryLogStore } from '../store/DeliveryLogStore';
+import { PhoneRegistry } from '../store/PhoneRegistry';
+import { TimezoneSource, TimezoneStore } from '../store/TimezoneStore';
+import { RateLimiter } from '../store/RateLimiter';
+import { DeadLetterStore } from '../store/DeadLetterStore';
+import { ReminderRepository } from '../store/ReminderRepository';
+import { TwilioService } from '../twilio/TwilioService';
+import { GoogleCalendarService } from '../calendar/GoogleCalendarService';
+import { AgendaService } from '../calendar/AgendaService';
 import { Config } from '../config/Config';
 import { logger } from '../utils/logger';
 import { TimeParser } from '../utils/timeParser';
-import { ParsedReminderCommand, DiscordCommandContext } from '../types/ReminderTypes';
+import { RecurrenceParser } from '../utils/recurrenceParser';
+import { EditCommandParser } from '../utils/editCommandParser';
+import { AgendaBuilder } from '../utils/agendaBuilder';
+import { CommandInvocation, CommandReply, invocationFromInteraction, invocationFromMessage } from './CommandInvocation';
+import { buildSlashCommands } from './SlashCommands';
+import {
+  buildListCustomId,
+  buildReminderListPage,
+  filterReminders,
+  getMessageListFilter,
+  ListCustomId,
+  parseListCustomId,
+  parseListFilter,
+  ReminderListFilter,
+} from './ReminderListView';
+import {
+  ParsedReminderCommand,
+  ReminderJobData,
+  ReminderJobResult,
+  ReminderResponse,
+  DeliveryRecord,
+  DeliveryStep,
+  EscalationPolicy,
+  ReminderCallAttempt,
+  ReminderKind,
+  ReminderRecord,
+  ReminderStatus,
+} from '../types/ReminderTypes';
+import { DailyAgenda } from '../types/CalendarTypes';
+
+const MAX_CALENDAR_EVENTS_SHOWN = 10;
+const MAX_HISTORY_SHOWN = 20;
 
 export class DiscordBot {
   private client: Client;
   private config: Config;
   private reminderQueue: ReminderQueue;
+  private deliveryLogStore: DeliveryLogStore;
+  private phoneRegistry: PhoneRegistry;
+  private twilioService: TwilioService;
+  private timezoneStore: TimezoneStore;
+  private rateLimiter: RateLimiter;
+  private calendarService: GoogleCalendarService | null;
+  private agendaService: AgendaService;
+  private deadLetterStore: DeadLetterStore;
+  private reminderRepository: ReminderRepository;
   private commandPrefix = '?';
 
-  constructor(config: Config, reminderQueue: ReminderQueue) {
+  constructor(
+    config: Config,
+    reminderQueue: ReminderQueue,
+    deliveryLogStore: DeliveryLogStore,
+    phoneRegistry: PhoneRegistry,
+    twilioService: TwilioService,
+    timezoneStore: TimezoneStore,
+    rateLimiter: RateLimiter,
+    calendarService: GoogleCalendarService | null,
+    agendaService: AgendaService,
+    deadLetterStore: DeadLetterStore,
+    reminderRepository: ReminderRepository
+  ) {
     this.config = config;
     this.reminderQueue = reminderQueue;
+    this.deliveryLogStore = deliveryLogStore;
+    this.phoneRegistry = phoneRegistry;
+    this.twilioService = twilioService;
+    this.timezoneStore = timezoneStore;
+    this.rateLimiter = rateLimiter;
+    this.calendarService = calendarService;
+    this.agendaService = agendaService;
+    this.deadLetterStore = deadLetterStore;
+    this.reminderRepository = reminderRepository;
 
-    // Create Discord client with required intents
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
+    // Create Discord client with required intents (prefix commands need the privileged MessageContent intent)
+    const intents = [GatewayIntentBits.Guilds];
+    if (this.config.prefixCommandsEnabled) {
+      intents.push(
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
-        GatewayIntentBits.DirectMessages,
-      ],
-    });
+        GatewayIntentBits.DirectMessages
+      );
+    }
+
+    this.client = new Client({ intents });
 
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
     // Bot ready event
-    this.client.on(Events.ClientReady, () => {
+    this.client.on(Events.ClientReady, async () => {
       logger.info(`🤖 Discord bot logged in as ${this.client.user?.tag}`);
-      this.client.user?.setActivity('?remind for help', { type: 2 }); // Listening type
+      this.client.user?.setActivity('/remind or ?help', { type: 2 }); // Listening type
+      await this.registerSlashCommands();
     });
 
-    // Message event for command handling
-    this.client.on(Events.MessageCreate, async (message: Message) => {
-      await this.handleMessage(message);
+    // Message event for prefix command handling
+    if (this.config.prefixCommandsEnabled) {
+      this.client.on(Events.MessageCreate, async (message: Message) => {
+        await this.handleMessage(message);
+      });
+    }
+
+    // Slash commands and autocomplete
+    this.client.on(Events.InteractionCreate, async (interaction: Interaction) => {
+      await this.handleInteraction(interaction);
     });
 
     // Error handling
@@ -56,211 +152,1643 @@ export class DiscordBot {
     });
   }
 
+  /**
+   * Register the slash commands, for one guild when DISCORD_GUILD_ID is set
+   * (updates instantly) or globally otherwise
+   */
+  private async registerSlashCommands(): Promise<void> {
+    try {
+      const rest = new REST().setToken(this.config.discordToken);
+      const route = this.config.discordGuildId
+        ? Routes.applicationGuildCommands(this.config.discordClientId, this.config.discordGuildId)
+        : Routes.applicationCommands(this.config.discordClientId);
+
+      const commands = buildSlashCommands();
+      await rest.put(route, { body: commands });
+      logger.info(`✅ Registered ${commands.length} slash commands${this.config.discordGuildId ? ` for guild ${this.config.discordGuildId}` : ' globally'}`);
+    } catch (error) {
+      logger.error('❌ Failed to register slash commands:', error);
+    }
+  }
+
   private async handleMessage(message: Message): Promise<void> {
     // Ignore bot messages and messages that don't start with the command prefix
     if (message.author.bot || !message.content.startsWith(this.commandPrefix)) {
       return;
     }
 
+    const command = message.content.slice(this.commandPrefix.length).trim();
+    const name = command.split(/\s+/)[0]?.toLowerCase() || '';
+    const invocation = invocationFromMessage(message, command.slice(name.length).trim());
+
     try {
-      const command = message.content.slice(this.commandPrefix.length).trim();
-      
-      if (command.startsWith('remind')) {
-        await this.handleRemindCommand(message);
-      } else if (command.startsWith('cancel')) {
-        await this.handleCancelCommand(message);
-      } else if (command.startsWith('list')) {
-        await this.handleListCommand(message);
-      } else if (command.startsWith('help')) {
-        await this.handleHelpCommand(message);
-      } else if (command.startsWith('status')) {
-        await this.handleStatusCommand(message);
-      } else if (command.startsWith('calendar')) {
-        await this.handleCalendarCommand(message);
-      }
+      await this.dispatchCommand(name, invocation);
     } catch (error) {
       logger.error('❌ Error handling message:', error);
-      await this.sendErrorMessage(message.channel, 'An error occurred while processing your command.');
+      await this.sendErrorMessage(invocation, 'An error occurred while processing your command.');
+    }
+  }
+
+  private async handleInteraction(interaction: Interaction): Promise<void> {
+    if (interaction.isAutocomplete()) {
+      await this.handleAutocomplete(interaction);
+      return;
+    }
+
+    if (interaction.isButton() || interaction.isStringSelectMenu() || interaction.isModalSubmit()) {
+      const listId = parseListCustomId(interaction.customId);
+      if (listId) {
+        try {
+          await this.handleListInteraction(interaction, listId);
+        } catch (error) {
+          logger.error(`❌ Error handling reminder list action ${listId.action}:`, error);
+        }
+      }
+      return;
+    }
+
+    if (!interaction.isChatInputCommand()) {
+      return;
+    }
+
+    const invocation = invocationFromInteraction(interaction, this.buildInteractionArgs(interaction));
+
+    try {
+      // Queue and calendar lookups can take longer than the 3 second reply window
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      if (interaction.commandName === 'remind') {
+        const { timezone } = await this.timezoneStore.resolveTimezone(invocation.userId, invocation.guildId);
+        await this.scheduleReminder(invocation, this.parseRemindInteraction(interaction, timezone));
+      } else {
+        await this.dispatchCommand(interaction.commandName, invocation);
+      }
+    } catch (error) {
+      logger.error(`❌ Error handling /${interaction.commandName}:`, error);
+      await this.sendErrorMessage(invocation, 'An error occurred while processing your command.');
+    }
+  }
+
+  private async dispatchCommand(name: string, invocation: CommandInvocation): Promise<void> {
+    switch (name) {
+      case 'remind':
+        await this.handleRemindCommand(invocation);
+        break;
+      case 'cancel':
+        await this.handleCancelCommand(invocation);
+        break;
+      case 'list':
+        await this.handleListCommand(invocation);
+        break;
+      case 'help':
+        await this.handleHelpCommand(invocation);
+        break;
+      case 'status':
+        await this.handleStatusCommand(invocation);
+        break;
+      case 'calendar':
+        await this.handleCalendarCommand(invocation);
+        break;
+      case 'edit':
+        await this.handleEditCommand(invocation);
+        break;
+      case 'delivery':
+        await this.handleDeliveryCommand(invocation);
+        break;
+      case 'history':
+        await this.handleHistoryCommand(invocation);
+        break;
+      case 'stats':
+        await this.handleStatsCommand(invocation);
+        break;
+      case 'phone':
+        await this.handlePhoneCommand(invocation);
+        break;
+      case 'timezone':
+        await this.handleTimezoneCommand(invocation);
+        break;
+      case 'agenda':
+        await this.handleAgendaCommand(invocation);
+        break;
+      case 'admin':
+        await this.handleAdminCommand(invocation);
+        break;
+    }
+  }
+
+  /**
+   * Turn slash command options into the same argument string the prefix command takes
+   */
+  private buildInteractionArgs(interaction: ChatInputCommandInteraction): string {
+    switch (interaction.commandName) {
+      case 'cancel': {
+        const once = interaction.options.getBoolean('once') ?? false;
+        return `${interaction.options.getString('id', true)}${once ? ' --once' : ''}`;
+      }
+      case 'list': {
+        const search = interaction.options.getString('search');
+        return search ? `search ${search}` : interaction.options.getString('filter') || '';
+      }
+      case 'calendar': {
+        const hours = interaction.options.getInteger('hours');
+        const enabled = interaction.options.getBoolean('enabled');
+        const setting = enabled === null ? '' : ` ${enabled ? 'on' : 'off'}`;
+        return `${interaction.options.getSubcommand(false) || ''}${hours ? ` ${hours}` : ''}${setting}`;
+      }
+      default:
+        return '';
+    }
+  }
+
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      if (interaction.commandName !== 'cancel') {
+        await interaction.respond([]);
+        return;
+      }
+
+      const focused = interaction.options.getFocused().toLowerCase();
+      const reminders = await this.reminderQueue.getUserReminders(interaction.user.id);
+
+      const choices = reminders
+        .filter(reminder => reminder.id)
+        .filter(reminder =>
+          reminder.id!.toLowerCase().includes(focused) || reminder.data.message.toLowerCase().includes(focused)
+        )
+        .slice(0, 25)
+        .map(reminder => ({
+          name: `${reminder.data.message} (${reminder.id})`.slice(0, 100),
+          value: reminder.id!,
+        }));
+
+      await interaction.respond(choices);
+    } catch (error) {
+      logger.error('❌ Error handling autocomplete:', error);
     }
   }
 
-  private async handleRemindCommand(message: Message): Promise<void> {
-    const content = message.content.slice(this.commandPrefix.length + 'remind'.length).trim();
+  private async handleRemindCommand(invocation: CommandInvocation): Promise<void> {
+    const content = invocation.args;
     
     if (!content) {
-      await this.sendErrorMessage(message.channel, 'Please provide a reminder message and time. Use `?help` for examples.');
+      await this.sendErrorMessage(invocation, 'Please provide a reminder message and time. Use `?help` for examples.');
       return;
     }
 
     // Parse the reminder command
-    const parsed = this.parseReminderCommand(content);
+    const { timezone } = await this.timezoneStore.resolveTimezone(invocation.userId, invocation.guildId);
+    await this.scheduleReminder(invocation, this.parseReminderCommand(content, timezone));
+  }
+
+  private async scheduleReminder(invocation: CommandInvocation, parsed: ParsedReminderCommand): Promise<void> {
     if (!parsed.isValid) {
-      await this.sendErrorMessage(message.channel, parsed.error || 'Invalid reminder format.');
+      await this.sendErrorMessage(invocation, parsed.error || 'Invalid reminder format.');
       return;
     }
 
-    // Validate delay limits
-    const delayValidation = TimeParser.validateDelay(parsed.delayMs, this.config.maxReminderDelayDays);
+    // Validate delay limits (recurring reminders are bounded by their schedule instead)
+    const delayValidation = parsed.recurrence
+      ? { isValid: true }
+      : TimeParser.validateDelay(parsed.delayMs, this.config.maxReminderDelayDays);
     if (!delayValidation.isValid) {
-      await this.sendErrorMessage(message.channel, delayValidation.error || 'Invalid delay.');
+      await this.sendErrorMessage(invocation, delayValidation.error || 'Invalid delay.');
+      return;
+    }
+
+    // Work out which number will be called
+    const userPhone = await this.phoneRegistry.getVerifiedPhone(invocation.userId);
+    if (!userPhone && this.config.requireVerifiedPhone) {
+      await this.sendErrorMessage(invocation, 'Please register your phone number first with `?phone set <number>`.');
       return;
     }
 
     try {
-      // Create command context
-      const context: DiscordCommandContext = {
-        userId: message.author.id,
-        username: message.author.username,
-        channelId: message.channel.id,
-        messageId: message.id,
-        guildId: message.guild?.id,
-        isDM: message.channel instanceof DMChannel,
-      };
+      const activeReminders = await this.reminderQueue.getUserReminders(invocation.userId);
+      const quotaDenial = await this.rateLimiter.consumeReminderQuota(invocation.userId, activeReminders.length);
+      if (quotaDenial?.reason === 'active-limit') {
+        await this.sendErrorMessage(
+          invocation,
+          `You already have ${quotaDenial.activeReminders} active reminders (limit ${quotaDenial.limit}). Cancel some with \`?cancel <id>\` first.`
+        );
+        return;
+      }
+      if (quotaDenial?.reason === 'creation-limit') {
+        const { limit, windowMs, retryAfterMs } = quotaDenial.result;
+        const retryAt = new Date(Date.now() + retryAfterMs);
+        await this.sendErrorMessage(
+          invocation,
+          `You can create at most ${limit} reminders per ${TimeParser.formatDelay(windowMs)}. Try again ${TimeParser.formatDiscordTimestamp(retryAt, 'R')}.`
+        );
+        return;
+      }
 
       // Add reminder to queue
-      const job = await this.reminderQueue.addReminder(
-        parsed.message,
-        parsed.delayMs,
-        context.userId,
-        context.channelId,
-        context.messageId
-      );
+      const queueOptions = parsed.escalation ? { escalation: parsed.escalation } : undefined;
+      const job = parsed.recurrence
+        ? await this.reminderQueue.addRecurringReminder(
+            parsed.message,
+            parsed.recurrence,
+            invocation.userId,
+            invocation.channelId,
+            invocation.messageId,
+            queueOptions
+          )
+        : await this.reminderQueue.addReminder(
+            parsed.message,
+            parsed.delayMs,
+            invocation.userId,
+            invocation.channelId,
+            invocation.messageId,
+            queueOptions
+          );
+
+      const calendarField = await this.addReminderToCalendar(invocation.userId, job, parsed);
 
       // Send confirmation message
       const formattedDelay = TimeParser.formatDelay(parsed.delayMs);
+      const timeFields = parsed.recurrence
+        ? [
+            {
+              name: '🔁 Repeats',
+              value: parsed.recurrence.timezone
+                ? `${parsed.recurrence.description} (${parsed.recurrence.timezone})`
+                : parsed.recurrence.description,
+              inline: true,
+            },
+            {
+              name: '⏰ Next Call',
+              value: `In ${formattedDelay} (${TimeParser.formatDiscordTimestamp(parsed.timestamp)})`,
+              inline: true,
+            },
+          ]
+        : [
+            {
+              name: '⏰ Time',
+              value: `In ${formattedDelay} (${TimeParser.formatDiscordTimestamp(parsed.timestamp)})`,
+              inline: true,
+            },
+          ];
       const embed = {
         color: 0x00ff00,
-        title: '✅ Reminder Set!',
+        title: parsed.recurrence ? '✅ Recurring Reminder Set!' : '✅ Reminder Set!',
         description: `**Message:** ${parsed.message}`,
         fields: [
+          ...timeFields,
           {
-            name: '⏰ Time',
-            value: `In ${formattedDelay} (${parsed.timestamp.toLocaleString()})`,
+            name: '🆔 Job ID',
+            value: job.id || 'Unknown',
             inline: true,
           },
           {
-            name: '🆔 Job ID',
-            value: job.id || 'Unknown',
+            name: '📱 Calling',
+            value: userPhone ? this.maskPhoneNumber(userPhone) : 'Default number (use `?phone set` to register yours)',
             inline: true,
           },
+          {
+            name: '📵 If Unanswered',
+            value: this.formatEscalationPolicy(parsed.escalation || this.config.getDefaultEscalationPolicy()),
+            inline: false,
+          },
+          ...(calendarField ? [calendarField] : []),
         ],
         timestamp: new Date(),
         footer: {
-          text: 'Use ?cancel <job-id> to cancel this reminder',
+          text: parsed.recurrence
+            ? 'Use ?cancel <job-id> to stop the series or ?cancel <job-id> --once to skip the next call'
+            : 'Use ?cancel <job-id> to cancel this reminder',
         },
       };
 
-      await this.safeSendMessage(message.channel, { embeds: [embed] });
+      await this.safeReply(invocation, { embeds: [embed] });
 
-      logger.info(`📅 Reminder scheduled: "${parsed.message}" for user ${context.username} in ${formattedDelay}`);
+      logger.info(`📅 Reminder scheduled: "${parsed.message}" for user ${invocation.username} in ${formattedDelay}${parsed.recurrence ? ` (${parsed.recurrence.description})` : ''}`);
 
     } catch (error) {
       logger.error('❌ Failed to schedule reminder:', error);
-      await this.sendErrorMessage(message.channel, 'Failed to schedule your reminder. Please try again.');
+      await this.sendErrorMessage(invocation, 'Failed to schedule your reminder. Please try again.');
+    }
+  }
+
+  /**
+   * Add a new reminder to the owner's linked calendar when they asked for it, with --calendar
+   * or their ?calendar writeback setting. Returns the confirmation field to show, if any.
+   */
+  private async addReminderToCalendar(
+    userId: string,
+    job: Job<ReminderJobData, ReminderJobResult>,
+    parsed: ParsedReminderCommand
+  ): Promise<{ name: string; value: string; inline: boolean } | null> {
+    const writeBack = parsed.calendarWriteBack ?? this.calendarService?.getReminderWriteBack(userId) ?? false;
+    if (!writeBack || !job.id) {
+      return null;
+    }
+
+    const field = (value: string) => ({ name: '📅 Calendar', value, inline: false });
+    if (!this.calendarService?.getLinkedCalendarId(userId)) {
+      return field('Not added, link your Google Calendar with `?calendar link` first');
+    }
+    if (parsed.recurrence) {
+      return field('Not added, recurring reminders are not copied to your calendar');
+    }
+
+    const copy = await this.calendarService.createReminderEvent(userId, job.id, parsed.message, parsed.timestamp);
+    if (!copy) {
+      return field('Could not add it to your calendar');
+    }
+
+    await this.reminderQueue.setCalendarCopy(job.id, copy);
+    return field(`Added to ${copy.calendarId}, edits and cancellations update it`);
+  }
+
+  /**
+   * Keep the calendar event of a reminder in step with an edit or a snooze
+   */
+  private async updateCalendarCopy(job: Job<ReminderJobData, ReminderJobResult>, changes: { message?: string; fireAt?: Date }): Promise<void> {
+    if (job.data.calendarCopy && this.calendarService) {
+      await this.calendarService.updateReminderEvent(job.data.calendarCopy, changes);
     }
   }
 
-  private async handleCancelCommand(message: Message): Promise<void> {
-    const content = message.content.slice(this.commandPrefix.length + 'cancel'.length).trim();
+  private async deleteCalendarCopy(job: Job<ReminderJobData, ReminderJobResult>): Promise<void> {
+    if (job.data.calendarCopy && this.calendarService) {
+      await this.calendarService.deleteReminderEvent(job.data.calendarCopy);
+    }
+  }
+
+  private async handleCancelCommand(invocation: CommandInvocation): Promise<void> {
+    const content = invocation.args;
     
     if (!content) {
-      await this.sendErrorMessage(message.channel, 'Please provide a job ID to cancel. Use `?list` to see your reminders.');
+      await this.sendErrorMessage(invocation, 'Please provide a job ID to cancel. Use `?list` to see your reminders.');
       return;
     }
 
+    const [jobId = '', flag] = content.split(/\s+/);
+    const skipOnce = flag === '--once' || flag === 'once';
+
     try {
-      const cancelled = await this.reminderQueue.cancelReminder(content);
+      const job = await this.getOwnedReminder(invocation.userId, jobId);
+      if (!job) {
+        await this.sendErrorMessage(invocation, `No reminder of yours found with ID: ${jobId}`);
+        return;
+      }
+
+      if (skipOnce) {
+        const skipped = await this.reminderQueue.skipOccurrence(jobId);
+
+        if (skipped) {
+          const embed = {
+            color: 0xff9900,
+            title: '⏭️ Occurrence Skipped',
+            description: `The next call of recurring reminder ${jobId} will be skipped. The series continues afterwards.`,
+            timestamp: new Date(),
+          };
+
+          await this.safeReply(invocation, { embeds: [embed] });
+        } else {
+          await this.sendErrorMessage(invocation, `No recurring reminder found with ID: ${jobId}`);
+        }
+        return;
+      }
+
+      const cancelled = await this.reminderQueue.cancelReminder(jobId, true);
       
       if (cancelled) {
+        await this.deleteCalendarCopy(job);
         const embed = {
           color: 0xff9900,
           title: '❌ Reminder Cancelled',
-          description: `Successfully cancelled reminder with ID: ${content}`,
+          description: `Successfully cancelled reminder with ID: ${jobId}`,
           timestamp: new Date(),
         };
         
-        await this.safeSendMessage(message.channel, { embeds: [embed] });
+        await this.safeReply(invocation, { embeds: [embed] });
       } else {
-        await this.sendErrorMessage(message.channel, `No reminder found with ID: ${content}`);
+        await this.sendErrorMessage(invocation, `No reminder found with ID: ${jobId}`);
       }
     } catch (error) {
       logger.error('❌ Error cancelling reminder:', error);
-      await this.sendErrorMessage(message.channel, 'Failed to cancel the reminder. Please try again.');
+      await this.sendErrorMessage(invocation, 'Failed to cancel the reminder. Please try again.');
     }
   }
 
-  private async handleListCommand(message: Message): Promise<void> {
+  private async handleListCommand(invocation: CommandInvocation): Promise<void> {
+    const { filter, error: filterError } = parseListFilter(invocation.args);
+    if (!filter) {
+      await this.sendErrorMessage(invocation, filterError || 'Invalid list filter.');
+      return;
+    }
+
     try {
-      const reminders = await this.reminderQueue.getUserReminders(message.author.id);
-      
-      if (reminders.length === 0) {
-        const embed = {
-          color: 0x0099ff,
-          title: '📋 Your Reminders',
-          description: 'You have no active reminders.',
-          timestamp: new Date(),
-        };
-        
-        await this.safeSendMessage(message.channel, { embeds: [embed] });
+      const reminders = await this.getFilteredReminders(invocation.userId, invocation.guildId, filter);
+      await this.safeReply(invocation, this.buildListPage(reminders, invocation.userId, 0, filter));
+    } catch (error) {
+      logger.error('❌ Error listing reminders:', error);
+      await this.sendErrorMessage(invocation, 'Failed to retrieve your reminders. Please try again.');
+    }
+  }
+
+  /**
+   * Get a user's reminders matching a list filter, soonest first
+   */
+  private async getFilteredReminders(
+    userId: string,
+    guildId: string | undefined,
+    filter: ReminderListFilter
+  ): Promise<Job<ReminderJobData, ReminderJobResult>[]> {
+    const reminders = await this.reminderQueue.getUserReminders(userId);
+    const { timezone } = await this.timezoneStore.resolveTimezone(userId, guildId);
+    return filterReminders(reminders, filter, timezone);
+  }
+
+  private buildListPage(
+    reminders: Job<ReminderJobData, ReminderJobResult>[],
+    ownerId: string,
+    page: number,
+    filter: ReminderListFilter
+  ): CommandReply {
+    return buildReminderListPage(reminders, {
+      ownerId,
+      page,
+      maxRedials: this.config.escalationMaxRedials,
+      filter,
+    });
+  }
+
+  /**
+   * Handle the buttons, bulk cancel menu and edit modal of a reminder list
+   */
+  private async handleListInteraction(
+    interaction: ButtonInteraction | StringSelectMenuInteraction | ModalSubmitInteraction,
+    listId: ListCustomId
+  ): Promise<void> {
+    // Lists can be posted in shared channels, so only their owner may use the controls
+    if (interaction.user.id !== listId.ownerId) {
+      await interaction.reply({
+        content: 'You can only manage your own reminders. Use `/list` or `?list` to see yours.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // The edit modal has to be the first response to the button
+    if (listId.action === 'edit' && interaction.isButton()) {
+      const job = listId.jobId ? await this.getOwnedReminder(interaction.user.id, listId.jobId) : null;
+      if (!job) {
+        await interaction.reply({ content: 'That reminder no longer exists.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      await interaction.showModal(this.buildEditModal(listId, job.data.message));
+      return;
+    }
+
+    let notice: string | null = null;
+    switch (listId.action) {
+      case 'page':
+        break;
+      case 'cancel':
+        notice = await this.cancelOwnedReminders(interaction.user.id, listId.jobId ? [listId.jobId] : []);
+        break;
+      case 'bulk-cancel':
+        notice = await this.cancelOwnedReminders(
+          interaction.user.id,
+          interaction.isStringSelectMenu() ? interaction.values : []
+        );
+        break;
+      case 'snooze':
+        notice = await this.snoozeOwnedReminder(interaction.user.id, listId.jobId);
+        break;
+      case 'edit-modal':
+        if (interaction.isModalSubmit() && listId.jobId) {
+          const result = await this.editOwnedReminder(interaction.user.id, interaction.guildId ?? undefined, listId.jobId, {
+            message: interaction.fields.getTextInputValue('message').trim(),
+            timeString: interaction.fields.getTextInputValue('time').trim(),
+          });
+          notice = result.error
+            ? `❌ ${result.error}`
+            : `✏️ Updated reminder ${listId.jobId}${result.fireAt ? `, now due ${TimeParser.formatDiscordTimestamp(result.fireAt)}` : ''}`;
+        }
+        break;
+    }
+
+    const filter = listId.filter || getMessageListFilter(interaction.message);
+    const reminders = await this.getFilteredReminders(listId.ownerId, interaction.guildId ?? undefined, filter);
+    const page = this.buildListPage(reminders, listId.ownerId, listId.page, filter) as InteractionUpdateOptions;
+
+    if (interaction.isModalSubmit() && !interaction.isFromMessage()) {
+      await interaction.reply({ content: notice || 'Done.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    await interaction.update(page);
+
+    if (notice) {
+      await interaction.followUp({ content: notice, flags: MessageFlags.Ephemeral });
+    }
+  }
+
+  private buildEditModal(listId: ListCustomId, currentMessage: string): ModalBuilder {
+    return new ModalBuilder()
+      .setCustomId(buildListCustomId('edit-modal', listId.ownerId, listId.page, listId.jobId))
+      .setTitle('Edit Reminder')
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId('message')
+            .setLabel('Message')
+            .setStyle(TextInputStyle.Paragraph)
+            .setMaxLength(500)
+            .setValue(currentMessage.slice(0, 500))
+            .setRequired(true)
+        ),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId('time')
+            .setLabel('New time (leave empty to keep)')
+            .setStyle(TextInputStyle.Short)
+            .setPlaceholder('e.g. 30m, 2h, 9:00am, 12/25/2024 9:00am')
+            .setRequired(false)
+        )
+      );
+  }
+
+  /**
+   * Get a reminder job if it belongs to the given user
+   */
+  private async getOwnedReminder(userId: string, jobId: string): Promise<Job<ReminderJobData, ReminderJobResult> | null> {
+    const job = await this.reminderQueue.getReminder(jobId);
+    return job && job.data.userId === userId ? job : null;
+  }
+
+  private async cancelOwnedReminders(userId: string, jobIds: string[]): Promise<string> {
+    const cancelled: string[] = [];
+
+    for (const jobId of jobIds) {
+      const job = await this.getOwnedReminder(userId, jobId);
+      if (job && await this.reminderQueue.cancelReminder(jobId, true)) {
+        await this.deleteCalendarCopy(job);
+        cancelled.push(jobId);
+      }
+    }
+
+    if (cancelled.length === 0) {
+      return '❌ No reminders were cancelled. They may have already fired.';
+    }
+    return `✅ Cancelled ${cancelled.length} reminder(s): ${cancelled.join(', ')}`;
+  }
+
+  private async snoozeOwnedReminder(userId: string, jobId: string | undefined): Promise<string> {
+    const job = jobId ? await this.getOwnedReminder(userId, jobId) : null;
+    if (!job || !jobId) {
+      return '❌ That reminder no longer exists.';
+    }
+
+    if (job.data.recurrence) {
+      return '❌ Occurrences of a recurring reminder cannot be snoozed. Use `?cancel <job-id> --once` to skip one.';
+    }
+
+    const current = this.reminderQueue.getScheduledTime(job);
+    const fireAt = new Date(Math.max(current.getTime(), Date.now()) + this.config.ivrSnoozeMinutes * 60 * 1000);
+
+    if (!(await this.reminderQueue.updateReminder(jobId, { fireAt }, userId))) {
+      return '❌ Could not snooze that reminder. It may already be calling you.';
+    }
+    await this.updateCalendarCopy(job, { fireAt });
+    return `💤 Snoozed **${job.data.message}** until ${TimeParser.formatDiscordTimestamp(fireAt)}`;
+  }
+
+  /**
+   * Validate and apply an edit to one of the user's reminders
+   */
+  private async editOwnedReminder(
+    userId: string,
+    guildId: string | undefined,
+    jobId: string,
+    changes: { message?: string; timeString?: string }
+  ): Promise<{ error?: string; message?: string; fireAt?: Date }> {
+    const job = await this.getOwnedReminder(userId, jobId);
+    if (!job) {
+      return { error: `No reminder of yours found with ID: ${jobId}` };
+    }
+
+    const update: { message?: string; fireAt?: Date } = {};
+    if (changes.message && changes.message !== job.data.message) {
+      update.message = changes.message;
+    }
+
+    if (changes.timeString) {
+      if (job.data.recurrence) {
+        return { error: 'The time of a recurring reminder cannot be changed. Cancel it and create a new series instead.' };
+      }
+
+      const { timezone } = await this.timezoneStore.resolveTimezone(userId, guildId);
+      const timeResult = TimeParser.parseTime(changes.timeString, timezone);
+      if (!timeResult.isValid) {
+        return { error: timeResult.error || 'Invalid time.' };
+      }
+
+      const delayValidation = TimeParser.validateDelay(timeResult.delayMs, this.config.maxReminderDelayDays);
+      if (!delayValidation.isValid) {
+        return { error: delayValidation.error || 'Invalid delay.' };
+      }
+      update.fireAt = timeResult.timestamp;
+    }
+
+    if (!update.message && !update.fireAt) {
+      return { error: 'Nothing to change.' };
+    }
+
+    if (!(await this.reminderQueue.updateReminder(jobId, update, userId))) {
+      return { error: 'Could not update that reminder. It may already be calling you.' };
+    }
+    await this.updateCalendarCopy(job, update);
+    return update;
+  }
+
+  private async handleEditCommand(invocation: CommandInvocation): Promise<void> {
+    const parsed = EditCommandParser.parse(invocation.args);
+    if (parsed.error || !parsed.jobId) {
+      await this.sendErrorMessage(invocation, parsed.error || 'Please provide a job ID. Usage: `?edit <job-id> [-m <message>] [-t <time>]`');
+      return;
+    }
+
+    try {
+      // Without changes, show the edit history
+      if (!parsed.message && !parsed.timeString) {
+        await this.handleEditHistory(invocation, parsed.jobId);
+        return;
+      }
+
+      const changes: { message?: string; timeString?: string } = {};
+      if (parsed.message) {
+        changes.message = parsed.message;
+      }
+      if (parsed.timeString) {
+        changes.timeString = parsed.timeString;
+      }
+
+      const result = await this.editOwnedReminder(invocation.userId, invocation.guildId, parsed.jobId, changes);
+      if (result.error) {
+        await this.sendErrorMessage(invocation, result.error);
         return;
       }
 
+      const fields = [];
+      if (result.message) {
+        fields.push({ name: '📝 Message', value: result.message, inline: false });
+      }
+      if (result.fireAt) {
+        fields.push({
+          name: '⏰ Time',
+          value: `In ${TimeParser.formatDelay(result.fireAt.getTime() - Date.now())} (${TimeParser.formatDiscordTimestamp(result.fireAt)})`,
+          inline: true,
+        });
+      }
+
       const embed = {
-        color: 0x0099ff,
-        title: '📋 Your Active Reminders',
-        fields: reminders.map((reminder, index) => ({
-          name: `${index + 1}. ${reminder.data.message}`,
-          value: `ID: ${reminder.id}\nScheduled: ${new Date(reminder.opts.delay! + Date.now()).toLocaleString()}`,
-          inline: false,
-        })),
+        color: 0x00ff00,
+        title: '✏️ Reminder Updated',
+        description: `Reminder ${parsed.jobId} keeps its job ID.`,
+        fields,
         timestamp: new Date(),
         footer: {
-          text: `Total: ${reminders.length} reminder(s)`,
+          text: `Use ?edit ${parsed.jobId} to see its edit history`,
         },
       };
 
-      await this.safeSendMessage(message.channel, { embeds: [embed] });
-
+      await this.safeReply(invocation, { embeds: [embed] });
+      logger.info(`✏️ Reminder ${parsed.jobId} edited by user ${invocation.username}`);
     } catch (error) {
-      logger.error('❌ Error listing reminders:', error);
-      await this.sendErrorMessage(message.channel, 'Failed to retrieve your reminders. Please try again.');
+      logger.error('❌ Error editing reminder:', error);
+      await this.sendErrorMessage(invocation, 'Failed to edit the reminder. Please try again.');
     }
   }
 
-  private async handleHelpCommand(message: Message): Promise<void> {
-    const helpEmbed = {
+  private async handleEditHistory(invocation: CommandInvocation, jobId: string): Promise<void> {
+    const job = await this.getOwnedReminder(invocation.userId, jobId);
+    if (!job) {
+      await this.sendErrorMessage(invocation, `No reminder of yours found with ID: ${jobId}`);
+      return;
+    }
+
+    const edits = job.data.edits || [];
+    const embed = {
       color: 0x0099ff,
-      title: '🤖 Discord Reminder Bot Help',
-      description: 'Set reminders that will call your phone at the specified time!',
-      fields: [
-        {
-          name: '📝 Set a Reminder',
-          value: '`?remind <message> -t <time>`\n\n**Time Formats:**\n• `6h` - 6 hours from now\n• `45m` - 45 minutes from now\n• `9:00am` - 9 AM today/tomorrow\n• `12/25/2024 9:00am` - Specific date and time\n• `1640995200` - UNIX timestamp',
+      title: '🗒️ Edit History',
+      description: [
+        `**Reminder:** ${job.data.message}`,
+        `**Created:** ${TimeParser.formatDiscordTimestamp(new Date(job.data.createdAt))}`,
+        `**Due:** ${TimeParser.formatDiscordTimestamp(this.reminderQueue.getScheduledTime(job))}`,
+      ].join('\n'),
+      fields: edits.slice(-10).map((edit, index) => {
+        const lines: string[] = [`${TimeParser.formatDiscordTimestamp(new Date(edit.editedAt))} by <@${edit.editedBy}>`];
+        if (edit.message !== undefined) {
+          lines.push(`Message: "${edit.previousMessage}" → "${edit.message}"`);
+        }
+        if (edit.fireTime) {
+          const previous = edit.previousFireTime ? TimeParser.formatDiscordTimestamp(new Date(edit.previousFireTime)) : 'unknown';
+          lines.push(`Time: ${previous} → ${TimeParser.formatDiscordTimestamp(new Date(edit.fireTime))}`);
+        }
+        return {
+          name: `Edit ${index + 1}`,
+          value: lines.join('\n').slice(0, 1024),
           inline: false,
-        },
-        {
-          name: '❌ Cancel a Reminder',
-          value: '`?cancel <job-id>`\nUse `?list` to see your active reminders and their IDs.',
+        };
+      }),
+      timestamp: new Date(),
+      footer: {
+        text: edits.length > 0 ? `${edits.length} edit(s), newest last` : 'This reminder has not been edited',
+      },
+    };
+
+    await this.safeReply(invocation, { embeds: [embed] });
+  }
+
+  private async handleTimezoneCommand(invocation: CommandInvocation): Promise<void> {
+    const [first = '', second] = invocation.args.split(/\s+/).filter(Boolean);
+
+    try {
+      if (first.toLowerCase() === 'guild' || first.toLowerCase() === 'server') {
+        await this.handleGuildTimezoneCommand(invocation, second);
+        return;
+      }
+
+      if (first.toLowerCase() === 'reset') {
+        await this.timezoneStore.clearUserTimezone(invocation.userId);
+        const resolved = await this.timezoneStore.resolveTimezone(invocation.userId, invocation.guildId);
+        await this.safeReply(invocation, {
+          embeds: [this.buildTimezoneEmbed('🌍 Timezone Reset', resolved.timezone, resolved.source)],
+        });
+        return;
+      }
+
+      if (first) {
+        const timezone = this.normalizeTimezone(first);
+        if (!timezone) {
+          await this.sendErrorMessage(invocation, `Unknown timezone: ${first}. Use an IANA name such as \`Europe/Berlin\` or \`America/New_York\`.`);
+          return;
+        }
+
+        await this.timezoneStore.setUserTimezone(invocation.userId, timezone);
+        await this.safeReply(invocation, {
+          embeds: [this.buildTimezoneEmbed('🌍 Timezone Updated', timezone, 'user')],
+        });
+        return;
+      }
+
+      const resolved = await this.timezoneStore.resolveTimezone(invocation.userId, invocation.guildId);
+      await this.safeReply(invocation, {
+        embeds: [this.buildTimezoneEmbed('🌍 Your Timezone', resolved.timezone, resolved.source)],
+      });
+    } catch (error) {
+      logger.error('❌ Error handling timezone command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to update your timezone. Please try again.');
+    }
+  }
+
+  private async handleGuildTimezoneCommand(invocation: CommandInvocation, zone: string | undefined): Promise<void> {
+    if (!invocation.guildId) {
+      await this.sendErrorMessage(invocation, 'The server timezone can only be set in a server channel.');
+      return;
+    }
+
+    if (!zone) {
+      const timezone = await this.timezoneStore.getGuildTimezone(invocation.guildId);
+      await this.safeReply(invocation, {
+        embeds: [this.buildTimezoneEmbed('🌍 Server Timezone', timezone || this.config.defaultTimezone, timezone ? 'guild' : 'default')],
+      });
+      return;
+    }
+
+    if (!invocation.canManageGuild) {
+      await this.sendErrorMessage(invocation, 'You need the Manage Server permission to change the server timezone.');
+      return;
+    }
+
+    const timezone = this.normalizeTimezone(zone);
+    if (!timezone) {
+      await this.sendErrorMessage(invocation, `Unknown timezone: ${zone}. Use an IANA name such as \`Europe/Berlin\`.`);
+      return;
+    }
+
+    await this.timezoneStore.setGuildTimezone(invocation.guildId, timezone);
+    await this.safeReply(invocation, {
+      embeds: [this.buildTimezoneEmbed('🌍 Server Timezone Updated', timezone, 'guild')],
+    });
+  }
+
+  /**
+   * Match a zone name case-insensitively against the IANA database, e.g. "europe/berlin"
+   */
+  private normalizeTimezone(zone: string): string | null {
+    if (TimeParser.isValidTimezone(zone)) {
+      return zone;
+    }
+    return moment.tz.names().find(name => name.toLowerCase() === zone.toLowerCase()) || null;
+  }
+
+  private buildTimezoneEmbed(title: string, timezone: string, source: TimezoneSource): object {
+    const sources: Record<TimezoneSource, string> = {
+      user: 'Your own setting',
+      guild: 'Server default',
+      default: 'Bot default',
+    };
+
+    return {
+      color: 0x0099ff,
+      title,
+      fields: [
+        { name: 'Timezone', value: timezone, inline: true },
+        { name: 'Local Time', value: TimeParser.formatInTimezone(new Date(), timezone), inline: true },
+        { name: 'Source', value: sources[source], inline: true },
+      ],
+      timestamp: new Date(),
+      footer: {
+        text: 'Times like 9:00am in ?remind and ?edit are read in this timezone',
+      },
+    };
+  }
+
+  private async handleAgendaCommand(invocation: CommandInvocation): Promise<void> {
+    const [action = '', ...rest] = invocation.args.split(/\s+/).filter(Boolean);
+
+    try {
+      switch (action.toLowerCase()) {
+        case 'on':
+          await this.handleAgendaOnCommand(invocation, rest.join(' '));
+          break;
+        case 'off':
+          await this.handleAgendaOffCommand(invocation);
+          break;
+        case '':
+        case 'preview':
+          await this.handleAgendaPreviewCommand(invocation);
+          break;
+        default:
+          await this.sendErrorMessage(invocation, `Unknown agenda action: ${action}. Use \`?agenda on 7:30am\`, \`?agenda off\` or \`?agenda\`.`);
+      }
+    } catch (error) {
+      logger.error('❌ Error handling agenda command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to update your agenda call. Please try again.');
+    }
+  }
+
+  private async handleAgendaOnCommand(invocation: CommandInvocation, schedule: string): Promise<void> {
+    if (!schedule) {
+      await this.sendErrorMessage(invocation, 'Please give the time of the call, e.g. `?agenda on 7:30am` or `?agenda on weekdays 7:30am`.');
+      return;
+    }
+
+    const userPhone = await this.phoneRegistry.getVerifiedPhone(invocation.userId);
+    if (!userPhone && this.config.requireVerifiedPhone) {
+      await this.sendErrorMessage(invocation, 'Please register your phone number first with `?phone set <number>`.');
+      return;
+    }
+
+    // "7:30am" and "weekdays 7:30am" read as "every day at 7:30am" and "every weekdays 7:30am"
+    const { timezone } = await this.timezoneStore.resolveTimezone(invocation.userId, invocation.guildId);
+    const recurrence = RecurrenceParser.parse(`every ${schedule.replace(/^every\s+/i, '')}`, timezone);
+    if (!recurrence.isValid || !/^\d+ \d+ /.test(recurrence.pattern)) {
+      await this.sendErrorMessage(invocation, recurrence.error || 'The agenda call needs a time of day, e.g. `?agenda on 7:30am`.');
+      return;
+    }
+
+    const job = await this.agendaService.enableAgenda(
+      invocation.userId,
+      invocation.channelId,
+      invocation.messageId,
+      recurrence,
+      timezone
+    );
+    const firstCall = recurrence.nextOccurrence || new Date();
+    const agenda = await this.agendaService.getAgenda(invocation.userId, timezone, firstCall);
+
+    await this.safeReply(invocation, {
+      embeds: [this.buildAgendaEmbed('🗓️ Daily Agenda Call On', agenda, [
+        { name: '🔁 Calls', value: `${recurrence.description} (${timezone})`, inline: true },
+        { name: '⏰ First Call', value: TimeParser.formatDiscordTimestamp(firstCall), inline: true },
+        { name: '🆔 Job ID', value: job.id || 'Unknown', inline: true },
+      ], 'Preview of the first call, it is read out again with the latest events • ?agenda off to stop')],
+    });
+  }
+
+  private async handleAgendaOffCommand(invocation: CommandInvocation): Promise<void> {
+    if (!(await this.agendaService.disableAgenda(invocation.userId))) {
+      await this.sendErrorMessage(invocation, 'You have no agenda call. Use `?agenda on 7:30am` to get one.');
+      return;
+    }
+
+    await this.safeReply(invocation, {
+      embeds: [{
+        color: 0x00ff00,
+        title: '🗓️ Daily Agenda Call Off',
+        description: 'You will no longer get agenda calls.',
+        timestamp: new Date(),
+      }],
+    });
+  }
+
+  /**
+   * Show the agenda of the next call, or of the rest of today when no call is set up
+   */
+  private async handleAgendaPreviewCommand(invocation: CommandInvocation): Promise<void> {
+    const job = await this.agendaService.getAgendaJob(invocation.userId);
+
+    if (job) {
+      const nextCall = this.reminderQueue.getScheduledTime(job);
+      const agenda = await this.agendaService.getAgenda(invocation.userId, job.data.agenda!.timezone, nextCall);
+      await this.safeReply(invocation, {
+        embeds: [this.buildAgendaEmbed('🗓️ Your Next Agenda Call', agenda, [
+          { name: '🔁 Calls', value: job.data.recurrence?.description || 'Unknown', inline: true },
+          { name: '⏰ Next Call', value: TimeParser.formatDiscordTimestamp(nextCall), inline: true },
+        ], 'Events added before the call will be read out too • ?agenda off to stop')],
+      });
+      return;
+    }
+
+    const { timezone } = await this.timezoneStore.resolveTimezone(invocation.userId, invocation.guildId);
+    const agenda = await this.agendaService.getAgenda(invocation.userId, timezone);
+    await this.safeReply(invocation, {
+      embeds: [this.buildAgendaEmbed('🗓️ Your Agenda Today', agenda, [], 'Use ?agenda on 7:30am to get it as a morning call')],
+    });
+  }
+
+  private buildAgendaEmbed(title: string, agenda: DailyAgenda, fields: object[], footer: string): object {
+    const list = (lines: string[]) => (lines.length > 0 ? lines.join('\n').slice(0, 1024) : 'None');
+    const time = (date: Date) => TimeParser.formatDiscordTimestamp(date, 't');
+
+    const agendaFields = [
+      {
+        name: `📅 Meetings (${agenda.meetings.length})`,
+        value: list(agenda.meetings.map(meeting =>
+          `${time(meeting.startTime)}${meeting.endTime ? `–${time(meeting.endTime)}` : ''} **${meeting.summary}**${meeting.location ? ` 📍 ${meeting.location}` : ''}`
+        )),
+        inline: false,
+      },
+      {
+        name: '🟢 Free Time',
+        value: list(agenda.gaps.map(gap => `${time(gap.start)}–${time(gap.end)}`)),
+        inline: true,
+      },
+      {
+        name: '🔔 Reminder Calls',
+        value: list(agenda.reminders.map(reminder => `${time(reminder.fireAt)} ${reminder.message}`)),
+        inline: true,
+      },
+    ];
+    if (agenda.allDayEvents.length > 0) {
+      agendaFields.splice(1, 0, {
+        name: '🌅 All Day',
+        value: list(agenda.allDayEvents.map(event => event.summary)),
+        inline: false,
+      });
+    }
+
+    return {
+      color: 0x4285f4,
+      title,
+      description: `**${moment(agenda.start).tz(agenda.timezone).format('dddd, MMMM D')}**`,
+      fields: [
+        ...fields,
+        ...agendaFields,
+        {
+          name: '🗣️ On the Call',
+          value: AgendaBuilder.toSpeech(agenda).slice(0, 1024),
+          inline: false,
+        },
+      ],
+      timestamp: new Date(),
+      footer: { text: footer },
+    };
+  }
+
+  private async handlePhoneCommand(invocation: CommandInvocation): Promise<void> {
+    const content = invocation.args;
+    const [action = 'show', ...args] = content.split(/\s+/).filter(Boolean);
+
+    try {
+      switch (action.toLowerCase()) {
+        case 'set':
+          await this.handlePhoneSetCommand(invocation, args);
+          break;
+        case 'verify':
+          await this.handlePhoneVerifyCommand(invocation, args[0]);
+          break;
+        case 'remove':
+          await this.handlePhoneRemoveCommand(invocation);
+          break;
+        case 'show':
+          await this.handlePhoneShowCommand(invocation);
+          break;
+        default:
+          await this.sendErrorMessage(invocation, `Unknown phone action: ${action}. Use \`?phone set <number>\`, \`?phone verify <code>\`, \`?phone\` or \`?phone remove\`.`);
+      }
+    } catch (error) {
+      logger.error('❌ Error handling phone command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to update your phone number. Please try again.');
+    }
+  }
+
+  private async handlePhoneSetCommand(invocation: CommandInvocation, args: string[]): Promise<void> {
+    // Last argument may choose how the code is delivered
+    const method = args.length > 1 && ['sms', 'call'].includes(args[args.length - 1].toLowerCase())
+      ? args.pop()!.toLowerCase()
+      : 'sms';
+    const rawNumber = args.join('');
+
+    if (!rawNumber) {
+      await this.sendErrorMessage(invocation, 'Please provide a phone number. Usage: `?phone set <number> [sms|call]`');
+      return;
+    }
+
+    const phoneNumber = this.twilioService.formatPhoneNumber(rawNumber);
+    if (!this.twilioService.validatePhoneNumber(phoneNumber)) {
+      await this.sendErrorMessage(invocation, `Invalid phone number: ${rawNumber}. Use international format, e.g. +14155550123.`);
+      return;
+    }
+
+    const code = await this.phoneRegistry.startVerification(invocation.userId, phoneNumber);
+    if (!code) {
+      await this.sendErrorMessage(invocation, 'A code was sent recently. Please wait a minute before requesting another.');
+      return;
+    }
+
+    const spokenCode = code.split('').join(', ');
+    const sent = method === 'call'
+      ? await this.twilioService.makeCallWithTTS(
+          `Your reminder bot verification code is ${spokenCode}. Again, your code is ${spokenCode}.`,
+          phoneNumber
+        )
+      : await this.twilioService.sendSms(phoneNumber, `Your reminder bot verification code is ${code}. It expires in 10 minutes.`);
+
+    if (!sent.success) {
+      await this.sendErrorMessage(invocation, `Could not send a verification code to ${this.maskPhoneNumber(phoneNumber)}: ${sent.error}`);
+      return;
+    }
+
+    const embed = {
+      color: 0x0099ff,
+      title: '📱 Verify Your Phone Number',
+      description: `We ${method === 'call' ? 'are calling' : 'sent a text to'} **${this.maskPhoneNumber(phoneNumber)}** with a 6-digit code.`,
+      fields: [
+        {
+          name: '✅ Next Step',
+          value: '`?phone verify <code>`',
+          inline: true,
+        },
+        {
+          name: '⏰ Expires',
+          value: 'In 10 minutes',
+          inline: true,
+        },
+      ],
+      timestamp: new Date(),
+    };
+
+    await this.safeReply(invocation, { embeds: [embed] });
+  }
+
+  private async handlePhoneVerifyCommand(invocation: CommandInvocation, code: string | undefined): Promise<void> {
+    if (!code) {
+      await this.sendErrorMessage(invocation, 'Please provide the code you received. Usage: `?phone verify <code>`');
+      return;
+    }
+
+    const result = await this.phoneRegistry.verify(invocation.userId, code);
+    if (!result.success) {
+      await this.sendErrorMessage(invocation, result.error || 'Verification failed.');
+      return;
+    }
+
+    const embed = {
+      color: 0x00ff00,
+      title: '✅ Phone Number Verified',
+      description: `Your reminders will now call **${this.maskPhoneNumber(result.phoneNumber!)}**.`,
+      timestamp: new Date(),
+    };
+
+    await this.safeReply(invocation, { embeds: [embed] });
+  }
+
+  private async handlePhoneRemoveCommand(invocation: CommandInvocation): Promise<void> {
+    const removed = await this.phoneRegistry.removePhone(invocation.userId);
+
+    if (!removed) {
+      await this.sendErrorMessage(invocation, 'You have no registered phone number.');
+      return;
+    }
+
+    const embed = {
+      color: 0xff9900,
+      title: '📱 Phone Number Removed',
+      description: this.config.requireVerifiedPhone
+        ? 'Your reminders will not be called until you register a new number.'
+        : 'Your reminders will call the default number until you register a new one.',
+      timestamp: new Date(),
+    };
+
+    await this.safeReply(invocation, { embeds: [embed] });
+  }
+
+  private async handlePhoneShowCommand(invocation: CommandInvocation): Promise<void> {
+    const [verified, pending] = await Promise.all([
+      this.phoneRegistry.getVerifiedPhone(invocation.userId),
+      this.phoneRegistry.getPendingPhone(invocation.userId),
+    ]);
+
+    const fields = [
+      {
+        name: '✅ Verified Number',
+        value: verified ? this.maskPhoneNumber(verified) : 'None',
+        inline: true,
+      },
+    ];
+    if (pending) {
+      fields.push({
+        name: '⏳ Pending Verification',
+        value: this.maskPhoneNumber(pending),
+        inline: true,
+      });
+    }
+
+    const embed = {
+      color: 0x0099ff,
+      title: '📱 Your Phone Number',
+      fields,
+      timestamp: new Date(),
+      footer: {
+        text: 'Use ?phone set <number> to register a new number',
+      },
+    };
+
+    await this.safeReply(invocation, { embeds: [embed] });
+  }
+
+  private maskPhoneNumber(phoneNumber: string): string {
+    return phoneNumber.length > 4 ? `${'•'.repeat(phoneNumber.length - 4)}${phoneNumber.slice(-4)}` : phoneNumber;
+  }
+
+  private async handleDeliveryCommand(invocation: CommandInvocation): Promise<void> {
+    const jobId = invocation.args;
+
+    if (!jobId) {
+      await this.sendErrorMessage(invocation, 'Please provide a job ID. Usage: `?delivery <job-id>`');
+      return;
+    }
+
+    try {
+      // Delivery steps show the calls, texts and DMs of a reminder, so only its owner may see them
+      const ownerId = await this.reminderQueue.getReminderOwner(jobId);
+      const record = ownerId === invocation.userId ? await this.deliveryLogStore.getRecord(jobId) : null;
+
+      if (!record) {
+        await this.sendErrorMessage(invocation, `No delivery history found for reminder ${jobId}.`);
+        return;
+      }
+
+      const embed = {
+        color: record.status === 'undelivered' ? 0xff0000 : 0x0099ff,
+        title: '📬 Reminder Delivery',
+        description: `**Reminder:** ${jobId}\n**Status:** ${this.formatDeliveryStatus(record)}`,
+        fields: record.steps.slice(-25).map((step, index) => ({
+          name: `${index + 1}. ${this.formatDeliveryStepType(step)}`,
+          value: `${step.outcome} at ${TimeParser.formatDiscordTimestamp(new Date(step.timestamp))}${step.detail ? `\n${step.detail}` : ''}`,
+          inline: false,
+        })),
+        timestamp: new Date(),
+      };
+
+      await this.safeReply(invocation, { embeds: [embed] });
+
+    } catch (error) {
+      logger.error('❌ Error getting delivery history:', error);
+      await this.sendErrorMessage(invocation, 'Failed to retrieve delivery history. Please try again.');
+    }
+  }
+
+  private formatDeliveryStatus(record: DeliveryRecord): string {
+    switch (record.status) {
+      case 'answered':
+        return '📞 Answered';
+      case 'acknowledged':
+        return '✅ Answered and confirmed';
+      case 'sms':
+        return '💬 Delivered by SMS';
+      case 'discord-dm':
+        return '✉️ Delivered by Discord DM';
+      case 'undelivered':
+        return '❌ Not delivered';
+      default:
+        return '⏳ In progress';
+    }
+  }
+
+  private formatDeliveryStepType(step: DeliveryStep): string {
+    switch (step.type) {
+      case 'call':
+        return '📞 Call';
+      case 'redial':
+        return `🔁 Redial ${step.attempt ?? ''}`.trim();
+      case 'sms':
+        return '💬 SMS';
+      case 'discord-dm':
+        return '✉️ Discord DM';
+      default:
+        return '☎️ Keypress';
+    }
+  }
+
+  private async handleHistoryCommand(invocation: CommandInvocation): Promise<void> {
+    const limit = Math.min(Math.max(parseInt(invocation.args, 10) || 10, 1), MAX_HISTORY_SHOWN);
+
+    try {
+      const records = await this.reminderRepository.getUserReminders(invocation.userId, limit);
+
+      if (records.length === 0) {
+        await this.sendErrorMessage(invocation, 'You have no reminder history yet. Use `?remind` to set one.');
+        return;
+      }
+
+      const calls = await Promise.all(records.map(record => this.reminderRepository.getCallAttempts(record.id)));
+
+      const embed = {
+        color: 0x0099ff,
+        title: '🕘 Your Reminder History',
+        description: `Your last ${records.length} reminder(s), newest first.`,
+        fields: records.map((record, index) => ({
+          name: `${index + 1}. ${record.message.length > 80 ? `${record.message.slice(0, 77)}...` : record.message}`,
+          value: this.formatHistoryEntry(record, calls[index] || []).slice(0, 1024),
+          inline: false,
+        })),
+        timestamp: new Date(),
+        footer: {
+          text: '?delivery <id> for the delivery steps of a call • ?stats for your totals',
+        },
+      };
+
+      await this.safeReply(invocation, { embeds: [embed] });
+
+    } catch (error) {
+      logger.error('❌ Error getting reminder history:', error);
+      await this.sendErrorMessage(invocation, 'Failed to retrieve your reminder history. Please try again.');
+    }
+  }
+
+  private formatHistoryEntry(record: ReminderRecord, calls: ReminderCallAttempt[]): string {
+    const lines = [`${this.formatReminderStatus(record.status)} • ${this.formatReminderKind(record.kind)}`];
+
+    if (record.schedule) {
+      lines.push(`Schedule: ${record.schedule}`);
+    }
+    if (record.fireAt) {
+      lines.push(`Due: ${TimeParser.formatDiscordTimestamp(new Date(record.fireAt))}`);
+    }
+
+    const lastCall = calls[calls.length - 1];
+    if (lastCall) {
+      const duration = lastCall.durationSeconds ? `, ${TimeParser.formatDelay(lastCall.durationSeconds * 1000)}` : '';
+      lines.push(`📞 ${calls.length} call(s), last ${lastCall.outcome}${duration} at ${TimeParser.formatDiscordTimestamp(new Date(lastCall.placedAt), 't')}`);
+    }
+
+    lines.push(`Created ${TimeParser.formatDiscordTimestamp(new Date(record.createdAt), 'R')} • updated ${TimeParser.formatDiscordTimestamp(new Date(record.updatedAt), 'R')}`);
+    lines.push(`ID: \`${record.id}\``);
+
+    return lines.join('\n');
+  }
+
+  private formatReminderStatus(status: ReminderStatus): string {
+    switch (status) {
+      case 'scheduled':
+        return '⏰ Scheduled';
+      case 'calling':
+        return '📞 Calling';
+      case 'answered':
+        return '📞 Answered';
+      case 'acknowledged':
+        return '✅ Acknowledged';
+      case 'snoozed':
+        return '😴 Snoozed';
+      case 'sms':
+        return '💬 Delivered by SMS';
+      case 'discord-dm':
+        return '✉️ Delivered by Discord DM';
+      case 'undelivered':
+        return '❌ Not delivered';
+      case 'failed':
+        return '⚠️ Failed';
+      case 'skipped':
+        return '⏭️ Skipped';
+      case 'cancelled':
+        return '🚫 Cancelled';
+    }
+  }
+
+  private formatReminderKind(kind: ReminderKind): string {
+    switch (kind) {
+      case 'once':
+        return 'One-off';
+      case 'recurring':
+        return 'Recurring series';
+      case 'occurrence':
+        return 'Recurring call';
+      case 'calendar':
+        return 'Calendar event';
+      case 'agenda':
+        return 'Daily agenda';
+    }
+  }
+
+  private async handleStatsCommand(invocation: CommandInvocation): Promise<void> {
+    try {
+      const stats = await this.reminderRepository.getUserStats(invocation.userId);
+
+      const statsEmbed = {
+        color: 0x0099ff,
+        title: '📈 Your Reminder Stats',
+        description: stats.totalReminders > 0
+          ? 'A recurring series counts as one reminder.'
+          : 'You have not set any reminders yet. Use `?remind` to set one!',
+        fields: [
+          { name: '📝 Total', value: `${stats.totalReminders}`, inline: true },
+          { name: '⏰ Active', value: `${stats.activeReminders}`, inline: true },
+          { name: '✅ Completed', value: `${stats.completedReminders}`, inline: true },
+          { name: '❌ Failed', value: `${stats.failedReminders}`, inline: true },
+          { name: '🚫 Cancelled', value: `${stats.cancelledReminders}`, inline: true },
+        ],
+        timestamp: new Date(),
+        footer: {
+          text: '?history for your recent reminders',
+        },
+      };
+
+      await this.safeReply(invocation, { embeds: [statsEmbed] });
+
+    } catch (error) {
+      logger.error('❌ Error getting reminder stats:', error);
+      await this.sendErrorMessage(invocation, 'Failed to retrieve your reminder stats. Please try again.');
+    }
+  }
+
+  private async handleAdminCommand(invocation: CommandInvocation): Promise<void> {
+    if (!this.config.isAdmin(invocation.userId)) {
+      await this.sendErrorMessage(invocation, 'Only bot admins (`ADMIN_USER_IDS`) can use admin commands.');
+      return;
+    }
+
+    const [area = '', action = '', argument = ''] = invocation.args.split(/\s+/).filter(Boolean);
+    if (area.toLowerCase() !== 'dlq') {
+      await this.sendErrorMessage(invocation, 'Unknown admin command. Use `?admin dlq list|show|replay|purge`.');
+      return;
+    }
+
+    try {
+      switch (action.toLowerCase()) {
+        case '':
+        case 'list':
+          await this.handleDeadLetterListCommand(invocation, argument);
+          break;
+        case 'show':
+          await this.handleDeadLetterShowCommand(invocation, argument);
+          break;
+        case 'replay':
+          await this.handleDeadLetterReplayCommand(invocation, argument);
+          break;
+        case 'purge':
+          await this.handleDeadLetterPurgeCommand(invocation, argument);
+          break;
+        default:
+          await this.sendErrorMessage(invocation, `Unknown dead-letter action: ${action}. Use \`?admin dlq list|show|replay|purge\`.`);
+      }
+    } catch (error) {
+      logger.error('❌ Error handling admin command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to run the admin command. Please try again.');
+    }
+  }
+
+  private async handleDeadLetterListCommand(invocation: CommandInvocation, limitArg: string): Promise<void> {
+    const limit = Math.min(Math.max(parseInt(limitArg, 10) || 10, 1), 25);
+    const [entries, total] = await Promise.all([
+      this.deadLetterStore.list(limit),
+      this.deadLetterStore.count(),
+    ]);
+
+    await this.safeReply(invocation, {
+      embeds: [{
+        color: total > 0 ? 0xff0000 : 0x00ff00,
+        title: '🪦 Dead-Lettered Reminders',
+        description: total > 0
+          ? `${total} reminder(s) failed for good${total > entries.length ? `, showing the latest ${entries.length}` : ''}.`
+          : 'No reminders have failed for good.',
+        fields: entries.map(entry => ({
+          name: entry.id.slice(0, 256),
+          value: [
+            `"${entry.reminder.message}" for <@${entry.reminder.userId}>`,
+            `${entry.attemptsMade} attempt(s), ${TimeParser.formatDiscordTimestamp(new Date(entry.deadLetteredAt), 'R')}`,
+            `Last error: ${entry.errors[entry.errors.length - 1]?.error || 'Unknown'}`,
+          ].join('\n').slice(0, 1024),
+          inline: false,
+        })),
+        timestamp: new Date(),
+        footer: {
+          text: '?admin dlq show <id> for the error history • ?admin dlq replay <id> to call again',
+        },
+      }],
+    });
+  }
+
+  private async handleDeadLetterShowCommand(invocation: CommandInvocation, id: string): Promise<void> {
+    if (!id) {
+      await this.sendErrorMessage(invocation, 'Please provide the ID of a dead-lettered reminder. Usage: `?admin dlq show <id>`');
+      return;
+    }
+
+    const entry = await this.deadLetterStore.get(id);
+    if (!entry) {
+      await this.sendErrorMessage(invocation, `No dead-lettered reminder found with ID ${id}.`);
+      return;
+    }
+
+    const { reminder } = entry;
+    const fields = [
+      { name: '👤 Owner', value: `<@${reminder.userId}>`, inline: true },
+      { name: '🔁 Attempts', value: `${entry.attemptsMade}${entry.permanent ? ' (permanent error)' : ''}`, inline: true },
+      { name: '🪦 Dead-Lettered', value: TimeParser.formatDiscordTimestamp(new Date(entry.deadLetteredAt)), inline: true },
+      { name: '🕐 Created', value: TimeParser.formatDiscordTimestamp(new Date(reminder.createdAt)), inline: true },
+      { name: '⚙️ Job', value: `${entry.jobName}${reminder.recurrence ? ` (${reminder.recurrence.description})` : ''}`, inline: true },
+    ];
+    if (reminder.phoneNumber) {
+      fields.push({ name: '📱 Number', value: reminder.phoneNumber, inline: true });
+    }
+    for (const attempt of entry.errors.slice(-10)) {
+      fields.push({
+        name: `❌ Attempt ${attempt.attempt}`,
+        value: `${attempt.error}\n${TimeParser.formatDiscordTimestamp(new Date(attempt.failedAt))}`.slice(0, 1024),
+        inline: false,
+      });
+    }
+
+    await this.safeReply(invocation, {
+      embeds: [{
+        color: 0xff0000,
+        title: '🪦 Dead-Lettered Reminder',
+        description: `**ID:** ${entry.id}\n**Message:** ${reminder.message}`.slice(0, 4096),
+        fields,
+        timestamp: new Date(),
+        footer: {
+          text: '?admin dlq replay <id> to call again • ?admin dlq purge <id> to drop it',
+        },
+      }],
+    });
+  }
+
+  private async handleDeadLetterReplayCommand(invocation: CommandInvocation, id: string): Promise<void> {
+    if (!id) {
+      await this.sendErrorMessage(invocation, 'Please provide the ID of a dead-lettered reminder. Usage: `?admin dlq replay <id>`');
+      return;
+    }
+
+    const entry = await this.deadLetterStore.get(id);
+    if (!entry) {
+      await this.sendErrorMessage(invocation, `No dead-lettered reminder found with ID ${id}.`);
+      return;
+    }
+
+    const job = await this.reminderQueue.replayReminder(entry.id, entry.reminder);
+    await this.deadLetterStore.remove(entry.id);
+
+    await this.safeReply(invocation, {
+      embeds: [{
+        color: 0x00ff00,
+        title: '🔄 Reminder Replayed',
+        description: `"${entry.reminder.message}" for <@${entry.reminder.userId}> is being called again.`,
+        fields: [
+          { name: '🆔 New Job ID', value: job.id || 'Unknown', inline: true },
+        ],
+        timestamp: new Date(),
+      }],
+    });
+  }
+
+  private async handleDeadLetterPurgeCommand(invocation: CommandInvocation, id: string): Promise<void> {
+    if (!id) {
+      await this.sendErrorMessage(invocation, 'Please provide a reminder ID or `all`. Usage: `?admin dlq purge <id|all>`');
+      return;
+    }
+
+    let description: string;
+    if (id.toLowerCase() === 'all') {
+      const purged = await this.deadLetterStore.purge();
+      description = `Removed ${purged} dead-lettered reminder(s).`;
+    } else if (await this.deadLetterStore.remove(id)) {
+      description = `Removed dead-lettered reminder ${id}.`;
+    } else {
+      await this.sendErrorMessage(invocation, `No dead-lettered reminder found with ID ${id}.`);
+      return;
+    }
+
+    await this.safeReply(invocation, {
+      embeds: [{
+        color: 0x00ff00,
+        title: '🧹 Dead-Letter Queue Purged',
+        description,
+        timestamp: new Date(),
+      }],
+    });
+  }
+
+  private formatEscalationPolicy(policy: EscalationPolicy): string {
+    const steps: string[] = [];
+    if (policy.maxRedials > 0) {
+      steps.push(`redial ${policy.maxRedials}x every ${TimeParser.formatDelay(policy.redialSpacingMs)}`);
+    }
+    if (policy.smsFallback) {
+      steps.push('SMS');
+    }
+    if (policy.discordFallback) {
+      steps.push('Discord DM');
+    }
+    return steps.length > 0 ? steps.join(' → ') : 'No escalation';
+  }
+
+  private async handleHelpCommand(invocation: CommandInvocation): Promise<void> {
+    const helpEmbed = {
+      color: 0x0099ff,
+      title: '🤖 Discord Reminder Bot Help',
+      description: 'Set reminders that will call your phone at the specified time!',
+      fields: [
+        {
+          name: '📝 Set a Reminder',
+          value: '`?remind <message> -t <time> [-e <redials>x<spacing>] [--no-sms] [--no-dm] [--calendar]`\n\n**Time Formats:**\n• `6h` - 6 hours from now\n• `45m` - 45 minutes from now\n• `9:00am` - 9 AM today/tomorrow\n• `12/25/2024 9:00am` - Specific date and time\n• `1640995200` - UNIX timestamp',
+          inline: false,
+        },
+        {
+          name: '🔁 Recurring Reminders',
+          value: '`?remind <message> -r "<schedule>"`\n\n**Schedules:**\n• `every weekday 9am`\n• `every mon,wed,fri at 7:30pm`\n• `first monday of the month 10am`\n• `RRULE:FREQ=WEEKLY;BYDAY=TU;BYHOUR=18`\n• `0 9 * * 1-5` - cron expression',
+          inline: false,
+        },
+        {
+          name: '❌ Cancel a Reminder',
+          value: '`?cancel <job-id>` - Cancel a reminder or stop a recurring series\n`?cancel <job-id> --once` - Skip only the next call of a series\nUse `?list` to see your active reminders and their IDs.',
+          inline: false,
+        },
+        {
+          name: '✏️ Edit a Reminder',
+          value: '`?edit <job-id> [-m <new message>] [-t <new time>]` - Change a reminder without losing its ID\n`?edit <job-id>` - Show its edit history',
+          inline: false,
+        },
+        {
+          name: '📋 List Your Reminders',
+          value: '`?list` - Your active reminders, soonest first, with buttons to cancel, snooze or edit them\n`?list today` / `?list calendar` - Only those due today / from calendar events\n`?list search <text>` - Only those whose message contains the text',
+          inline: false,
+        },
+        {
+          name: '🌍 Your Timezone',
+          value: '`?timezone <zone>` - Set your IANA timezone, e.g. `Europe/Berlin`\n`?timezone` / `?timezone reset` - Show or reset it\n`?timezone guild <zone>` - Set the server default (Manage Server)',
+          inline: false,
+        },
+        {
+          name: '🗓️ Daily Agenda Call',
+          value: '`?agenda on [weekdays] <time>` - Get a call reading out your day, e.g. `?agenda on 7:30am`\n`?agenda` - Preview the next agenda call\n`?agenda off` - Stop the calls',
+          inline: false,
+        },
+        {
+          name: '📱 Your Phone Number',
+          value: '`?phone set <number> [sms|call]` - Register the number your reminders call\n`?phone verify <code>` - Confirm it with the code you received\n`?phone` / `?phone remove` - Show or remove it',
+          inline: false,
+        },
+        {
+          name: '📬 Delivery History',
+          value: '`?delivery <job-id>`\nShows how a reminder was delivered (calls, redials, SMS, DM).',
+          inline: false,
+        },
+        {
+          name: '🕘 Reminder History',
+          value: '`?history [n]` - Your last reminders with their outcome, calls and timestamps (default 10)\n`?stats` - How many reminders you set, and how many are active, completed (delivered), failed or cancelled',
+          inline: false,
+        },
+        {
+          name: '📊 Check Bot Status',
+          value: '`?status`\nShows bot and queue statistics and your remaining reminder and call quota.',
           inline: false,
         },
         {
-          name: '📋 List Your Reminders',
-          value: '`?list`\nShows all your active reminders.',
+          name: '🛠️ Admin',
+          value: '`?admin dlq list [n]` - Reminders that failed for good\n`?admin dlq show <id>` - Error history of one\n`?admin dlq replay <id>` - Call it again now\n`?admin dlq purge <id|all>` - Drop them\nOnly for users in `ADMIN_USER_IDS`.',
           inline: false,
         },
         {
-          name: '📊 Check Bot Status',
-          value: '`?status`\nShows bot and queue statistics.',
+          name: '📅 Google Calendar Integration',
+          value: '`?calendar events [hours]` - Upcoming events with their reminder calls (default 24h)\n`?calendar sync` - Sync now and show what changed\n`?calendar status` - Last/next sync, scheduled reminders and recent errors\n`?calendar link` - Link your own Google Calendar (code sent by DM)\n`?calendar unlink` - Revoke access and cancel its reminders\n`?calendar writeback [on|off]` - Add your `?remind` reminders to your linked calendar (or use `--calendar` per reminder)',
           inline: false,
         },
         {
-          name: '📅 Google Calendar Integration',
-          value: '`?calendar events` - View upcoming calendar events\n`?calendar sync` - Manually sync calendar\n`?calendar status` - Check calendar integration status',
+          name: '⚡ Slash Commands',
+          value: '`/remind`, `/cancel`, `/list`, `/status` and `/calendar` work too, and only you see the replies.',
           inline: false,
         },
         {
           name: '💡 Examples',
-          value: '```\n?remind Attend meeting! -t 6h\n?remind Call mom -t 2h30m\n?remind Daily standup -t 9am\n?remind Project deadline -t 12/31/2024 5pm\n?calendar events\n?calendar sync```',
+          value: '```\n?remind Attend meeting! -t 6h\n?remind Call mom -t 2h30m\n?remind Take pills -t 8:00pm -e 3x5m --no-dm\n?remind Daily standup -r "every weekday 9am"\n?remind Project deadline -t 12/31/2024 5pm\n?calendar events\n?calendar sync```',
           inline: false,
         },
       ],
@@ -270,12 +1798,32 @@ export class DiscordBot {
       },
     };
 
-    await this.safeSendMessage(message.channel, { embeds: [helpEmbed] });
+    await this.safeReply(invocation, { embeds: [helpEmbed] });
   }
 
-  private async handleStatusCommand(message: Message): Promise<void> {
+  private async handleStatusCommand(invocation: CommandInvocation): Promise<void> {
     try {
-      const stats = await this.reminderQueue.getQueueStats();
+      const [stats, deadLettered, activeReminders, quota] = await Promise.all([
+        this.reminderQueue.getQueueStats(),
+        this.deadLetterStore.count(),
+        this.reminderQueue.getUserReminders(invocation.userId),
+        this.rateLimiter.getUserQuota(invocation.userId),
+      ]);
+      const userPhone = await this.phoneRegistry.getVerifiedPhone(invocation.userId);
+      const numberQuota = userPhone ? await this.rateLimiter.getNumberQuota(userPhone) : null;
+
+      const quotaLines = [
+        `Active reminders: ${activeReminders.length}/${this.config.maxRemindersPerUser}`,
+        `New reminders left: ${quota.creations.remaining}/${quota.creations.limit} per ${TimeParser.formatDelay(quota.creations.windowMs)}`,
+        `Calls left: ${quota.calls.remaining}/${quota.calls.limit} per ${TimeParser.formatDelay(quota.calls.windowMs)}`,
+      ];
+      if (numberQuota) {
+        quotaLines.push(`Calls left to your number: ${numberQuota.remaining}/${numberQuota.limit}`);
+      }
+
+      // Reminders come soonest first
+      const nextReminder = activeReminders[0];
+      const nextFireTime = nextReminder ? this.reminderQueue.getScheduledTime(nextReminder) : null;
 
       const statusEmbed = {
         color: 0x00ff00,
@@ -288,26 +1836,38 @@ export class DiscordBot {
           },
           {
             name: '📋 Queue Statistics',
-            value: `Waiting: ${stats.waiting}\nActive: ${stats.active}\nCompleted: ${stats.completed}\nFailed: ${stats.failed}\nDelayed: ${stats.delayed}`,
+            value: `Waiting: ${stats.waiting}\nActive: ${stats.active}\nCompleted: ${stats.completed}\nFailed: ${stats.failed}\nDelayed: ${stats.delayed}\nDead-lettered: ${deadLettered}`,
+            inline: false,
+          },
+          {
+            name: '⏰ Your Next Reminder',
+            value: nextReminder && nextFireTime
+              ? `${nextReminder.data.message.slice(0, 200)}\n${TimeParser.formatDiscordTimestamp(nextFireTime)} (${TimeParser.formatDiscordTimestamp(nextFireTime, 'R')})`
+              : 'None scheduled',
+            inline: false,
+          },
+          {
+            name: '🎟️ Your Quota',
+            value: quotaLines.join('\n'),
             inline: false,
           },
         ],
         timestamp: new Date(),
       };
 
-      await this.safeSendMessage(message.channel, { embeds: [statusEmbed] });
+      await this.safeReply(invocation, { embeds: [statusEmbed] });
 
     } catch (error) {
       logger.error('❌ Error getting status:', error);
-      await this.sendErrorMessage(message.channel, 'Failed to retrieve bot status. Please try again.');
+      await this.sendErrorMessage(invocation, 'Failed to retrieve bot status. Please try again.');
     }
   }
 
-  private async handleCalendarCommand(message: Message): Promise<void> {
-    const content = message.content.slice(this.commandPrefix.length + 'calendar'.length).trim();
+  private async handleCalendarCommand(invocation: CommandInvocation): Promise<void> {
+    const content = invocation.args;
     
     if (!content) {
-      await this.sendErrorMessage(message.channel, 'Please specify a calendar action. Use `?help` for examples.');
+      await this.sendErrorMessage(invocation, 'Please specify a calendar action. Use `?help` for examples.');
       return;
     }
 
@@ -315,111 +1875,468 @@ export class DiscordBot {
     
     switch (action) {
       case 'events':
-        await this.handleCalendarEventsCommand(message);
+        await this.handleCalendarEventsCommand(invocation);
         break;
       case 'sync':
-        await this.handleCalendarSyncCommand(message);
+        await this.handleCalendarSyncCommand(invocation);
         break;
       case 'status':
-        await this.handleCalendarStatusCommand(message);
+        await this.handleCalendarStatusCommand(invocation);
+        break;
+      case 'link':
+        await this.handleCalendarLinkCommand(invocation);
+        break;
+      case 'unlink':
+        await this.handleCalendarUnlinkCommand(invocation);
+        break;
+      case 'writeback':
+        await this.handleCalendarWriteBackCommand(invocation);
         break;
       default:
-        await this.sendErrorMessage(message.channel, `Unknown calendar action: ${action}. Use \`?help\` for available actions.`);
+        await this.sendErrorMessage(invocation, `Unknown calendar action: ${action}. Use \`?help\` for available actions.`);
     }
   }
 
-  private async handleCalendarEventsCommand(message: Message): Promise<void> {
+  private async handleCalendarEventsCommand(invocation: CommandInvocation): Promise<void> {
+    if (!this.calendarService) {
+      await this.sendErrorMessage(invocation, 'Google Calendar integration is disabled.');
+      return;
+    }
+
+    const hoursArg = invocation.args.split(/\s+/)[1];
+    const hours = hoursArg ? parseInt(hoursArg, 10) : 24;
+    if (isNaN(hours) || hours < 1 || hours > 168) {
+      await this.sendErrorMessage(invocation, 'Hours must be a number between 1 and 168, e.g. `?calendar events 48`.');
+      return;
+    }
+
     try {
-      // This would integrate with GoogleCalendarService to show upcoming events
+      const [events, reminders] = await Promise.all([
+        this.calendarService.getUpcomingEvents(hours, {}, invocation.userId),
+        this.calendarService.getEventReminders(),
+      ]);
+
+      const shown = events.slice(0, MAX_CALENDAR_EVENTS_SHOWN);
       const embed = {
         color: 0x4285f4, // Google Calendar blue
-        title: '📅 Google Calendar Events',
-        description: 'Calendar integration is being set up. This feature will show your upcoming events and automatically send phone reminders.',
+        title: `📅 Upcoming Events (next ${hours}h)`,
+        description: events.length === 0 ? 'No upcoming events.' : undefined,
+        fields: shown.map(event => {
+          const eventReminders = (reminders.get(`${event.calendarId}\n${event.id}`) || [])
+            .map(job => this.reminderQueue.getScheduledTime(job))
+            .sort((a, b) => a.getTime() - b.getTime());
+
+          const lines = [
+            `🕒 ${event.allDay ? `All day ${TimeParser.formatDiscordTimestamp(event.startTime, 'D')}` : TimeParser.formatDiscordTimestamp(event.startTime)}`,
+            `🗂️ ${event.calendarName}`,
+          ];
+          if (event.location) {
+            lines.push(`📍 ${event.location}`);
+          }
+          lines.push(eventReminders.length > 0
+            ? `🔔 ${eventReminders.map(time => TimeParser.formatDiscordTimestamp(time, 'R')).join(', ')}`
+            : '🔕 No reminder scheduled');
+
+          return {
+            name: event.summary.slice(0, 256),
+            value: lines.join('\n').slice(0, 1024),
+            inline: false,
+          };
+        }),
+        timestamp: new Date(),
+        footer: {
+          text: events.length > shown.length
+            ? `Showing ${shown.length} of ${events.length} events • Use ?calendar sync to sync now`
+            : 'Use ?calendar sync to sync now',
+        },
+      };
+
+      await this.safeReply(invocation, { embeds: [embed] });
+
+    } catch (error) {
+      logger.error('❌ Error handling calendar events command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to retrieve calendar events. Please try again.');
+    }
+  }
+
+  private async handleCalendarSyncCommand(invocation: CommandInvocation): Promise<void> {
+    if (!this.calendarService) {
+      await this.sendErrorMessage(invocation, 'Google Calendar integration is disabled.');
+      return;
+    }
+
+    try {
+      const result = await this.calendarService.syncCalendarEvents();
+
+      const fields = [
+        {
+          name: '📅 Events Checked',
+          value: `${result.eventsProcessed} ${result.fullSync ? '(full sync)' : '(changes only)'}`,
+          inline: true,
+        },
+        {
+          name: '🆕 Scheduled',
+          value: result.remindersScheduled.toString(),
+          inline: true,
+        },
+        {
+          name: '🔄 Moved',
+          value: result.remindersMoved.toString(),
+          inline: true,
+        },
+        {
+          name: '🗑️ Cancelled',
+          value: result.remindersCancelled.toString(),
+          inline: true,
+        },
+      ];
+      if (result.errors.length > 0) {
+        fields.push({
+          name: '⚠️ Failed Calendars',
+          value: result.errors.join('\n').slice(0, 1024),
+          inline: false,
+        });
+      }
+
+      const embed = {
+        color: result.errors.length > 0 ? 0xffa500 : 0x4285f4,
+        title: '🔄 Calendar Sync',
+        description: result.errors.length > 0 ? 'Sync finished with errors.' : 'Sync completed.',
+        fields,
+        timestamp: new Date(),
+      };
+
+      await this.safeReply(invocation, { embeds: [embed] });
+
+    } catch (error) {
+      logger.error('❌ Error handling calendar sync command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to sync calendar. Please try again.');
+    }
+  }
+
+  private async handleCalendarStatusCommand(invocation: CommandInvocation): Promise<void> {
+    if (!this.calendarService) {
+      await this.sendErrorMessage(invocation, 'Google Calendar integration is disabled.');
+      return;
+    }
+
+    try {
+      const status = await this.calendarService.getStatus();
+      const calendars = this.calendarService.getCalendars(invocation.userId);
+
+      const embed = {
+        color: status.isRunning ? 0x4285f4 : 0xff0000,
+        title: '📊 Calendar Status',
         fields: [
           {
-            name: '🔄 Status',
-            value: 'Calendar integration is being configured',
+            name: '🔗 Service',
+            value: status.isRunning ? '🟢 Running' : '🔴 Stopped',
+            inline: true,
+          },
+          {
+            name: '🕒 Last Sync',
+            value: status.lastSync ? TimeParser.formatDiscordTimestamp(status.lastSync, 'R') : 'Never',
+            inline: true,
+          },
+          {
+            name: '⏭️ Next Sync',
+            value: status.nextSync ? TimeParser.formatDiscordTimestamp(status.nextSync, 'R') : 'Not scheduled',
+            inline: true,
+          },
+          {
+            name: '📅 Events with Reminders',
+            value: status.eventsCount.toString(),
             inline: true,
           },
           {
-            name: '⏰ Reminder Timing',
-            value: '10 minutes before each event',
+            name: '🔔 Reminders Scheduled',
+            value: status.remindersScheduled.toString(),
             inline: true,
           },
+          {
+            name: '🗂️ Calendars',
+            value: calendars
+              .map(calendar => {
+                const notices = this.calendarService!.getAdvanceNoticeMinutes(calendar.calendarId);
+                return `${calendar.name} (${notices.map(minutes => `${minutes}m`).join(', ')} before)`;
+              })
+              .join('\n')
+              .slice(0, 1024),
+            inline: false,
+          },
+          {
+            name: '⚠️ Recent Errors',
+            value: status.errors.length > 0 ? status.errors.join('\n').slice(0, 1024) : 'None',
+            inline: false,
+          },
         ],
         timestamp: new Date(),
-        footer: {
-          text: 'Use ?calendar sync to manually sync events',
-        },
       };
 
-      await this.safeSendMessage(message.channel, { embeds: [embed] });
+      await this.safeReply(invocation, { embeds: [embed] });
 
     } catch (error) {
-      logger.error('❌ Error handling calendar events command:', error);
-      await this.sendErrorMessage(message.channel, 'Failed to retrieve calendar events. Please try again.');
+      logger.error('❌ Error handling calendar status command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to get calendar status. Please try again.');
     }
   }
 
-  private async handleCalendarSyncCommand(message: Message): Promise<void> {
+  /**
+   * Link the user's own Google Calendar. The device code is only ever shown to the user:
+   * ephemerally for slash commands, by DM for prefix commands sent in a server.
+   */
+  private async handleCalendarLinkCommand(invocation: CommandInvocation): Promise<void> {
+    if (!this.calendarService?.isLinkingEnabled()) {
+      await this.sendErrorMessage(invocation, 'Calendar linking is not enabled on this bot.');
+      return;
+    }
+
     try {
+      // Reminders of the linked calendar are reported in DMs, event details stay private
+      const dmChannelId = await this.getDmChannelId(invocation.userId);
+      const request = await this.calendarService.startCalendarLink(invocation.userId, dmChannelId || invocation.channelId);
+
       const embed = {
         color: 0x4285f4,
-        title: '🔄 Calendar Sync',
-        description: 'Calendar sync is being set up. This will automatically sync your Google Calendar every 5 minutes.',
+        title: '🔗 Link Your Google Calendar',
+        description: `Open ${request.verificationUrl} and enter this code:\n# \`${request.userCode}\``,
         fields: [
           {
-            name: '📱 Phone Reminders',
-            value: 'You will receive phone calls 10 minutes before each calendar event',
-            inline: false,
+            name: '⏳ Expires',
+            value: TimeParser.formatDiscordTimestamp(request.expiresAt, 'R'),
+            inline: true,
           },
         ],
+        footer: { text: 'Reminder calls for your events will go to your verified phone' },
         timestamp: new Date(),
       };
 
-      await this.safeSendMessage(message.channel, { embeds: [embed] });
+      if (invocation.isInteraction || invocation.isDM) {
+        await this.safeReply(invocation, { embeds: [embed] });
+      } else if (await this.sendDirectMessage(invocation.userId, { embeds: [embed] })) {
+        await this.safeReply(invocation, { content: `📬 <@${invocation.userId}>, I sent you a DM with your link code.` });
+      } else {
+        await this.sendErrorMessage(invocation, 'I could not DM you the link code. Enable DMs from server members or use `/calendar link`.');
+        return;
+      }
+
+      request.completion
+        .then(async (calendarId) => {
+          await this.sendDirectMessage(invocation.userId, {
+            embeds: [{
+              color: 0x00ff00,
+              title: '✅ Calendar Linked',
+              description: `Linked **${calendarId}**. Your events will now get reminder calls.`,
+              footer: { text: 'Use ?calendar unlink to stop' },
+              timestamp: new Date(),
+            }],
+          });
+        })
+        .catch(async (error) => {
+          await this.sendDirectMessage(invocation.userId, {
+            embeds: [{
+              color: 0xff0000,
+              title: '❌ Calendar Not Linked',
+              description: error instanceof Error ? error.message : 'Linking failed.',
+              timestamp: new Date(),
+            }],
+          });
+        });
 
     } catch (error) {
-      logger.error('❌ Error handling calendar sync command:', error);
-      await this.sendErrorMessage(message.channel, 'Failed to sync calendar. Please try again.');
+      logger.error('❌ Error handling calendar link command:', error);
+      await this.sendErrorMessage(invocation, error instanceof Error ? error.message : 'Failed to start calendar linking.');
     }
   }
 
-  private async handleCalendarStatusCommand(message: Message): Promise<void> {
+  private async handleCalendarWriteBackCommand(invocation: CommandInvocation): Promise<void> {
+    if (!this.calendarService?.isLinkingEnabled()) {
+      await this.sendErrorMessage(invocation, 'Calendar linking is not enabled on this bot.');
+      return;
+    }
+
+    const setting = invocation.args.split(/\s+/)[1]?.toLowerCase();
+    if (setting && setting !== 'on' && setting !== 'off') {
+      await this.sendErrorMessage(invocation, 'Usage: `?calendar writeback [on|off]`');
+      return;
+    }
+
     try {
+      if (setting) {
+        await this.calendarService.setReminderWriteBack(invocation.userId, setting === 'on');
+      }
+      const enabled = this.calendarService.getReminderWriteBack(invocation.userId);
+
       const embed = {
         color: 0x4285f4,
-        title: '📊 Calendar Status',
-        description: 'Google Calendar integration status',
+        title: setting ? '📅 Calendar Write-Back Updated' : '📅 Calendar Write-Back',
+        description: enabled
+          ? 'New `?remind` reminders are added to your linked calendar. Use `--no-calendar` to skip one.'
+          : 'New `?remind` reminders stay in Discord. Use `--calendar` to add one to your linked calendar.',
+        timestamp: new Date(),
+      };
+
+      await this.safeReply(invocation, { embeds: [embed] });
+
+    } catch (error) {
+      logger.error('❌ Error handling calendar writeback command:', error);
+      await this.sendErrorMessage(invocation, error instanceof Error ? error.message : 'Failed to update the setting.');
+    }
+  }
+
+  private async handleCalendarUnlinkCommand(invocation: CommandInvocation): Promise<void> {
+    if (!this.calendarService?.isLinkingEnabled()) {
+      await this.sendErrorMessage(invocation, 'Calendar linking is not enabled on this bot.');
+      return;
+    }
+
+    try {
+      const cancelled = await this.calendarService.unlinkCalendar(invocation.userId);
+      if (cancelled === null) {
+        await this.sendErrorMessage(invocation, 'You have not linked a calendar. Use `?calendar link` to link one.');
+        return;
+      }
+
+      const embed = {
+        color: 0x00ff00,
+        title: '🔓 Calendar Unlinked',
+        description: 'Access to your Google Calendar was revoked.',
         fields: [
           {
-            name: '🔗 Connection',
-            value: 'Being configured',
-            inline: true,
-          },
-          {
-            name: '🔄 Sync Interval',
-            value: 'Every 5 minutes',
-            inline: true,
-          },
-          {
-            name: '⏰ Reminder Advance',
-            value: '10 minutes before events',
+            name: '🗑️ Reminders Cancelled',
+            value: cancelled.toString(),
             inline: true,
           },
         ],
         timestamp: new Date(),
       };
 
-      await this.safeSendMessage(message.channel, { embeds: [embed] });
+      await this.safeReply(invocation, { embeds: [embed] });
 
     } catch (error) {
-      logger.error('❌ Error handling calendar status command:', error);
-      await this.sendErrorMessage(message.channel, 'Failed to get calendar status. Please try again.');
+      logger.error('❌ Error handling calendar unlink command:', error);
+      await this.sendErrorMessage(invocation, 'Failed to unlink your calendar. Please try again.');
+    }
+  }
+
+  /**
+   * Extract escalation flags (-e <redials>x<spacing>, --no-sms, --no-dm) from a remind command
+   */
+  private parseEscalationFlags(content: string): { content: string; escalation?: EscalationPolicy; error?: string } {
+    const redialMatch = content.match(/(?:^|\s)-e\s+(\S+)/);
+    const noSms = /(?:^|\s)--no-sms(?=\s|$)/.test(content);
+    const noDm = /(?:^|\s)--no-dm(?=\s|$)/.test(content);
+
+    if (!redialMatch && !noSms && !noDm) {
+      return { content };
+    }
+
+    const built = this.buildEscalationPolicy(
+      redialMatch?.[1],
+      noSms ? false : undefined,
+      noDm ? false : undefined
+    );
+    if (built.error || !built.escalation) {
+      return { content, error: built.error || 'Invalid escalation settings.' };
+    }
+
+    const stripped = content
+      .replace(/(?:^|\s)-e\s+\S+/, ' ')
+      .replace(/(?:^|\s)--no-sms(?=\s|$)/, ' ')
+      .replace(/(?:^|\s)--no-dm(?=\s|$)/, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return { content: stripped, escalation: built.escalation };
+  }
+
+  /**
+   * Build an escalation policy from the defaults and a `<redials>x<spacing>` spec such as `3x5m`
+   */
+  private buildEscalationPolicy(
+    redialSpec: string | undefined,
+    smsFallback: boolean | undefined,
+    discordFallback: boolean | undefined
+  ): { escalation?: EscalationPolicy; error?: string } {
+    const escalation = this.config.getDefaultEscalationPolicy();
+
+    if (redialSpec) {
+      const specMatch = redialSpec.match(/^(\d+)(?:x(\S+))?$/i);
+      if (!specMatch) {
+        return { error: 'Invalid escalation format. Use `-e <redials>x<spacing>`, e.g. `-e 3x5m` or `-e 0`.' };
+      }
+
+      escalation.maxRedials = parseInt(specMatch[1], 10);
+      if (escalation.maxRedials > 10) {
+        return { error: 'You can redial at most 10 times.' };
+      }
+
+      if (specMatch[2]) {
+        const spacing = TimeParser.parseTime(specMatch[2]);
+        if (!spacing.isValid || !/^\d+[smh]$/i.test(specMatch[2])) {
+          return { error: `Invalid redial spacing: ${specMatch[2]}. Use a relative time such as 5m.` };
+        }
+        escalation.redialSpacingMs = spacing.delayMs;
+      }
+    }
+
+    if (smsFallback !== undefined) {
+      escalation.smsFallback = smsFallback;
+    }
+    if (discordFallback !== undefined) {
+      escalation.discordFallback = discordFallback;
     }
+
+    return { escalation };
   }
 
-  private parseReminderCommand(content: string): ParsedReminderCommand {
+  private parseReminderCommand(rawContent: string, timezone?: string): ParsedReminderCommand {
+    // --calendar / --no-calendar override the user's write-back setting
+    const calendarFlagRegex = /(?:^|\s)--(no-)?calendar(?=\s|$)/;
+    const calendarFlag = rawContent.match(calendarFlagRegex);
+    if (calendarFlag) {
+      const parsed = this.parseReminderCommand(rawContent.replace(calendarFlagRegex, ' ').trim(), timezone);
+      if (parsed.isValid) {
+        parsed.calendarWriteBack = !calendarFlag[1];
+      }
+      return parsed;
+    }
+
+    const flags = this.parseEscalationFlags(rawContent);
+    if (flags.error) {
+      return {
+        message: rawContent,
+        delayMs: 0,
+        timestamp: new Date(),
+        isValid: false,
+        error: flags.error,
+      };
+    }
+    let content = flags.content;
+
+    // Look for the -r flag for recurring reminders (quoted phrase or a single token such as an RRULE)
+    const recurrenceRegex = /(?:^|\s)-r\s+(?:["“”]([^"“”]+)["“”]|'([^']+)'|(\S+))/;
+    const recurrenceMatch = content.match(recurrenceRegex);
+    if (recurrenceMatch) {
+      content = content.replace(recurrenceRegex, ' ').trim();
+      if (/(?:^|\s)-t\s+\S+/.test(content)) {
+        return {
+          message: content,
+          delayMs: 0,
+          timestamp: new Date(),
+          isValid: false,
+          error: 'Use either -t for a one-time reminder or -r for a recurring one, not both. Put the time in the schedule, e.g. -r "every weekday 9am".',
+        };
+      }
+
+      return this.parseRecurringReminderCommand(
+        content,
+        recurrenceMatch[1] ?? recurrenceMatch[2] ?? recurrenceMatch[3],
+        flags.escalation,
+        timezone
+      );
+    }
+
     // Look for the -t flag for time
     const timeMatch = content.match(/-t\s+(\S+)/);
     if (!timeMatch) {
@@ -432,9 +2349,20 @@ export class DiscordBot {
       };
     }
 
-    const timeString = timeMatch[1];
-    const message = content.replace(/-t\s+\S+/, '').trim();
+    return this.parseTimedReminderCommand(
+      content.replace(/-t\s+\S+/, '').trim(),
+      timeMatch[1],
+      flags.escalation,
+      timezone
+    );
+  }
 
+  private parseTimedReminderCommand(
+    message: string,
+    timeString: string,
+    escalation: EscalationPolicy | undefined,
+    timezone?: string
+  ): ParsedReminderCommand {
     if (!message) {
       return {
         message: '',
@@ -446,7 +2374,7 @@ export class DiscordBot {
     }
 
     // Parse the time string
-    const timeResult = TimeParser.parseTime(timeString);
+    const timeResult = TimeParser.parseTime(timeString, timezone);
     if (!timeResult.isValid) {
       return {
         message,
@@ -457,23 +2385,221 @@ export class DiscordBot {
       };
     }
 
-    return {
+    const parsed: ParsedReminderCommand = {
       message,
       delayMs: timeResult.delayMs,
       timestamp: timeResult.timestamp,
       isValid: true,
     };
+    if (escalation) {
+      parsed.escalation = escalation;
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Parse the options of the /remind slash command
+   */
+  private parseRemindInteraction(interaction: ChatInputCommandInteraction, timezone?: string): ParsedReminderCommand {
+    const message = interaction.options.getString('message', true).trim();
+    const timeString = interaction.options.getString('time')?.trim();
+    const recurrenceString = interaction.options.getString('repeat')?.trim();
+    const invalid = (error: string): ParsedReminderCommand => ({
+      message,
+      delayMs: 0,
+      timestamp: new Date(),
+      isValid: false,
+      error,
+    });
+
+    if (timeString && recurrenceString) {
+      return invalid('Use either `time` for a one-time reminder or `repeat` for a recurring one, not both.');
+    }
+    if (!timeString && !recurrenceString) {
+      return invalid('Please provide a `time` or a `repeat` schedule.');
+    }
+
+    const redials = interaction.options.getInteger('redials');
+    const spacing = interaction.options.getString('redial_spacing');
+    const smsFallback = interaction.options.getBoolean('sms');
+    const discordFallback = interaction.options.getBoolean('dm');
+
+    let escalation: EscalationPolicy | undefined;
+    if (redials !== null || spacing !== null || smsFallback !== null || discordFallback !== null) {
+      const redialSpec = spacing
+        ? `${redials ?? this.config.escalationMaxRedials}x${spacing}`
+        : redials?.toString();
+      const built = this.buildEscalationPolicy(redialSpec, smsFallback ?? undefined, discordFallback ?? undefined);
+      if (built.error || !built.escalation) {
+        return invalid(built.error || 'Invalid escalation settings.');
+      }
+      escalation = built.escalation;
+    }
+
+    const parsed = recurrenceString
+      ? this.parseRecurringReminderCommand(message, recurrenceString, escalation, timezone)
+      : this.parseTimedReminderCommand(message, timeString!, escalation, timezone);
+
+    const calendarWriteBack = interaction.options.getBoolean('calendar');
+    if (parsed.isValid && calendarWriteBack !== null) {
+      parsed.calendarWriteBack = calendarWriteBack;
+    }
+    return parsed;
+  }
+
+  private parseRecurringReminderCommand(
+    content: string,
+    recurrenceString: string,
+    escalation: EscalationPolicy | undefined,
+    timezone?: string
+  ): ParsedReminderCommand {
+    if (!content) {
+      return {
+        message: '',
+        delayMs: 0,
+        timestamp: new Date(),
+        isValid: false,
+        error: 'Missing reminder message.',
+      };
+    }
+
+    const recurrence = RecurrenceParser.parse(recurrenceString, timezone, this.config.minRecurrenceIntervalMinutes);
+    if (!recurrence.isValid || !recurrence.nextOccurrence) {
+      return {
+        message: content,
+        delayMs: 0,
+        timestamp: new Date(),
+        isValid: false,
+        error: recurrence.error || 'Invalid recurrence.',
+      };
+    }
+
+    const parsed: ParsedReminderCommand = {
+      message: content,
+      delayMs: recurrence.nextOccurrence.getTime() - Date.now(),
+      timestamp: recurrence.nextOccurrence,
+      isValid: true,
+      recurrence,
+    };
+    if (escalation) {
+      parsed.escalation = escalation;
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Report a keypress response from a reminder call to the channel the reminder was created in
+   */
+  async notifyReminderResponse(reminder: ReminderJobData, response: ReminderResponse): Promise<void> {
+    const embed = response.action === 'acknowledged'
+      ? {
+          color: 0x00ff00,
+          title: '✅ Reminder Confirmed',
+          description: `<@${reminder.userId}> confirmed **${reminder.message}** on the call.`,
+          timestamp: new Date(response.respondedAt),
+        }
+      : {
+          color: 0xff9900,
+          title: '💤 Reminder Snoozed',
+          description: `<@${reminder.userId}> snoozed **${reminder.message}**.`,
+          fields: [
+            {
+              name: '⏰ Next Call',
+              value: response.snoozedUntil ? TimeParser.formatDiscordTimestamp(new Date(response.snoozedUntil)) : 'Unknown',
+              inline: true,
+            },
+            {
+              name: '🆔 Job ID',
+              value: response.snoozeJobId || 'Unknown',
+              inline: true,
+            },
+          ],
+          timestamp: new Date(response.respondedAt),
+        };
+
+    try {
+      const channel = await this.client.channels.fetch(reminder.channelId);
+      await this.safeSendMessage(channel, { embeds: [embed] });
+    } catch (error) {
+      logger.warn(`⚠️ Could not report reminder response to channel ${reminder.channelId}:`, error);
+    }
+  }
+
+  /**
+   * DM the reminder owner when calls (and SMS) could not reach them
+   */
+  async sendUndeliveredReminderDm(reminder: ReminderJobData, record: DeliveryRecord): Promise<boolean> {
+    const attempts = record.steps.filter(step => step.type === 'call' || step.type === 'redial');
+
+    const embed = {
+      color: 0xff9900,
+      title: '📵 We Could Not Reach You',
+      description: `**Reminder:** ${reminder.message}`,
+      fields: [
+        {
+          name: '📞 Call Attempts',
+          value: attempts.length > 0
+            ? attempts.map(step => `${TimeParser.formatDiscordTimestamp(new Date(step.timestamp), 't')} - ${step.outcome}`).join('\n')
+            : 'None',
+          inline: false,
+        },
+      ],
+      timestamp: new Date().toISOString(),
+      footer: {
+        text: `Use ?delivery ${record.reminderId} for the full delivery history`,
+      },
+    };
+
+    try {
+      const user = await this.client.users.fetch(reminder.userId);
+      await user.send({ embeds: [embed] });
+      return true;
+    } catch (error) {
+      logger.warn(`⚠️ Could not DM user ${reminder.userId} about undelivered reminder:`, error);
+      return false;
+    }
   }
 
-  private async sendErrorMessage(channel: any, message: string): Promise<void> {
+  private async getDmChannelId(userId: string): Promise<string | null> {
+    try {
+      const user = await this.client.users.fetch(userId);
+      return (await user.createDM()).id;
+    } catch (error) {
+      logger.warn(`⚠️ Could not open a DM channel with user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  private async sendDirectMessage(userId: string, content: CommandReply): Promise<boolean> {
+    try {
+      const user = await this.client.users.fetch(userId);
+      await user.send(content as MessageCreateOptions);
+      return true;
+    } catch (error) {
+      logger.warn(`⚠️ Could not DM user ${userId}:`, error);
+      return false;
+    }
+  }
+
+  private async sendErrorMessage(invocation: CommandInvocation, message: string): Promise<void> {
     const errorEmbed = {
       color: 0xff0000,
       title: '❌ Error',
       description: message,
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
     };
 
-    await this.safeSendMessage(channel, { embeds: [errorEmbed] });
+    await this.safeReply(invocation, { embeds: [errorEmbed] });
+  }
+
+  private async safeReply(invocation: CommandInvocation, content: CommandReply): Promise<void> {
+    try {
+      await invocation.reply(content);
+    } catch (error) {
+      logger.error('❌ Failed to send reply:', error);
+    }
   }
 
   private async safeSendMessage(channel: any, content: any): Promise<void> {
@@ -0,0 +1,305 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  Message,
+  MessageActionRowComponentBuilder,
+  StringSelectMenuBuilder,
+} from 'discord.js';
+import { Job } from 'bullmq';
+import moment from 'moment-timezone';
+import { CommandReply } from './CommandInvocation';
+import { getReminderFireTime } from '../queue/ReminderQueue';
+import { TimeParser } from '../utils/timeParser';
+import { ReminderJobData, ReminderJobResult } from '../types/ReminderTypes';
+
+export const LIST_CUSTOM_ID_PREFIX = 'list';
+export const REMINDERS_PER_PAGE = 3;       // One row of buttons per reminder, plus select menu and navigation rows
+const MAX_SELECT_OPTIONS = 25;
+const MAX_CUSTOM_ID_LENGTH = 100;
+const SEARCH_FILTER_PREFIX = 'search=';
+
+export type ListAction = 'page' | 'cancel' | 'snooze' | 'edit' | 'bulk-cancel' | 'edit-modal';
+
+export type ReminderListFilterType = 'all' | 'today' | 'calendar' | 'search';
+
+export interface ReminderListFilter {
+  type: ReminderListFilterType;
+  text?: string;             // Text to search the messages for
+}
+
+export interface ListCustomId {
+  action: ListAction;
+  ownerId: string;           // User whose reminders the list shows
+  page: number;
+  jobId?: string;
+  filter?: ReminderListFilter; // Only on page buttons, the others have no room for it
+}
+
+/**
+ * Encode list component state as `list:<action>:<ownerId>:<page>[:<jobId>|:<filter>]` (max 100 characters)
+ */
+export function buildListCustomId(
+  action: ListAction,
+  ownerId: string,
+  page: number,
+  jobId?: string,
+  filter?: ReminderListFilter
+): string {
+  const encodedFilter = filter ? encodeListFilter(filter) : '';
+  const detail = jobId || encodedFilter;
+  return [LIST_CUSTOM_ID_PREFIX, action, ownerId, page.toString(), ...(detail ? [detail] : [])].join(':');
+}
+
+export function parseListCustomId(customId: string): ListCustomId | null {
+  const [prefix, action, ownerId, page, ...rest] = customId.split(':');
+  if (prefix !== LIST_CUSTOM_ID_PREFIX || !action || !ownerId || !page) {
+    return null;
+  }
+
+  const parsed: ListCustomId = {
+    action: action as ListAction,
+    ownerId,
+    page: parseInt(page, 10) || 0,
+  };
+  // Job IDs of recurring occurrences contain colons themselves
+  if (rest.length > 0 && parsed.action === 'page') {
+    parsed.filter = decodeListFilter(rest.join(':'));
+  } else if (rest.length > 0) {
+    parsed.jobId = rest.join(':');
+  }
+  return parsed;
+}
+
+/**
+ * Parse the arguments of `?list [today|calendar|search <text>]`
+ */
+export function parseListFilter(args: string): { filter?: ReminderListFilter; error?: string } {
+  const [type = '', ...rest] = args.trim().split(/\s+/);
+  const text = rest.join(' ');
+
+  switch (type.toLowerCase()) {
+    case '':
+    case 'all':
+      return { filter: { type: 'all' } };
+    case 'today':
+      return { filter: { type: 'today' } };
+    case 'calendar':
+      return { filter: { type: 'calendar' } };
+    case 'search': {
+      if (!text) {
+        return { error: 'Please provide the text to search for. Usage: `?list search <text>`' };
+      }
+      // The search has to fit in the custom ID of the page buttons, with the longest user ID and page number
+      const longest = buildListCustomId('page', '0'.repeat(20), 99, undefined, { type: 'search', text });
+      if (longest.length > MAX_CUSTOM_ID_LENGTH) {
+        return { error: 'That search text is too long, please use a shorter one.' };
+      }
+      return { filter: { type: 'search', text } };
+    }
+    default:
+      return { error: `Unknown list filter: ${type}. Use \`?list\`, \`?list today\`, \`?list calendar\` or \`?list search <text>\`.` };
+  }
+}
+
+/**
+ * Find the filter of a posted list, kept on its page buttons
+ */
+export function getMessageListFilter(message: Message | null): ReminderListFilter {
+  for (const row of message?.components || []) {
+    if (row.type !== ComponentType.ActionRow) {
+      continue;
+    }
+    for (const component of row.components) {
+      const listId = component.customId ? parseListCustomId(component.customId) : null;
+      if (listId?.action === 'page') {
+        return listId.filter || { type: 'all' };
+      }
+    }
+  }
+  return { type: 'all' };
+}
+
+/**
+ * Keep the reminders a filter matches, `today` is read in the given IANA zone
+ */
+export function filterReminders(
+  reminders: Job<ReminderJobData, ReminderJobResult>[],
+  filter: ReminderListFilter,
+  timezone: string
+): Job<ReminderJobData, ReminderJobResult>[] {
+  switch (filter.type) {
+    case 'today': {
+      const endOfDay = moment().tz(timezone).endOf('day').valueOf();
+      return reminders.filter(reminder => getReminderFireTime(reminder).getTime() <= endOfDay);
+    }
+    case 'calendar':
+      return reminders.filter(reminder => reminder.data.calendarEvent);
+    case 'search': {
+      const text = (filter.text || '').toLowerCase();
+      return reminders.filter(reminder => reminder.data.message.toLowerCase().includes(text));
+    }
+    default:
+      return reminders;
+  }
+}
+
+function encodeListFilter(filter: ReminderListFilter): string {
+  switch (filter.type) {
+    case 'all':
+      return '';
+    case 'search':
+      return `${SEARCH_FILTER_PREFIX}${encodeURIComponent(filter.text || '')}`;
+    default:
+      return filter.type;
+  }
+}
+
+function decodeListFilter(encoded: string): ReminderListFilter {
+  if (encoded.startsWith(SEARCH_FILTER_PREFIX)) {
+    try {
+      return { type: 'search', text: decodeURIComponent(encoded.slice(SEARCH_FILTER_PREFIX.length)) };
+    } catch {
+      return { type: 'all' };
+    }
+  }
+  return encoded === 'today' || encoded === 'calendar' ? { type: encoded } : { type: 'all' };
+}
+
+function describeListFilter(filter: ReminderListFilter): string | undefined {
+  switch (filter.type) {
+    case 'today':
+      return 'Due today';
+    case 'calendar':
+      return 'From calendar events';
+    case 'search':
+      return `Matching "${filter.text}"`;
+    default:
+      return undefined;
+  }
+}
+
+export interface ReminderListOptions {
+  ownerId: string;
+  page: number;
+  maxRedials: number;        // Default redial count, shown for redial jobs without a policy
+  filter: ReminderListFilter; // Filter the reminders were picked with, kept on the page buttons
+}
+
+/**
+ * Build one page of the reminder list with per-reminder buttons, a bulk cancel menu
+ * and Prev/Next navigation
+ */
+export function buildReminderListPage(
+  reminders: Job<ReminderJobData, ReminderJobResult>[],
+  options: ReminderListOptions
+): CommandReply {
+  const filterDescription = describeListFilter(options.filter);
+
+  if (reminders.length === 0) {
+    return {
+      embeds: [{
+        color: 0x0099ff,
+        title: '📋 Your Reminders',
+        description: filterDescription ? `No active reminders ${filterDescription.toLowerCase()}.` : 'You have no active reminders.',
+        timestamp: new Date(),
+      }],
+      components: [],
+    };
+  }
+
+  const pageCount = Math.ceil(reminders.length / REMINDERS_PER_PAGE);
+  const page = Math.min(Math.max(options.page, 0), pageCount - 1);
+  const start = page * REMINDERS_PER_PAGE;
+  const pageReminders = reminders.slice(start, start + REMINDERS_PER_PAGE);
+
+  const embed = {
+    color: 0x0099ff,
+    title: '📋 Your Active Reminders',
+    description: filterDescription,
+    fields: pageReminders.map((reminder, index) => ({
+      name: `${start + index + 1}. ${reminder.data.message}`.slice(0, 256),
+      value: describeReminder(reminder, options.maxRedials),
+      inline: false,
+    })),
+    timestamp: new Date(),
+    footer: {
+      text: `Page ${page + 1}/${pageCount} • Total: ${reminders.length} reminder(s)`,
+    },
+  };
+
+  const components: ActionRowBuilder<MessageActionRowComponentBuilder>[] = pageReminders
+    .filter(reminder => reminder.id)
+    .map((reminder, index) => {
+      const jobId = reminder.id!;
+      const label = `#${start + index + 1}`;
+
+      return new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(buildListCustomId('cancel', options.ownerId, page, jobId))
+          .setLabel(`Cancel ${label}`)
+          .setStyle(ButtonStyle.Danger),
+        new ButtonBuilder()
+          .setCustomId(buildListCustomId('snooze', options.ownerId, page, jobId))
+          .setLabel(`Snooze ${label}`)
+          .setStyle(ButtonStyle.Secondary),
+        new ButtonBuilder()
+          .setCustomId(buildListCustomId('edit', options.ownerId, page, jobId))
+          .setLabel(`Edit ${label}`)
+          .setStyle(ButtonStyle.Primary)
+      );
+    });
+
+  const selectable = reminders.filter(reminder => reminder.id).slice(0, MAX_SELECT_OPTIONS);
+  components.push(
+    new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+      new StringSelectMenuBuilder()
+        .setCustomId(buildListCustomId('bulk-cancel', options.ownerId, page))
+        .setPlaceholder('Select reminders to cancel')
+        .setMinValues(1)
+        .setMaxValues(selectable.length)
+        .addOptions(selectable.map((reminder, index) => ({
+          label: `${index + 1}. ${reminder.data.message}`.slice(0, 100),
+          description: reminder.id!.slice(0, 100),
+          value: reminder.id!,
+        })))
+    )
+  );
+
+  components.push(
+    new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(buildListCustomId('page', options.ownerId, page - 1, undefined, options.filter))
+        .setLabel('◀ Prev')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page === 0),
+      new ButtonBuilder()
+        .setCustomId(buildListCustomId('page', options.ownerId, page + 1, undefined, options.filter))
+        .setLabel('Next ▶')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page >= pageCount - 1)
+    )
+  );
+
+  return { embeds: [embed], components };
+}
+
+function describeReminder(reminder: Job<ReminderJobData, ReminderJobResult>, defaultMaxRedials: number): string {
+  const fireTime = TimeParser.formatDiscordTimestamp(getReminderFireTime(reminder));
+  if (reminder.data.recurrence) {
+    return `ID: ${reminder.id}\nNext: ${fireTime}\n🔁 ${reminder.data.recurrence.description}`;
+  }
+
+  let value = `ID: ${reminder.id}\nScheduled: ${fireTime}`;
+  if (reminder.name === 'reminder-retry') {
+    value += `\n🔄 Replay of ${reminder.data.originalReminderId}`;
+  } else if (reminder.data.deliveryAttempt) {
+    const maxRedials = reminder.data.escalation?.maxRedials ?? defaultMaxRedials;
+    value += `\nRedial ${reminder.data.deliveryAttempt}/${maxRedials} of ${reminder.data.originalReminderId}`;
+  }
+  if (reminder.data.calendarEvent) {
+    value += `\n📅 Event at ${TimeParser.formatDiscordTimestamp(new Date(reminder.data.calendarEvent.startTime))}`;
+  }
+  return value;
+}
@@ -0,0 +1,90 @@
+import { RESTPostAPIChatInputApplicationCommandsJSONBody, SlashCommandBuilder } from 'discord.js';
+
+/**
+ * Application command definitions registered with Discord.
+ * Their names match the prefix commands they replace.
+ */
+export function buildSlashCommands(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+  const remind = new SlashCommandBuilder()
+    .setName('remind')
+    .setDescription('Schedule a reminder call')
+    .addStringOption(option =>
+      option.setName('message').setDescription('What to remind you about').setRequired(true).setMaxLength(500)
+    )
+    .addStringOption(option =>
+      option.setName('time').setDescription('When to call, e.g. 30m, 2h30m, 9:00am, 12/25/2024 9:00am')
+    )
+    .addStringOption(option =>
+      option.setName('repeat').setDescription('Recurring schedule, e.g. "every weekday 9am", an RRULE or a cron expression')
+    )
+    .addIntegerOption(option =>
+      option.setName('redials').setDescription('How often to redial if the call is not answered').setMinValue(0).setMaxValue(10)
+    )
+    .addStringOption(option =>
+      option.setName('redial_spacing').setDescription('Time between redials, e.g. 5m')
+    )
+    .addBooleanOption(option =>
+      option.setName('sms').setDescription('Send an SMS when all calls fail (default: on)')
+    )
+    .addBooleanOption(option =>
+      option.setName('dm').setDescription('Send a Discord DM when all calls fail (default: on)')
+    )
+    .addBooleanOption(option =>
+      option.setName('calendar').setDescription('Also add it to your linked Google Calendar (default: your ?calendar writeback setting)')
+    );
+
+  const cancel = new SlashCommandBuilder()
+    .setName('cancel')
+    .setDescription('Cancel a reminder or a recurring series')
+    .addStringOption(option =>
+      option.setName('id').setDescription('Reminder job ID').setRequired(true).setAutocomplete(true)
+    )
+    .addBooleanOption(option =>
+      option.setName('once').setDescription('Only skip the next call of a recurring reminder')
+    );
+
+  const list = new SlashCommandBuilder()
+    .setName('list')
+    .setDescription('List your active reminders')
+    .addStringOption(option =>
+      option
+        .setName('filter')
+        .setDescription('Only show some of them')
+        .addChoices({ name: 'Due today', value: 'today' }, { name: 'From calendar events', value: 'calendar' })
+    )
+    .addStringOption(option =>
+      option.setName('search').setDescription('Only show reminders whose message contains this text').setMaxLength(50)
+    );
+
+  const status = new SlashCommandBuilder()
+    .setName('status')
+    .setDescription('Show bot and queue statistics');
+
+  const calendar = new SlashCommandBuilder()
+    .setName('calendar')
+    .setDescription('Google Calendar integration')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('events')
+        .setDescription('View upcoming calendar events')
+        .addIntegerOption(option =>
+          option.setName('hours').setDescription('How many hours ahead to look (default 24)').setMinValue(1).setMaxValue(168)
+        )
+    )
+    .addSubcommand(subcommand => subcommand.setName('sync').setDescription('Manually sync the calendar'))
+    .addSubcommand(subcommand => subcommand.setName('status').setDescription('Check calendar integration status'))
+    .addSubcommand(subcommand => subcommand.setName('link').setDescription('Link your own Google Calendar'))
+    .addSubcommand(subcommand =>
+      subcommand.setName('unlink').setDescription('Unlink your Google Calendar and cancel its reminders')
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('writeback')
+        .setDescription('Add your reminders to your linked Google Calendar')
+        .addBooleanOption(option =>
+          option.setName('enabled').setDescription('Turn it on or off (shows the setting when left out)')
+        )
+    );
+
+  return [remind, cancel, list, status, calendar].map(command => command.toJSON());
+}
@@ -0,0 +1,133 @@
+import { Job } from 'bullmq';
+import { ReminderQueue } from '../queue/ReminderQueue';
+import { GoogleCalendarService } from './GoogleCalendarService';
+import { AgendaBuilder } from '../utils/agendaBuilder';
+import { RecurrenceParser } from '../utils/recurrenceParser';
+import { logger } from '../utils/logger';
+import { AgendaReminder, DailyAgenda } from '../types/CalendarTypes';
+import { EscalationPolicy, RecurrenceParseResult, ReminderJobData, ReminderJobResult } from '../types/ReminderTypes';
+
+const AGENDA_MESSAGE = 'Daily agenda';
+
+// Occurrences of one recurring reminder listed in an agenda, so "every 15 minutes" does not fill the call
+const MAX_SERIES_OCCURRENCES = 5;
+
+// A missed briefing is not worth redialing, the agenda is DMed instead
+const AGENDA_ESCALATION: EscalationPolicy = {
+  maxRedials: 0,
+  redialSpacingMs: 0,
+  smsFallback: false,
+  discordFallback: true,
+};
+
+/**
+ * Daily agenda briefings: a recurring call that reads out the day's meetings, the free time
+ * between them and the user's own reminder calls
+ */
+export class AgendaService {
+  private reminderQueue: ReminderQueue;
+  private calendarService: GoogleCalendarService | null;
+
+  constructor(reminderQueue: ReminderQueue, calendarService: GoogleCalendarService | null) {
+    this.reminderQueue = reminderQueue;
+    this.calendarService = calendarService;
+  }
+
+  /**
+   * Get a user's agenda from a time until the end of that day
+   */
+  async getAgenda(userId: string, timezone: string, start: Date = new Date()): Promise<DailyAgenda> {
+    const end = AgendaBuilder.endOfDay(start, timezone);
+
+    const [events, reminders] = await Promise.all([
+      this.calendarService
+        ? this.calendarService.getUpcomingEvents(0, { startDate: start, endDate: end, includeDeclined: false }, userId)
+        : Promise.resolve([]),
+      this.getReminderCalls(userId, end),
+    ]);
+
+    return AgendaBuilder.build(events, reminders, start, timezone);
+  }
+
+  /**
+   * Build the text read out on an agenda call
+   */
+  async buildBriefing(userId: string, timezone: string): Promise<string> {
+    return AgendaBuilder.toSpeech(await this.getAgenda(userId, timezone));
+  }
+
+  /**
+   * Get the pending agenda call of a user
+   */
+  async getAgendaJob(userId: string): Promise<Job<ReminderJobData, ReminderJobResult> | null> {
+    const reminders = await this.reminderQueue.getUserReminders(userId);
+    return reminders.find(job => job.data.agenda) || null;
+  }
+
+  /**
+   * Schedule a user's agenda call, replacing the one they had
+   */
+  async enableAgenda(
+    userId: string,
+    channelId: string,
+    messageId: string,
+    schedule: RecurrenceParseResult,
+    timezone: string
+  ): Promise<Job<ReminderJobData, ReminderJobResult>> {
+    try {
+      await this.disableAgenda(userId);
+
+      const job = await this.reminderQueue.addRecurringReminder(AGENDA_MESSAGE, schedule, userId, channelId, messageId, {
+        escalation: AGENDA_ESCALATION,
+        agenda: { timezone },
+      });
+      logger.info(`🗓️ Enabled daily agenda for user ${userId} (${schedule.description})`);
+      return job;
+    } catch (error) {
+      logger.error(`❌ Failed to enable agenda for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a user's agenda calls. Returns false when they had none.
+   */
+  async disableAgenda(userId: string): Promise<boolean> {
+    const job = await this.getAgendaJob(userId);
+    if (!job?.id) {
+      return false;
+    }
+
+    const cancelled = await this.reminderQueue.cancelReminder(job.id);
+    if (cancelled) {
+      logger.info(`🗓️ Disabled daily agenda for user ${userId}`);
+    }
+    return cancelled;
+  }
+
+  /**
+   * List the user's own reminder calls due before a time, expanding recurring reminders
+   */
+  private async getReminderCalls(userId: string, end: Date): Promise<AgendaReminder[]> {
+    const reminders: AgendaReminder[] = [];
+
+    for (const job of await this.reminderQueue.getUserReminders(userId)) {
+      // Calendar reminders belong to events that are already on the agenda
+      if (job.data.agenda || job.data.calendarEvent) {
+        continue;
+      }
+
+      let fireAt: Date | null = this.reminderQueue.getScheduledTime(job);
+      const recurrence = job.data.recurrence;
+      const until = recurrence?.endDate && new Date(recurrence.endDate) < end ? new Date(recurrence.endDate) : end;
+      for (let i = 0; fireAt && fireAt <= until && i < MAX_SERIES_OCCURRENCES; i++) {
+        reminders.push({ message: job.data.message, fireAt });
+        fireAt = recurrence
+          ? RecurrenceParser.getNextOccurrence(recurrence.pattern, fireAt, recurrence.timezone)
+          : null;
+      }
+    }
+
+    return reminders;
+  }
+}
@@ -0,0 +1,84 @@
+import { logger } from '../utils/logger';
+import { IcsCalendar, IcsParser } from '../utils/icsParser';
+import { CalDavClient } from './CalDavClient';
+import { CalendarSource, occurrenceToCalendarEvent } from './CalendarSource';
+import { CalendarEvent } from '../types/CalendarTypes';
+
+const FETCH_AHEAD_MS = 7 * 24 * 60 * 60 * 1000;   // Fetched beyond the asked range so the next polls can reuse it
+
+// A calendar object we hold, parsed
+interface CachedObject {
+  etag: string;
+  calendar: IcsCalendar;
+}
+
+/**
+ * Calendar source for one CalDAV calendar. Polls compare the calendar's ctag first and, when it
+ * changed, the events' etags, so only new or changed events are downloaded.
+ */
+export class CalDavCalendarSource implements CalendarSource {
+  readonly calendarId: string;
+  readonly name: string;
+  private client: CalDavClient;
+  private calendarUrl: string;
+  private defaultTimezone: string;
+  private objects = new Map<string, CachedObject>();
+  private ctag: string | null = null;
+  private fetchedRange: { start: number; end: number } | null = null;
+
+  constructor(calendarId: string, name: string, client: CalDavClient, calendarUrl: string, defaultTimezone: string) {
+    this.calendarId = calendarId;
+    this.name = name;
+    this.client = client;
+    this.calendarUrl = calendarUrl;
+    this.defaultTimezone = defaultTimezone;
+  }
+
+  async listEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+    try {
+      await this.refresh(start, end);
+    } catch (error) {
+      logger.error(`❌ Failed to fetch CalDAV calendar ${this.calendarId}:`, error);
+      throw error;
+    }
+
+    const calendar: IcsCalendar = { name: null, events: [...this.objects.values()].flatMap(object => object.calendar.events) };
+    return IcsParser.expand(calendar, start, end).map(occurrence => occurrenceToCalendarEvent(occurrence, this));
+  }
+
+  /**
+   * Bring the cached events up to date for a range
+   */
+  private async refresh(start: Date, end: Date): Promise<void> {
+    const ctag = await this.client.getCtag(this.calendarUrl);
+    const covered = this.fetchedRange !== null
+      && this.fetchedRange.start <= start.getTime()
+      && this.fetchedRange.end >= end.getTime();
+    if (covered && ctag !== null && ctag === this.ctag) {
+      return;
+    }
+
+    const range = { start: start.getTime(), end: end.getTime() + FETCH_AHEAD_MS };
+    const etags = await this.client.listEtags(this.calendarUrl, new Date(range.start), new Date(range.end));
+
+    for (const href of this.objects.keys()) {
+      if (!etags.has(href)) {
+        this.objects.delete(href);
+      }
+    }
+
+    const changed = [...etags].filter(([href, etag]) => this.objects.get(href)?.etag !== etag).map(([href]) => href);
+    for (const object of await this.client.fetchObjects(this.calendarUrl, changed)) {
+      this.objects.set(object.href, {
+        etag: object.etag || etags.get(object.href) || '',
+        calendar: IcsParser.parse(object.data, this.defaultTimezone),
+      });
+    }
+
+    if (changed.length > 0) {
+      logger.info(`📥 Fetched ${changed.length} changed events of CalDAV calendar ${this.calendarId}`);
+    }
+    this.ctag = ctag;
+    this.fetchedRange = range;
+  }
+}
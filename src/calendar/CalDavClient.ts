@@ -0,0 +1,174 @@
+import { DavResponse, DavXml, XmlElement } from '../utils/davXml';
+
+const MULTIGET_BATCH_SIZE = 100;
+
+// A calendar collection found during discovery
+export interface CalDavCalendar {
+  url: string;               // Absolute URL of the collection
+  slug: string;              // Last path segment, unlike the display name it survives renames
+  displayName: string;
+  ctag: string | null;       // CalendarServer ctag, changes whenever anything in the calendar changes
+}
+
+// A calendar object resource (one .ics file on the server)
+export interface CalDavObject {
+  href: string;              // Path of the resource, normalized
+  etag: string;
+  data: string;              // iCalendar text
+}
+
+/**
+ * Small CalDAV (RFC 4791) client: calendar discovery through the principal's calendar home,
+ * ctag/etag listings for change detection, and calendar-multiget to fetch changed events
+ */
+export class CalDavClient {
+  private baseUrl: string;
+  private authorization: string | null;
+
+  constructor(baseUrl: string, username?: string, password?: string) {
+    this.baseUrl = baseUrl;
+    this.authorization = username
+      ? `Basic ${Buffer.from(`${username}:${password || ''}`).toString('base64')}`
+      : null;
+  }
+
+  /**
+   * Find the calendars holding events: base URL → current-user-principal → calendar-home-set → collections.
+   * Servers that do not report a principal or home set (or a base URL pointing at the home) are used as is.
+   */
+  async discoverCalendars(): Promise<CalDavCalendar[]> {
+    const [base] = await this.propfind(this.baseUrl, 0, '<d:current-user-principal/>');
+    const principalUrl = this.resolveHref(base?.props['current-user-principal'], this.baseUrl) || this.baseUrl;
+
+    const [principal] = await this.propfind(principalUrl, 0, '<c:calendar-home-set/>');
+    const homeUrl = this.resolveHref(principal?.props['calendar-home-set'], principalUrl) || principalUrl;
+
+    const collections = await this.propfind(
+      homeUrl,
+      1,
+      '<d:resourcetype/><d:displayname/><cs:getctag/><c:supported-calendar-component-set/>'
+    );
+
+    return collections
+      .filter(collection => DavXml.child(collection.props.resourcetype, 'calendar'))
+      .filter(collection => {
+        // Calendars that do not say which components they hold may hold events
+        const components = DavXml.children(collection.props['supported-calendar-component-set'], 'comp');
+        return components.length === 0 || components.some(component => component.attributes.name === 'VEVENT');
+      })
+      .map(collection => {
+        const url = new URL(collection.href, homeUrl).toString();
+        const slug = this.lastSegment(url);
+        return {
+          url,
+          slug,
+          displayName: collection.props.displayname?.text.trim() || slug,
+          ctag: collection.props.getctag?.text.trim() || null,
+        };
+      });
+  }
+
+  /**
+   * Get the ctag of a calendar (null when the server does not support ctags)
+   */
+  async getCtag(calendarUrl: string): Promise<string | null> {
+    const [calendar] = await this.propfind(calendarUrl, 0, '<cs:getctag/>');
+    return calendar?.props.getctag?.text.trim() || null;
+  }
+
+  /**
+   * List the etags of the events with an occurrence in a time range (calendar-query REPORT), by href
+   */
+  async listEtags(calendarUrl: string, start: Date, end: Date): Promise<Map<string, string>> {
+    const body = `<c:calendar-query ${this.namespaces()}>
+  <d:prop><d:getetag/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${this.formatUtc(start)}" end="${this.formatUtc(end)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+    const etags = new Map<string, string>();
+    for (const response of await this.request('REPORT', calendarUrl, 1, body)) {
+      const etag = response.props.getetag?.text.trim();
+      if (etag) {
+        etags.set(this.normalizeHref(response.href, calendarUrl), etag);
+      }
+    }
+    return etags;
+  }
+
+  /**
+   * Fetch calendar objects by href (calendar-multiget REPORT). Objects deleted meanwhile are left out.
+   */
+  async fetchObjects(calendarUrl: string, hrefs: string[]): Promise<CalDavObject[]> {
+    const objects: CalDavObject[] = [];
+
+    for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH_SIZE) {
+      const body = `<c:calendar-multiget ${this.namespaces()}>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  ${hrefs.slice(i, i + MULTIGET_BATCH_SIZE).map(href => `<d:href>${DavXml.escape(encodeURI(href))}</d:href>`).join('\n  ')}
+</c:calendar-multiget>`;
+
+      for (const response of await this.request('REPORT', calendarUrl, 1, body)) {
+        const data = response.props['calendar-data']?.text;
+        if (data) {
+          objects.push({
+            href: this.normalizeHref(response.href, calendarUrl),
+            etag: response.props.getetag?.text.trim() || '',
+            data,
+          });
+        }
+      }
+    }
+
+    return objects;
+  }
+
+  private async propfind(url: string, depth: 0 | 1, props: string): Promise<DavResponse[]> {
+    return this.request('PROPFIND', url, depth, `<d:propfind ${this.namespaces()}><d:prop>${props}</d:prop></d:propfind>`);
+  }
+
+  private async request(method: 'PROPFIND' | 'REPORT', url: string, depth: 0 | 1, body: string): Promise<DavResponse[]> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/xml; charset=utf-8',
+      Depth: depth.toString(),
+    };
+    if (this.authorization) {
+      headers.Authorization = this.authorization;
+    }
+
+    const response = await fetch(url, { method, headers, body: `<?xml version="1.0" encoding="utf-8"?>\n${body}` });
+    if (response.status !== 207) {
+      throw new Error(`CalDAV ${method} ${url} answered ${response.status} ${response.statusText}`);
+    }
+    return DavXml.parseMultistatus(await response.text());
+  }
+
+  private namespaces(): string {
+    return 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/"';
+  }
+
+  private resolveHref(property: XmlElement | undefined, base: string): string | null {
+    const href = DavXml.child(property, 'href')?.text.trim();
+    return href ? new URL(href, base).toString() : null;
+  }
+
+  /**
+   * Servers differ in how they encode hrefs, compare them as decoded paths
+   */
+  private normalizeHref(href: string, base: string): string {
+    return decodeURIComponent(new URL(href, base).pathname);
+  }
+
+  private lastSegment(url: string): string {
+    return decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() || url);
+  }
+
+  private formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+}
@@ -0,0 +1,38 @@
+import { CalendarEvent } from '../types/CalendarTypes';
+import { IcsOccurrence } from '../utils/icsParser';
+
+/**
+ * A calendar polled for events besides Google Calendar (ICS feeds, CalDAV). Every poll lists the
+ * whole sync window; reminders of events missing from the listing are cancelled.
+ */
+export interface CalendarSource {
+  readonly calendarId: string;   // Unique ID, also used in reminder job IDs
+  readonly name: string;         // Label shown with the calendar's events
+
+  /**
+   * List the events overlapping a time range, recurring events expanded
+   */
+  listEvents(start: Date, end: Date): Promise<CalendarEvent[]>;
+}
+
+/**
+ * Map an expanded iCalendar occurrence to a CalendarEvent of a source
+ */
+export function occurrenceToCalendarEvent(occurrence: IcsOccurrence, source: CalendarSource): CalendarEvent {
+  return {
+    id: occurrence.id,
+    summary: occurrence.summary,
+    description: occurrence.description,
+    startTime: occurrence.start,
+    endTime: occurrence.end,
+    location: occurrence.location,
+    attendees: occurrence.attendees,
+    calendarId: source.calendarId,
+    calendarName: source.name,
+    status: occurrence.status,
+    declined: false,
+    allDay: occurrence.allDay,
+    recurring: occurrence.recurring,
+    alarmMinutes: occurrence.alarmMinutes,
+  };
+}
@@ -0,0 +1,52 @@
+import { logger } from '../utils/logger';
+import { GoogleCalendarService } from './GoogleCalendarService';
+import { WebhookRequest, WebhookResponse, WebhookServer } from '../server/WebhookServer';
+
+export const CALENDAR_PUSH_PATH = '/google/calendar/notifications';
+
+export class CalendarWebhookHandler {
+  private calendarService: GoogleCalendarService;
+
+  constructor(calendarService: GoogleCalendarService) {
+    this.calendarService = calendarService;
+  }
+
+  /**
+   * Register the Google Calendar push notification route on the server
+   */
+  register(server: WebhookServer): void {
+    server.registerRoute('POST', CALENDAR_PUSH_PATH, (request) => this.handleNotification(request));
+  }
+
+  /**
+   * Handle an events.watch notification. Notifications carry no event data, they only tell us to sync.
+   */
+  private async handleNotification(request: WebhookRequest): Promise<WebhookResponse> {
+    const channelId = this.header(request, 'x-goog-channel-id');
+    const token = this.header(request, 'x-goog-channel-token');
+    const resourceState = this.header(request, 'x-goog-resource-state');
+
+    if (!(await this.calendarService.isWatchChannel(channelId, token))) {
+      logger.warn(`⚠️ Rejected calendar notification for unknown channel ${channelId || '(none)'}`);
+      return { status: 403, body: 'Unknown channel' };
+    }
+
+    // The first message only confirms the channel was opened
+    if (resourceState === 'sync') {
+      logger.info(`📡 Calendar push channel ${channelId} confirmed`);
+      return { status: 200 };
+    }
+
+    logger.info(`📡 Calendar changed (${resourceState}), syncing`);
+    this.calendarService.syncCalendarEvents().catch((error) => {
+      logger.error('❌ Calendar sync after push notification failed:', error);
+    });
+
+    return { status: 200 };
+  }
+
+  private header(request: WebhookRequest, name: string): string {
+    const value = request.headers[name];
+    return (Array.isArray(value) ? value[0] : value) || '';
+  }
+}
@@ -1,39 +1,202 @@
+import crypto from 'crypto';
 import { google } from 'googleapis';
+import { Job } from 'bullmq';
+import moment from 'moment-timezone';
 import { logger } from '../utils/logger';
 import { Config } from '../config/Config';
 import { ReminderQueue } from '../queue/ReminderQueue';
-import { CalendarEvent } from '../types/CalendarTypes';
+import { CalendarSyncStore, CalendarWatchChannel } from '../store/CalendarSyncStore';
+import { CalendarLink, CalendarLinkStore } from '../store/CalendarLinkStore';
+import { CALENDAR_PUSH_PATH } from './CalendarWebhookHandler';
+import { CALENDAR_EVENTS_SCOPE, DeviceTokens, GoogleDeviceAuth } from './GoogleDeviceAuth';
+import { CalendarSource } from './CalendarSource';
+import { IcsCalendarSource } from './IcsCalendarSource';
+import { CalDavCalendarSource } from './CalDavCalendarSource';
+import { CalDavClient } from './CalDavClient';
+import { EventFilter } from '../utils/eventFilter';
+import {
+  CalDavAccountConfig,
+  CalendarConfig,
+  CalendarEvent,
+  CalendarEventFilter,
+  CalendarReminderPreferences,
+  CalendarRule,
+  CalendarSyncResult,
+  CalendarSyncStatus,
+} from '../types/CalendarTypes';
+import { ReminderCalendarCopy, ReminderJobData, ReminderJobResult } from '../types/ReminderTypes';
+
+const CALENDAR_USER_ID = 'google-calendar';    // Special user ID for calendar reminders
+const CALENDAR_CHANNEL_ID = 'calendar-system';  // Special channel ID for calendar reminders
+const SYNC_WINDOW_MS = 24 * 60 * 60 * 1000;    // How far ahead reminders are scheduled
+const FULL_SYNC_INTERVAL_MS = 60 * 60 * 1000;  // Incremental syncs miss unchanged events entering the window
+const WATCH_TTL_SECONDS = 7 * 24 * 60 * 60;
+const WATCH_RENEW_BEFORE_MS = 60 * 60 * 1000;
+const MAX_RECENT_ERRORS = 5;
+const REMINDER_COPY_DURATION_MS = 15 * 60 * 1000;
+const REMINDER_JOB_PROPERTY = 'discordReminderJobId'; // Private extended property marking events added for ?remind reminders
+
+// What syncing one event did to its reminders
+type ReminderChange = 'scheduled' | 'moved' | 'cancelled' | 'unchanged';
+
+// One listing of calendar events, with the token for the next incremental sync
+interface EventListResult {
+  events: CalendarEvent[];
+  nextSyncToken?: string;
+}
+
+// A started ?calendar link, completion resolves with the linked calendar once the user entered the code
+export interface CalendarLinkRequest {
+  userCode: string;
+  verificationUrl: string;
+  expiresAt: Date;
+  completion: Promise<string>;
+}
+
+/**
+ * Build the job ID of the reminder for an event, the same on every sync
+ */
+export function buildCalendarReminderJobId(calendarId: string, eventId: string, offsetMinutes: number): string {
+  const eventKey = crypto.createHash('sha1').update(`${calendarId}\n${eventId}`).digest('hex').slice(0, 20);
+  return `calendar-${eventKey}-${offsetMinutes}m`;
+}
 
 export class GoogleCalendarService {
-  private auth: any;
-  private calendar: any;
+  private serviceAccountCalendar: any = null;
   private config: Config;
   private reminderQueue: ReminderQueue;
+  private calendarSyncStore: CalendarSyncStore;
+  private calendarLinkStore: CalendarLinkStore | null;
+  private deviceAuth: GoogleDeviceAuth | null;
+  private linkedCalendars = new Map<string, { userId: string; calendar: any; canWrite: boolean; writeBack: boolean }>();
+  private pendingLinks = new Set<string>();
+  private sources = new Map<string, CalendarSource>();
+  private undiscoveredCalDavAccounts: CalDavAccountConfig[];
+  private calendarConfig: CalendarConfig;
+  private preferences: CalendarReminderPreferences;
+  private eventFilter: CalendarEventFilter;
+  private rules: Map<string, CalendarRule>;
   private isRunning = false;
   private syncInterval: NodeJS.Timeout | null = null;
+  private currentSync: Promise<CalendarSyncResult> | null = null;
+  private resyncRequested = false;
+  private lastSync: Date | null = null;
+  private nextSync: Date | null = null;
+  private recentErrors: string[] = [];
 
-  constructor(config: Config, reminderQueue: ReminderQueue) {
+  constructor(
+    config: Config,
+    reminderQueue: ReminderQueue,
+    calendarSyncStore: CalendarSyncStore,
+    calendarLinkStore: CalendarLinkStore | null = null,
+    deviceAuth: GoogleDeviceAuth | null = null
+  ) {
     this.config = config;
     this.reminderQueue = reminderQueue;
+    this.calendarSyncStore = calendarSyncStore;
+    this.calendarLinkStore = calendarLinkStore;
+    this.deviceAuth = deviceAuth;
+    this.calendarConfig = config.getCalendarConfig();
+    this.preferences = config.getCalendarReminderPreferences();
+    this.eventFilter = config.getCalendarEventFilter();
+    this.rules = new Map(config.getCalendarRules().map(rule => [rule.calendarId, rule]));
+    this.undiscoveredCalDavAccounts = config.getCalDavAccounts();
+    this.setupSources();
     this.setupAuth();
   }
 
+  /**
+   * Rules of a monitored calendar (an empty rule uses the global preferences)
+   */
+  private getRule(calendarId: string): CalendarRule {
+    return this.rules.get(calendarId) || { calendarId };
+  }
+
+  /**
+   * Calendars synced on every run: the configured ones (when a service account is set up),
+   * the linked ones and the other sources (ICS feeds)
+   */
+  private getMonitoredCalendarIds(): string[] {
+    const configured = this.serviceAccountCalendar ? this.calendarConfig.calendars : [];
+    return [...configured, ...this.linkedCalendars.keys(), ...this.sources.keys()];
+  }
+
+  /**
+   * Calendar API client allowed to read a calendar: the owner's OAuth client for linked calendars,
+   * the service account otherwise
+   */
+  private getCalendarApi(calendarId: string): any {
+    const calendar = this.linkedCalendars.get(calendarId)?.calendar || this.serviceAccountCalendar;
+    if (!calendar) {
+      throw new Error(`No Google credentials can read calendar ${calendarId}`);
+    }
+    return calendar;
+  }
+
+  private setupSources(): void {
+    for (const feed of this.config.getIcsFeeds()) {
+      const { calendarId } = feed.rule;
+      this.rules.set(calendarId, feed.rule);
+      this.sources.set(
+        calendarId,
+        new IcsCalendarSource(calendarId, feed.rule.name || calendarId, feed.url, this.config.defaultTimezone)
+      );
+    }
+  }
+
+  /**
+   * Discover the calendars of CalDAV accounts and add them as sources. Accounts whose server
+   * could not be reached are tried again on the next sync.
+   */
+  private async discoverCalDavCalendars(result: CalendarSyncResult): Promise<void> {
+    const accounts = this.undiscoveredCalDavAccounts;
+    this.undiscoveredCalDavAccounts = [];
+
+    for (const account of accounts) {
+      try {
+        const client = new CalDavClient(account.url, account.username, account.password);
+        const calendars = (await client.discoverCalendars()).filter(calendar =>
+          !account.calendars || account.calendars.includes(calendar.displayName) || account.calendars.includes(calendar.slug)
+        );
+
+        for (const calendar of calendars) {
+          const calendarId = `caldav:${account.name}/${calendar.slug}`;
+          this.rules.set(calendarId, { ...account.rule, calendarId, name: calendar.displayName });
+          this.sources.set(
+            calendarId,
+            new CalDavCalendarSource(calendarId, calendar.displayName, client, calendar.url, this.config.defaultTimezone)
+          );
+        }
+        logger.info(`🔍 Found ${calendars.length} CalDAV calendars for account ${account.name}`);
+      } catch (error) {
+        logger.error(`❌ CalDAV discovery failed for account ${account.name}:`, error);
+        this.undiscoveredCalDavAccounts.push(account);
+        result.errors.push(account.rule.calendarId);
+        this.recordError(`${account.rule.calendarId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
   private setupAuth(): void {
     try {
-      // Check if service account key path is provided
-      if (!this.config.googleServiceAccountKeyPath) {
-        throw new Error('Google service account key path is not configured');
+      // Without a service account only linked calendars and other sources are synced
+      if (!this.config.googleCalendarEnabled || !this.config.googleServiceAccountKeyPath) {
+        if (!this.deviceAuth && this.sources.size === 0 && this.undiscoveredCalDavAccounts.length === 0) {
+          throw new Error('Google service account key path is not configured and no other calendars are set up');
+        }
+        logger.info('✅ Calendar service initialized (linked calendars and feeds only)');
+        return;
       }
 
       // Initialize Google Auth
-      this.auth = new google.auth.GoogleAuth({
+      const auth = new google.auth.GoogleAuth({
         keyFile: this.config.googleServiceAccountKeyPath,
         scopes: ['https://www.googleapis.com/auth/calendar.readonly'],
       });
 
       // Initialize Calendar API
-      this.calendar = google.calendar({ version: 'v3', auth: this.auth });
-      
+      this.serviceAccountCalendar = google.calendar({ version: 'v3', auth });
+
       logger.info('✅ Google Calendar service initialized');
     } catch (error) {
       logger.error('❌ Failed to initialize Google Calendar service:', error);
@@ -52,8 +215,11 @@ export class GoogleCalendarService {
 
     try {
       // Test the connection
-      await this.testConnection();
-      
+      if (this.serviceAccountCalendar) {
+        await this.testConnection();
+      }
+      await this.loadLinkedCalendars();
+
       this.isRunning = true;
       
       // Start periodic sync
@@ -83,6 +249,7 @@ export class GoogleCalendarService {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
+    this.nextSync = null;
 
     logger.info('🛑 Google Calendar service stopped');
   }
@@ -92,7 +259,7 @@ export class GoogleCalendarService {
    */
   async testConnection(): Promise<boolean> {
     try {
-      const response = await this.calendar.calendarList.list();
+      const response = await this.serviceAccountCalendar.calendarList.list();
       logger.info(`✅ Google Calendar connection successful. Found ${response.data.items?.length || 0} calendars`);
       return true;
     } catch (error) {
@@ -101,144 +268,902 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Load the calendars users linked with ?calendar link
+   */
+  private async loadLinkedCalendars(): Promise<void> {
+    if (!this.calendarLinkStore) {
+      return;
+    }
+
+    for (const link of await this.calendarLinkStore.getLinks()) {
+      this.addLinkedCalendar(link);
+    }
+    logger.info(`🔗 Loaded ${this.linkedCalendars.size} linked calendars`);
+  }
+
+  private addLinkedCalendar(link: CalendarLink): void {
+    this.linkedCalendars.set(link.calendarId, {
+      userId: link.userId,
+      calendar: this.createLinkedCalendarApi(link.refreshToken),
+      canWrite: !!link.scopes?.includes(CALENDAR_EVENTS_SCOPE),
+      writeBack: !!link.writeBack,
+    });
+    // Reminders of a linked calendar belong to its owner and are posted where they linked it
+    this.rules.set(link.calendarId, {
+      calendarId: link.calendarId,
+      name: link.calendarId,
+      discordUserId: link.userId,
+      channelId: link.channelId,
+    });
+  }
+
+  private createLinkedCalendarApi(refreshToken: string): any {
+    const auth = new google.auth.OAuth2(this.config.googleOAuthClientId, this.config.googleOAuthClientSecret);
+    auth.setCredentials({ refresh_token: refreshToken });
+    return google.calendar({ version: 'v3', auth });
+  }
+
+  /**
+   * Whether users can link their own calendars
+   */
+  isLinkingEnabled(): boolean {
+    return !!(this.calendarLinkStore && this.deviceAuth);
+  }
+
+  /**
+   * Get the calendar a user linked, if any
+   */
+  getLinkedCalendarId(userId: string): string | null {
+    for (const [calendarId, linked] of this.linkedCalendars) {
+      if (linked.userId === userId) {
+        return calendarId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Start linking a user's Google Calendar with the OAuth device flow. The user enters the returned
+   * code on Google's page; completion resolves once the calendar is linked and synced.
+   */
+  async startCalendarLink(userId: string, channelId: string): Promise<CalendarLinkRequest> {
+    if (!this.calendarLinkStore || !this.deviceAuth) {
+      throw new Error('Calendar linking is not configured');
+    }
+    if (this.getLinkedCalendarId(userId)) {
+      throw new Error('You already linked a calendar. Use `?calendar unlink` first.');
+    }
+    if (this.pendingLinks.has(userId)) {
+      throw new Error('You already have a link code waiting to be entered');
+    }
+
+    const code = await this.deviceAuth.requestDeviceCode();
+    this.pendingLinks.add(userId);
+    logger.info(`🔗 Started calendar link for user ${userId}`);
+
+    const completion = this.completeCalendarLink(userId, channelId, this.deviceAuth.waitForTokens(code))
+      .finally(() => this.pendingLinks.delete(userId));
+
+    return {
+      userCode: code.userCode,
+      verificationUrl: code.verificationUrl,
+      expiresAt: code.expiresAt,
+      completion,
+    };
+  }
+
+  private async completeCalendarLink(userId: string, channelId: string, tokensPromise: Promise<DeviceTokens>): Promise<string> {
+    const { refreshToken, scopes } = await tokensPromise;
+    let calendarId: string;
+
+    try {
+      // The primary calendar's ID is the account's email address
+      const primary = await this.createLinkedCalendarApi(refreshToken).calendarList.get({ calendarId: 'primary' });
+      calendarId = primary.data.id;
+
+      if (this.getMonitoredCalendarIds().includes(calendarId)) {
+        throw new Error(`${calendarId} is already monitored`);
+      }
+
+      const link: CalendarLink = { userId, calendarId, channelId, refreshToken, linkedAt: new Date().toISOString(), scopes };
+      await this.calendarLinkStore!.setLink(link);
+      this.addLinkedCalendar(link);
+      logger.info(`🔗 User ${userId} linked calendar ${calendarId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to link calendar of user ${userId}:`, error);
+      await this.deviceAuth!.revokeToken(refreshToken);
+      throw error;
+    }
+
+    await this.syncCalendarEvents();
+    return calendarId;
+  }
+
+  /**
+   * Unlink a user's calendar: revoke its token, forget it and cancel its pending reminders.
+   * Returns the number of reminders cancelled, or null when the user had no linked calendar.
+   */
+  async unlinkCalendar(userId: string): Promise<number | null> {
+    const calendarId = this.getLinkedCalendarId(userId);
+    const link = await this.calendarLinkStore?.getLink(userId);
+    if (!calendarId || !link) {
+      return null;
+    }
+
+    try {
+      const channel = await this.calendarSyncStore.getWatchChannel(calendarId);
+      if (channel) {
+        await this.stopWatchChannel(channel);
+        await this.calendarSyncStore.clearWatchChannel(calendarId);
+      }
+
+      this.linkedCalendars.delete(calendarId);
+      this.rules.delete(calendarId);
+      await this.calendarLinkStore!.deleteLink(userId);
+      if (!(await this.deviceAuth!.revokeToken(link.refreshToken))) {
+        logger.warn(`⚠️ Could not revoke the calendar token of user ${userId}`);
+      }
+      await this.calendarSyncStore.clearSyncToken(calendarId);
+
+      // A running sync may still schedule reminders for the calendar, purge once it is done
+      await this.currentSync?.catch(() => undefined);
+      let cancelled = 0;
+      for (const job of await this.reminderQueue.getCalendarReminders()) {
+        if (job.data.calendarEvent?.calendarId === calendarId && await this.reminderQueue.cancelReminder(job.id as string)) {
+          cancelled++;
+        }
+      }
+
+      logger.info(`🔗 User ${userId} unlinked calendar ${calendarId}, ${cancelled} reminders cancelled`);
+      return cancelled;
+    } catch (error) {
+      logger.error(`❌ Failed to unlink calendar of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the user's ?remind reminders are added to their linked calendar by default
+   */
+  getReminderWriteBack(userId: string): boolean {
+    const calendarId = this.getLinkedCalendarId(userId);
+    return !!calendarId && this.linkedCalendars.get(calendarId)!.writeBack;
+  }
+
+  /**
+   * Turn adding the user's ?remind reminders to their linked calendar on or off
+   */
+  async setReminderWriteBack(userId: string, enabled: boolean): Promise<void> {
+    const calendarId = this.getLinkedCalendarId(userId);
+    const link = await this.calendarLinkStore?.getLink(userId);
+    if (!calendarId || !link) {
+      throw new Error('You have not linked a calendar. Use `?calendar link` to link one.');
+    }
+    const linked = this.linkedCalendars.get(calendarId)!;
+    if (enabled && !linked.canWrite) {
+      throw new Error('Your calendar was linked with read-only access. Use `?calendar unlink` and `?calendar link` to grant write access.');
+    }
+
+    await this.calendarLinkStore!.setLink({ ...link, writeBack: enabled });
+    linked.writeBack = enabled;
+    logger.info(`📝 ${enabled ? 'Enabled' : 'Disabled'} reminder write-back for user ${userId}`);
+  }
+
+  /**
+   * Add a ?remind reminder to its owner's linked calendar. Returns null when the user has no
+   * calendar with write access or the event could not be created.
+   */
+  async createReminderEvent(userId: string, jobId: string, message: string, fireAt: Date): Promise<ReminderCalendarCopy | null> {
+    const calendarId = this.getLinkedCalendarId(userId);
+    const linked = calendarId ? this.linkedCalendars.get(calendarId) : undefined;
+    if (!calendarId || !linked?.canWrite) {
+      return null;
+    }
+
+    try {
+      const response = await linked.calendar.events.insert({
+        calendarId,
+        requestBody: {
+          ...this.buildReminderEventTimes(fireAt),
+          summary: `🔔 ${message}`,
+          description: `Reminder call set in Discord (job ${jobId})`,
+          // The bot calls for the reminder, Google's own notifications would be a second alert
+          reminders: { useDefault: false },
+          extendedProperties: { private: { [REMINDER_JOB_PROPERTY]: jobId } },
+        },
+      });
+
+      logger.info(`📝 Added reminder ${jobId} to calendar ${calendarId}`);
+      return { calendarId, eventId: response.data.id };
+    } catch (error) {
+      logger.error(`❌ Failed to add reminder ${jobId} to calendar ${calendarId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Update the calendar event of a reminder after it was edited or snoozed
+   */
+  async updateReminderEvent(copy: ReminderCalendarCopy, changes: { message?: string; fireAt?: Date }): Promise<boolean> {
+    const linked = this.linkedCalendars.get(copy.calendarId);
+    if (!linked?.canWrite) {
+      return false;
+    }
+
+    const requestBody: Record<string, unknown> = {};
+    if (changes.message) {
+      requestBody.summary = `🔔 ${changes.message}`;
+    }
+    if (changes.fireAt) {
+      Object.assign(requestBody, this.buildReminderEventTimes(changes.fireAt));
+    }
+
+    try {
+      await linked.calendar.events.patch({ calendarId: copy.calendarId, eventId: copy.eventId, requestBody });
+      logger.info(`📝 Updated reminder event ${copy.eventId} on calendar ${copy.calendarId}`);
+      return true;
+    } catch (error) {
+      logger.error(`❌ Failed to update reminder event ${copy.eventId} on calendar ${copy.calendarId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete the calendar event of a cancelled reminder
+   */
+  async deleteReminderEvent(copy: ReminderCalendarCopy): Promise<boolean> {
+    const linked = this.linkedCalendars.get(copy.calendarId);
+    if (!linked?.canWrite) {
+      return false;
+    }
+
+    try {
+      await linked.calendar.events.delete({ calendarId: copy.calendarId, eventId: copy.eventId });
+      logger.info(`📝 Deleted reminder event ${copy.eventId} from calendar ${copy.calendarId}`);
+      return true;
+    } catch (error: any) {
+      // Already deleted in Google Calendar
+      if (error?.code === 404 || error?.code === 410) {
+        return true;
+      }
+      logger.error(`❌ Failed to delete reminder event ${copy.eventId} from calendar ${copy.calendarId}:`, error);
+      return false;
+    }
+  }
+
+  private buildReminderEventTimes(fireAt: Date): { start: { dateTime: string }; end: { dateTime: string } } {
+    return {
+      start: { dateTime: fireAt.toISOString() },
+      end: { dateTime: new Date(fireAt.getTime() + REMINDER_COPY_DURATION_MS).toISOString() },
+    };
+  }
+
   /**
    * Start periodic sync of calendar events
    */
   private startPeriodicSync(): void {
-    // Sync every 5 minutes
+    const intervalMs = this.calendarConfig.syncIntervalMinutes * 60 * 1000;
+    const intervalMinutes = this.calendarConfig.syncIntervalMinutes;
+    this.nextSync = new Date(Date.now() + intervalMs);
     this.syncInterval = setInterval(async () => {
+      this.nextSync = new Date(Date.now() + intervalMs);
       try {
         await this.syncCalendarEvents();
       } catch (error) {
         logger.error('❌ Periodic calendar sync failed:', error);
       }
-    }, 5 * 60 * 1000);
+    }, intervalMs);
+
+    logger.info(`🔄 Started periodic calendar sync (every ${intervalMinutes} minutes)`);
+  }
+
+  /**
+   * Sync calendar events and schedule reminders. Requests made while a sync is running
+   * (e.g. push notifications during a poll) run one more sync once it has finished.
+   */
+  async syncCalendarEvents(): Promise<CalendarSyncResult> {
+    if (this.currentSync) {
+      this.resyncRequested = true;
+      return this.currentSync;
+    }
+
+    this.currentSync = (async () => {
+      const result = this.emptySyncResult();
+      try {
+        do {
+          this.resyncRequested = false;
+          await this.syncAllCalendars(result);
+        } while (this.resyncRequested);
+        return result;
+      } finally {
+        this.currentSync = null;
+      }
+    })();
+
+    return this.currentSync;
+  }
+
+  private emptySyncResult(): CalendarSyncResult {
+    return {
+      eventsProcessed: 0,
+      remindersScheduled: 0,
+      remindersMoved: 0,
+      remindersCancelled: 0,
+      fullSync: false,
+      errors: [],
+    };
+  }
+
+  /**
+   * Sync every monitored calendar; one failing calendar does not hold up the others.
+   * Failed calendars are listed in the result and retried on the next sync.
+   */
+  private async syncAllCalendars(result: CalendarSyncResult): Promise<void> {
+    if (this.undiscoveredCalDavAccounts.length > 0) {
+      await this.discoverCalDavCalendars(result);
+    }
+
+    for (const calendarId of this.getMonitoredCalendarIds()) {
+      try {
+        const source = this.sources.get(calendarId);
+        await (source ? this.syncSource(source, result) : this.syncCalendar(calendarId, result));
+      } catch (error) {
+        result.errors.push(calendarId);
+        this.recordError(`${calendarId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    this.lastSync = new Date();
+  }
+
+  private recordError(message: string): void {
+    this.recentErrors = [`${new Date().toISOString()} ${message}`, ...this.recentErrors].slice(0, MAX_RECENT_ERRORS);
+  }
+
+  private async syncCalendar(calendarId: string, syncResult: CalendarSyncResult): Promise<void> {
+    try {
+      logger.info(`🔄 Syncing Google Calendar ${calendarId}...`);
+      const syncStartedAt = new Date();
+
+      const syncToken = await this.calendarSyncStore.getSyncToken(calendarId);
+      const lastFullSync = await this.calendarSyncStore.getLastFullSync(calendarId);
+      let fullSync = !syncToken || !lastFullSync || syncStartedAt.getTime() - lastFullSync.getTime() >= FULL_SYNC_INTERVAL_MS;
+
+      let result: EventListResult;
+      if (fullSync) {
+        result = await this.fetchUpcomingEvents(calendarId);
+      } else {
+        try {
+          result = await this.fetchChangedEvents(calendarId, syncToken!);
+        } catch (error) {
+          if (!this.isSyncTokenExpired(error)) {
+            throw error;
+          }
+
+          logger.warn('⚠️ Calendar sync token is no longer valid, running a full sync');
+          await this.calendarSyncStore.clearSyncToken(calendarId);
+          fullSync = true;
+          result = await this.fetchUpcomingEvents(calendarId);
+        }
+      }
+      logger.info(`📅 Found ${result.events.length} ${fullSync ? 'upcoming' : 'changed'} events`);
+
+      // Process each event and schedule reminders, later events are picked up by a later full sync
+      const windowEnd = Date.now() + SYNC_WINDOW_MS;
+      let events = result.events.filter(event => event.status === 'cancelled' || event.startTime.getTime() <= windowEnd);
+      if (fullSync) {
+        events = this.limitUpcomingEvents(events);
+      }
+      syncResult.fullSync = syncResult.fullSync || fullSync;
+      syncResult.eventsProcessed += events.length;
+      for (const event of events) {
+        for (const change of await this.processCalendarEvent(event)) {
+          if (change === 'scheduled') {
+            syncResult.remindersScheduled++;
+          } else if (change === 'moved') {
+            syncResult.remindersMoved++;
+          } else if (change === 'cancelled') {
+            syncResult.remindersCancelled++;
+          }
+        }
+      }
+
+      if (result.nextSyncToken) {
+        await this.calendarSyncStore.setSyncToken(calendarId, result.nextSyncToken, fullSync ? syncStartedAt : undefined);
+      }
 
-    logger.info('🔄 Started periodic calendar sync (every 5 minutes)');
+      if (this.config.googleCalendarPushEnabled) {
+        await this.ensureWatchChannel(calendarId);
+      }
+
+      logger.info(`✅ Calendar ${calendarId} sync completed`);
+    } catch (error) {
+      logger.error(`❌ Calendar sync failed for ${calendarId}:`, error);
+      throw error;
+    }
   }
 
   /**
-   * Sync calendar events and schedule reminders
+   * Sync a polled source: its listing of the sync window is complete, so pending reminders of
+   * events that disappeared from it (deleted, moved away, alarm removed) are cancelled
    */
-  async syncCalendarEvents(): Promise<void> {
+  private async syncSource(source: CalendarSource, syncResult: CalendarSyncResult): Promise<void> {
     try {
-      logger.info('🔄 Syncing Google Calendar events...');
-      
-      const events = await this.fetchUpcomingEvents();
+      logger.info(`🔄 Syncing calendar ${source.calendarId}...`);
+      const now = new Date();
+
+      const events = this.limitUpcomingEvents(await source.listEvents(now, new Date(now.getTime() + SYNC_WINDOW_MS)));
       logger.info(`📅 Found ${events.length} upcoming events`);
-      
-      // Process each event and schedule reminders
+
+      syncResult.fullSync = true;
+      syncResult.eventsProcessed += events.length;
       for (const event of events) {
-        await this.processCalendarEvent(event);
+        for (const change of await this.processCalendarEvent(event)) {
+          if (change === 'scheduled') {
+            syncResult.remindersScheduled++;
+          } else if (change === 'moved') {
+            syncResult.remindersMoved++;
+          } else if (change === 'cancelled') {
+            syncResult.remindersCancelled++;
+          }
+        }
       }
-      
-      logger.info('✅ Calendar sync completed');
+      syncResult.remindersCancelled += await this.cancelStaleReminders(source.calendarId, events);
+
+      logger.info(`✅ Calendar ${source.calendarId} sync completed`);
     } catch (error) {
-      logger.error('❌ Calendar sync failed:', error);
+      logger.error(`❌ Calendar sync failed for ${source.calendarId}:`, error);
       throw error;
     }
   }
 
   /**
-   * Fetch upcoming events from Google Calendar
+   * Cancel pending reminders of a calendar that none of its listed events asks for anymore
+   */
+  private async cancelStaleReminders(calendarId: string, events: CalendarEvent[]): Promise<number> {
+    const wanted = new Set<string>();
+    for (const event of events.filter(event => this.shouldRemind(event))) {
+      for (const offsetMinutes of this.getAdvanceNotices(event)) {
+        wanted.add(buildCalendarReminderJobId(calendarId, event.id, offsetMinutes));
+      }
+    }
+
+    let cancelled = 0;
+    for (const job of await this.reminderQueue.getCalendarReminders()) {
+      const calendarEvent = job.data.calendarEvent!;
+      // Reminders of events that already started are left to fire
+      if (calendarEvent.calendarId !== calendarId || wanted.has(job.id as string)
+        || new Date(calendarEvent.startTime).getTime() <= Date.now()) {
+        continue;
+      }
+
+      if (await this.reminderQueue.cancelReminder(job.id as string)) {
+        logger.info(`🗑️ Cancelled reminder ${job.id}, its event is no longer in calendar ${calendarId}`);
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Fetch upcoming events from Google Calendar (full sync of the sync window)
    */
-  private async fetchUpcomingEvents(): Promise<CalendarEvent[]> {
+  private async fetchUpcomingEvents(calendarId: string): Promise<EventListResult> {
     try {
       const now = new Date();
-      const endTime = new Date(now.getTime() + 24 * 60 * 60 * 1000); // Next 24 hours
+      const endTime = new Date(now.getTime() + SYNC_WINDOW_MS);
 
-      const response = await this.calendar.events.list({
-        calendarId: this.config.googleCalendarId,
+      // Deleted events are included so their reminders can be cancelled. No orderBy, it suppresses the sync token.
+      return await this.listEvents(calendarId, {
+        calendarId,
         timeMin: now.toISOString(),
         timeMax: endTime.toISOString(),
         singleEvents: true,
-        orderBy: 'startTime',
-        maxResults: 50,
+        showDeleted: true,
+        maxResults: this.calendarConfig.maxEventsToProcess,
       });
+    } catch (error) {
+      logger.error('❌ Failed to fetch calendar events:', error);
+      throw error;
+    }
+  }
 
-      const events: CalendarEvent[] = [];
-      
-      if (response.data.items) {
-        for (const item of response.data.items) {
-          if (item.start && item.start.dateTime) {
-            events.push({
-              id: item.id || '',
-              summary: item.summary || 'No Title',
-              description: item.description || '',
-              startTime: new Date(item.start.dateTime),
-              endTime: item.end?.dateTime ? new Date(item.end.dateTime) : null,
-              location: item.location || '',
-              attendees: item.attendees?.map((a: any) => a.email || '') || [],
-              calendarId: item.organizer?.email || this.config.googleCalendarId,
-            });
-          }
+  /**
+   * Fetch the events changed or deleted since the sync token was issued
+   */
+  private async fetchChangedEvents(calendarId: string, syncToken: string): Promise<EventListResult> {
+    try {
+      return await this.listEvents(calendarId, {
+        calendarId,
+        syncToken,
+        singleEvents: true,
+        showDeleted: true,
+        maxResults: this.calendarConfig.maxEventsToProcess,
+      });
+    } catch (error) {
+      if (!this.isSyncTokenExpired(error)) {
+        logger.error('❌ Failed to fetch changed calendar events:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the first `maxEventsToProcess` upcoming events of a full sync, and every deleted one
+   */
+  private limitUpcomingEvents(events: CalendarEvent[]): CalendarEvent[] {
+    const upcoming = events
+      .filter(event => event.status !== 'cancelled')
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      .slice(0, this.calendarConfig.maxEventsToProcess);
+
+    return [...events.filter(event => event.status === 'cancelled'), ...upcoming];
+  }
+
+  /**
+   * Run an events.list request across all pages. The sync token comes with the last page.
+   */
+  private async listEvents(calendarId: string, params: Record<string, unknown>): Promise<EventListResult> {
+    const result: EventListResult = { events: [] };
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.getCalendarApi(calendarId).events.list(pageToken ? { ...params, pageToken } : params);
+
+      for (const item of response.data.items || []) {
+        const event = this.toCalendarEvent(item, calendarId);
+        if (event) {
+          result.events.push(event);
         }
       }
 
-      return events;
+      pageToken = response.data.nextPageToken || undefined;
+      if (response.data.nextSyncToken) {
+        result.nextSyncToken = response.data.nextSyncToken;
+      }
+    } while (pageToken);
+
+    return result;
+  }
+
+  /**
+   * Google answers 410 Gone once a sync token has expired or was invalidated
+   */
+  private isSyncTokenExpired(error: unknown): boolean {
+    const status = (error as any)?.code ?? (error as any)?.response?.status;
+    return Number(status) === 410;
+  }
+
+  /**
+   * Open a push notification channel for the calendar, or renew it shortly before it expires
+   */
+  private async ensureWatchChannel(calendarId: string): Promise<void> {
+    const current = await this.calendarSyncStore.getWatchChannel(calendarId);
+    if (current && current.expiration - Date.now() > WATCH_RENEW_BEFORE_MS) {
+      return;
+    }
+
+    try {
+      const id = crypto.randomUUID();
+      const token = crypto.randomBytes(24).toString('hex');
+
+      const response = await this.getCalendarApi(calendarId).events.watch({
+        calendarId,
+        requestBody: {
+          id,
+          type: 'web_hook',
+          address: `${this.config.baseUrl}${CALENDAR_PUSH_PATH}`,
+          token,
+          params: { ttl: WATCH_TTL_SECONDS.toString() },
+        },
+      });
+
+      await this.calendarSyncStore.setWatchChannel({
+        id,
+        resourceId: response.data.resourceId,
+        token,
+        calendarId,
+        expiration: Number(response.data.expiration) || Date.now() + WATCH_TTL_SECONDS * 1000,
+      });
+      logger.info(`📡 Opened push channel ${id} for calendar ${calendarId}`);
+
+      if (current) {
+        await this.stopWatchChannel(current);
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to open push channel for calendar ${calendarId}:`, error);
+    }
+  }
+
+  private async stopWatchChannel(channel: CalendarWatchChannel): Promise<void> {
+    try {
+      await this.getCalendarApi(channel.calendarId).channels.stop({ requestBody: { id: channel.id, resourceId: channel.resourceId } });
+      logger.info(`🔕 Stopped push channel ${channel.id}`);
     } catch (error) {
-      logger.error('❌ Failed to fetch calendar events:', error);
-      throw error;
+      logger.warn(`⚠️ Could not stop push channel ${channel.id}:`, error);
+    }
+  }
+
+  /**
+   * Check that a push notification came from the channel we opened
+   */
+  async isWatchChannel(channelId: string, token: string): Promise<boolean> {
+    for (const calendarId of this.getMonitoredCalendarIds()) {
+      const channel = await this.calendarSyncStore.getWatchChannel(calendarId);
+      if (!channel || channel.id !== channelId) {
+        continue;
+      }
+
+      const expected = Buffer.from(channel.token);
+      const received = Buffer.from(token);
+      return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+    }
+    return false;
+  }
+
+  /**
+   * Map an API event to a CalendarEvent. Deleted events are kept without times, all-day events
+   * start at midnight in the default timezone. Events the bot added for reminders are skipped.
+   */
+  private toCalendarEvent(item: any, calendarId: string): CalendarEvent | null {
+    const cancelled = item.status === 'cancelled';
+    const allDay = !item.start?.dateTime && !!item.start?.date;
+    if (!item.id || (!cancelled && !item.start?.dateTime && !allDay)) {
+      return null;
+    }
+    // Events added for ?remind reminders already get the reminder's own call
+    if (item.extendedProperties?.private?.[REMINDER_JOB_PROPERTY]) {
+      return null;
+    }
+
+    return {
+      id: item.id,
+      summary: item.summary || 'No Title',
+      description: item.description || '',
+      startTime: this.parseEventTime(item.start),
+      endTime: item.end?.dateTime || item.end?.date ? this.parseEventTime(item.end) : null,
+      location: item.location || '',
+      attendees: item.attendees?.map((a: any) => a.email || '') || [],
+      calendarId,
+      calendarName: this.getRule(calendarId).name || calendarId,
+      status: item.status || 'confirmed',
+      declined: item.attendees?.some((a: any) => a.self && a.responseStatus === 'declined') || false,
+      allDay,
+      recurring: !!item.recurringEventId,
+    };
+  }
+
+  private parseEventTime(time: { dateTime?: string; date?: string } | undefined): Date {
+    if (time?.dateTime) {
+      return new Date(time.dateTime);
     }
+    return time?.date ? moment.tz(time.date, this.config.defaultTimezone).toDate() : new Date(NaN);
   }
 
   /**
-   * Process a calendar event and schedule reminders
+   * Check the event against the reminder preferences, the calendar config and the filters
+   * of the global config and of the event's calendar
    */
-  private async processCalendarEvent(event: CalendarEvent): Promise<void> {
+  private shouldRemind(event: CalendarEvent): boolean {
+    if (!this.preferences.enabled || event.status === 'cancelled') {
+      return false;
+    }
+    if (event.allDay && !this.calendarConfig.includeAllDayEvents) {
+      return false;
+    }
+    if (event.recurring && !this.calendarConfig.includeRecurringEvents) {
+      return false;
+    }
+
+    const filter = { ...this.eventFilter, ...this.getRule(event.calendarId).filter };
+    if (event.declined && filter.includeDeclined !== true) {
+      return false;
+    }
+    return EventFilter.matchesEvent(event, filter.searchQuery);
+  }
+
+  /**
+   * Process a calendar event: schedule, move or cancel its reminders (one per advance notice)
+   */
+  private async processCalendarEvent(event: CalendarEvent): Promise<ReminderChange[]> {
+    const changes: ReminderChange[] = [];
+
     try {
-      const now = new Date();
-      const eventStart = event.startTime;
-      const timeUntilEvent = eventStart.getTime() - now.getTime();
-      
+      if (!this.shouldRemind(event)) {
+        return await this.cancelEventReminders(event);
+      }
+
+      const now = Date.now();
+      const eventStart = event.startTime.getTime();
+
       // Only process events that are in the future
-      if (timeUntilEvent <= 0) {
-        return;
+      if (eventStart <= now) {
+        return changes;
       }
 
-      // Check if we should send a reminder (10 minutes before)
-      const reminderTime = timeUntilEvent - (10 * 60 * 1000); // 10 minutes before
-      
-      if (reminderTime > 0) {
-        // Schedule the reminder
-        await this.scheduleEventReminder(event, reminderTime);
-        logger.info(`📅 Scheduled reminder for event "${event.summary}" at ${new Date(now.getTime() + reminderTime).toLocaleString()}`);
-      } else if (timeUntilEvent <= 10 * 60 * 1000 && timeUntilEvent > 0) {
-        // Event is within 10 minutes, send immediate reminder
-        await this.scheduleEventReminder(event, 0);
-        logger.info(`🚨 Sending immediate reminder for event "${event.summary}" starting in ${Math.floor(timeUntilEvent / 60000)} minutes`);
+      // Notices whose time has passed are dropped, except the closest one which is sent right away
+      const offsets = this.getAdvanceNotices(event);
+      const closestOffset = offsets[offsets.length - 1];
+      for (const offsetMinutes of offsets) {
+        const fireAt = eventStart - offsetMinutes * 60 * 1000;
+        if (fireAt <= now && offsetMinutes !== closestOffset) {
+          changes.push(await this.cancelEventReminder(event, offsetMinutes));
+          continue;
+        }
+        changes.push(await this.scheduleEventReminder(event, new Date(Math.max(now, fireAt)), offsetMinutes));
       }
-      
     } catch (error) {
       logger.error(`❌ Failed to process calendar event "${event.summary}":`, error);
     }
+
+    return changes;
+  }
+
+  /**
+   * Advance notices in minutes for an event, furthest first: the calendar rule's, else the
+   * event's own alarms, else the global preference
+   */
+  private getAdvanceNotices(event: CalendarEvent): number[] {
+    if (!this.getRule(event.calendarId).advanceNoticeMinutes && event.alarmMinutes?.length) {
+      return [...new Set(event.alarmMinutes)].sort((a, b) => b - a);
+    }
+    return this.getAdvanceNoticeMinutes(event.calendarId);
   }
 
   /**
-   * Schedule a reminder for a calendar event
+   * Schedule the reminder for a calendar event. Re-syncs of an unchanged event are no-ops,
+   * changed events have their pending reminder moved. Reminders the owner cancelled stay
+   * cancelled until the event moves.
    */
-  private async scheduleEventReminder(event: CalendarEvent, delayMs: number): Promise<void> {
+  private async scheduleEventReminder(event: CalendarEvent, fireAt: Date, offsetMinutes: number): Promise<ReminderChange> {
+    const jobId = buildCalendarReminderJobId(event.calendarId, event.id, offsetMinutes);
+    const startTime = event.startTime.toISOString();
+    const rule = this.getRule(event.calendarId);
+
     try {
-      // Create reminder message
+      const cancelledStart = await this.reminderQueue.getCalendarCancellation(jobId);
+      if (cancelledStart === startTime) {
+        return 'unchanged';
+      }
+      // Whether a new reminder replaces one cancelled or called before the event moved
+      let rescheduled = Boolean(cancelledStart);
+      if (cancelledStart) {
+        await this.reminderQueue.clearCalendarCancellation(jobId);
+        logger.info(`🔄 Event "${event.summary}" moved after its reminder was cancelled, scheduling a new one`);
+      }
+
       const message = this.createReminderMessage(event);
-      
-      // Schedule the reminder
+      const existing = await this.reminderQueue.getReminder(jobId);
+
+      if (existing) {
+        const change = await this.updateEventReminder(existing, event, fireAt, message);
+        if (change) {
+          return change;
+        }
+        rescheduled = true;
+      } else {
+        // BullMQ trims finished jobs, so a called reminder may only be known by its marker
+        const calledStart = await this.reminderQueue.getCalendarCall(jobId);
+        if (calledStart && (calledStart === startTime || fireAt.getTime() <= Date.now())) {
+          return 'unchanged';
+        }
+        if (calledStart) {
+          rescheduled = true;
+          logger.info(`🔄 Event "${event.summary}" moved after its reminder was called, scheduling a new one`);
+        }
+      }
+
       await this.reminderQueue.addReminder(
         message,
-        delayMs,
-        'google-calendar', // Special user ID for calendar reminders
-        'calendar-system', // Special channel ID
+        Math.max(0, fireAt.getTime() - Date.now()),
+        rule.discordUserId || CALENDAR_USER_ID,
+        rule.channelId || CALENDAR_CHANNEL_ID,
         `calendar-${event.id}`, // Special message ID
         {
-          ttsVoice: 'alice',
+          ttsVoice: rule.ttsVoice || this.preferences.ttsVoice,
           priority: 10, // High priority for calendar reminders
+          jobId,
+          rescheduled,
+          calendarEvent: {
+            calendarId: event.calendarId,
+            eventId: event.id,
+            offsetMinutes,
+            startTime,
+          },
+          ...(rule.phoneNumber ? { phoneNumber: rule.phoneNumber } : {}),
         }
       );
 
-      logger.info(`✅ Calendar reminder scheduled for "${event.summary}"`);
-      
+      logger.info(`📅 Scheduled reminder for event "${event.summary}" at ${fireAt.toISOString()}`);
+      return 'scheduled';
     } catch (error) {
       logger.error(`❌ Failed to schedule calendar reminder for "${event.summary}":`, error);
+      return 'unchanged';
+    }
+  }
+
+  /**
+   * Bring an existing event reminder in line with the event. Returns null when the old
+   * reminder was already called and a new one should be added for the moved event.
+   */
+  private async updateEventReminder(
+    job: Job<ReminderJobData, ReminderJobResult>,
+    event: CalendarEvent,
+    fireAt: Date,
+    message: string
+  ): Promise<ReminderChange | null> {
+    const jobId = job.id as string;
+    const state = await job.getState();
+    const startTime = event.startTime.toISOString();
+
+    if (state === 'completed' || state === 'failed') {
+      // Call again only when the event moved and its new reminder time is still ahead
+      if (job.data.calendarEvent?.startTime === startTime || fireAt.getTime() <= Date.now()) {
+        return 'unchanged';
+      }
+
+      await job.remove();
+      logger.info(`🔄 Event "${event.summary}" moved after its reminder was called, scheduling a new one`);
+      return null;
+    }
+
+    // Waiting or active reminders are being called right now
+    if (state !== 'delayed') {
+      return 'unchanged';
+    }
+
+    const changes: { message?: string; fireAt?: Date } = {};
+    if (job.data.message !== message) {
+      changes.message = message;
+    }
+    if (Math.abs(this.reminderQueue.getScheduledTime(job).getTime() - fireAt.getTime()) >= 60 * 1000) {
+      changes.fireAt = fireAt;
+    }
+    if (!changes.message && !changes.fireAt) {
+      return 'unchanged';
+    }
+
+    if (!(await this.reminderQueue.updateReminder(jobId, changes, CALENDAR_USER_ID))) {
+      return 'unchanged';
+    }
+
+    const updated = await this.reminderQueue.getReminder(jobId);
+    if (updated && job.data.calendarEvent) {
+      await updated.updateData({ ...updated.data, calendarEvent: { ...job.data.calendarEvent, startTime } });
+    }
+    logger.info(`🔄 Updated reminder for event "${event.summary}" (now ${fireAt.toISOString()})`);
+    return 'moved';
+  }
+
+  /**
+   * Cancel the pending reminders of an event that was deleted, declined or no longer matches the preferences
+   */
+  private async cancelEventReminders(event: CalendarEvent): Promise<ReminderChange[]> {
+    const changes: ReminderChange[] = [];
+    for (const offsetMinutes of this.getAdvanceNotices(event)) {
+      changes.push(await this.cancelEventReminder(event, offsetMinutes));
+    }
+    return changes;
+  }
+
+  private async cancelEventReminder(event: CalendarEvent, offsetMinutes: number): Promise<ReminderChange> {
+    const jobId = buildCalendarReminderJobId(event.calendarId, event.id, offsetMinutes);
+
+    try {
+      const job = await this.reminderQueue.getReminder(jobId);
+      if (!job || !['delayed', 'waiting', 'prioritized'].includes(await job.getState())) {
+        return 'unchanged';
+      }
+
+      if (!(await this.reminderQueue.cancelReminder(jobId))) {
+        return 'unchanged';
+      }
+      logger.info(`🗑️ Cancelled ${offsetMinutes}-minute reminder for event "${event.summary}"`);
+      return 'cancelled';
+    } catch (error) {
+      logger.error(`❌ Failed to cancel calendar reminder for "${event.summary}":`, error);
+      return 'unchanged';
     }
   }
 
@@ -246,71 +1171,131 @@ export class GoogleCalendarService {
    * Create a reminder message for a calendar event
    */
   private createReminderMessage(event: CalendarEvent): string {
-    const startTime = event.startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    const location = event.location ? ` at ${event.location}` : '';
-    
-    let message = `Reminder: You have "${event.summary}" starting at ${startTime}${location}`;
-    
-    if (event.description) {
+    const eventTime = moment(event.startTime).tz(this.config.defaultTimezone);
+    const when = event.allDay ? `all day on ${eventTime.format('dddd, MMMM D')}` : `starting at ${eventTime.format('h:mm A')}`;
+    const location = this.preferences.includeLocation && event.location ? ` at ${event.location}` : '';
+    const prefix = this.preferences.customMessage || 'Reminder:';
+
+    let message = `${prefix} You have "${event.summary}" ${when}${location}`;
+
+    if (this.preferences.includeDescription && event.description) {
       message += `. ${event.description}`;
     }
-    
-    if (event.attendees.length > 0) {
+
+    if (this.preferences.includeAttendees && event.attendees.length > 0) {
       message += `. Attendees: ${event.attendees.join(', ')}`;
     }
-    
+
     return message;
   }
 
   /**
-   * Get upcoming events for a specific time range
+   * Get upcoming events of the calendars a user can see for a specific time range, merged by start time
+   * and narrowed down by an optional filter (keywords are matched locally so exclusions work)
    */
-  async getUpcomingEvents(hours: number = 24): Promise<CalendarEvent[]> {
+  async getUpcomingEvents(hours: number = 24, filter: CalendarEventFilter = {}, viewerId?: string): Promise<CalendarEvent[]> {
     try {
-      const now = new Date();
-      const endTime = new Date(now.getTime() + hours * 60 * 60 * 1000);
+      const startTime = filter.startDate || new Date();
+      const endTime = filter.endDate || new Date(startTime.getTime() + hours * 60 * 60 * 1000);
+      const maxResults = filter.maxResults || 100;
 
-      const response = await this.calendar.events.list({
-        calendarId: this.config.googleCalendarId,
-        timeMin: now.toISOString(),
-        timeMax: endTime.toISOString(),
-        singleEvents: true,
-        orderBy: 'startTime',
-        maxResults: 100,
-      });
-
-      const events: CalendarEvent[] = [];
-      
-      if (response.data.items) {
-        for (const item of response.data.items) {
-          if (item.start && item.start.dateTime) {
-            events.push({
-              id: item.id || '',
-              summary: item.summary || 'No Title',
-              description: item.description || '',
-              startTime: new Date(item.start.dateTime),
-              endTime: item.end?.dateTime ? new Date(item.end.dateTime) : null,
-              location: item.location || '',
-              attendees: item.attendees?.map((a: any) => a.email || '') || [],
-              calendarId: item.organizer?.email || this.config.googleCalendarId,
-            });
+      const perCalendar = await Promise.all(
+        this.getVisibleCalendarIds(viewerId).map(async (calendarId) => {
+          const source = this.sources.get(calendarId);
+          if (source) {
+            const events = await source.listEvents(startTime, endTime);
+            return events.filter(event => event.status !== 'cancelled' || filter.includeCancelled === true);
           }
-        }
-      }
 
-      return events;
+          const response = await this.getCalendarApi(calendarId).events.list({
+            calendarId,
+            timeMin: startTime.toISOString(),
+            timeMax: endTime.toISOString(),
+            singleEvents: true,
+            showDeleted: filter.includeCancelled === true,
+            orderBy: 'startTime',
+            maxResults,
+          });
+
+          return (response.data.items || [])
+            .map((item: any) => this.toCalendarEvent(item, calendarId))
+            .filter((event: CalendarEvent | null): event is CalendarEvent => event !== null);
+        })
+      );
+
+      return perCalendar
+        .flat()
+        .filter(event => !event.allDay || this.calendarConfig.includeAllDayEvents)
+        .filter(event => !event.declined || filter.includeDeclined !== false)
+        .filter(event => EventFilter.matchesEvent(event, filter.searchQuery))
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+        .slice(0, maxResults);
     } catch (error) {
       logger.error('❌ Failed to fetch upcoming events:', error);
       throw error;
     }
   }
 
+  /**
+   * Get pending reminders of calendar events, keyed by `<calendarId>\n<eventId>`
+   */
+  async getEventReminders(): Promise<Map<string, Job<ReminderJobData, ReminderJobResult>[]>> {
+    const reminders = new Map<string, Job<ReminderJobData, ReminderJobResult>[]>();
+
+    for (const job of await this.reminderQueue.getCalendarReminders()) {
+      const key = `${job.data.calendarEvent!.calendarId}\n${job.data.calendarEvent!.eventId}`;
+      reminders.set(key, [...(reminders.get(key) || []), job]);
+    }
+    return reminders;
+  }
+
+  /**
+   * Linked calendars are private to their owner, the configured ones are shared
+   */
+  private getVisibleCalendarIds(viewerId?: string): string[] {
+    return this.getMonitoredCalendarIds().filter(calendarId => {
+      const linked = this.linkedCalendars.get(calendarId);
+      return !linked || linked.userId === viewerId;
+    });
+  }
+
+  /**
+   * Get the calendars a user can see with their display names
+   */
+  getCalendars(viewerId?: string): { calendarId: string; name: string }[] {
+    return this.getVisibleCalendarIds(viewerId).map(calendarId => ({
+      calendarId,
+      name: this.getRule(calendarId).name || calendarId,
+    }));
+  }
+
+  /**
+   * Get the advance notices used for events of a calendar, in minutes (events with alarms of
+   * their own use those unless the calendar rule sets notices)
+   */
+  getAdvanceNoticeMinutes(calendarId: string): number[] {
+    const notices = this.getRule(calendarId).advanceNoticeMinutes || this.preferences.advanceNoticeMinutes;
+    return [...new Set(notices)].sort((a, b) => b - a);
+  }
+
   /**
    * Get service status
    */
-  getStatus(): { isRunning: boolean; lastSync?: Date } {
-    return {
+  async getStatus(): Promise<CalendarSyncStatus> {
+    const reminders = await this.getEventReminders();
+
+    const status: CalendarSyncStatus = {
       isRunning: this.isRunning,
+      eventsCount: reminders.size,
+      remindersScheduled: [...reminders.values()].reduce((total, jobs) => total + jobs.length, 0),
+      errors: [...this.recentErrors],
     };
+    if (this.lastSync) {
+      status.lastSync = this.lastSync;
+    }
+    if (this.nextSync) {
+      status.nextSync = this.nextSync;
+    }
+    return status;
   }
 }
@@ -0,0 +1,126 @@
+import { logger } from '../utils/logger';
+
+const DEVICE_CODE_URL = 'https://oauth2.googleapis.com/device/code';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const CALENDAR_READ_SCOPE = 'https://www.googleapis.com/auth/calendar.readonly';
+export const CALENDAR_EVENTS_SCOPE = 'https://www.googleapis.com/auth/calendar.events';
+
+// Code the user enters on Google's verification page
+export interface DeviceCode {
+  deviceCode: string;        // Secret we poll the token endpoint with
+  userCode: string;          // Code shown to the user
+  verificationUrl: string;   // Where the user enters the code
+  expiresAt: Date;           // When the code stops working
+  intervalSeconds: number;   // Minimum time between polls
+}
+
+// Tokens granted once the user approved a code
+export interface DeviceTokens {
+  refreshToken: string;
+  scopes: string[];          // Scopes the user granted, they may leave some out
+}
+
+/**
+ * OAuth 2.0 device authorization grant against Google ("enter this code on google.com/device"),
+ * used to link Discord users' own calendars without a browser redirect
+ */
+export class GoogleDeviceAuth {
+  private clientId: string;
+  private clientSecret: string;
+
+  constructor(clientId: string, clientSecret: string) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+  }
+
+  /**
+   * Ask Google for a new user code with read access to calendars and write access to events
+   * (used to add ?remind reminders to the calendar)
+   */
+  async requestDeviceCode(): Promise<DeviceCode> {
+    const data = await this.post(DEVICE_CODE_URL, {
+      client_id: this.clientId,
+      scope: `${CALENDAR_READ_SCOPE} ${CALENDAR_EVENTS_SCOPE}`,
+    });
+    if (data.error) {
+      throw new Error(`Google refused the device code request: ${data.error_description || data.error}`);
+    }
+
+    return {
+      deviceCode: data.device_code,
+      userCode: data.user_code,
+      verificationUrl: data.verification_url || data.verification_uri,
+      expiresAt: new Date(Date.now() + Number(data.expires_in) * 1000),
+      intervalSeconds: Number(data.interval) || 5,
+    };
+  }
+
+  /**
+   * Poll until the user approved the code and return the refresh token with the granted scopes.
+   * Throws when the user denied access or the code expired.
+   */
+  async waitForTokens(code: DeviceCode): Promise<DeviceTokens> {
+    let intervalMs = code.intervalSeconds * 1000;
+
+    while (Date.now() < code.expiresAt.getTime()) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+
+      const data = await this.post(TOKEN_URL, {
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        device_code: code.deviceCode,
+        grant_type: DEVICE_GRANT_TYPE,
+      });
+
+      switch (data.error) {
+        case undefined:
+          if (!data.refresh_token) {
+            throw new Error('Google did not return a refresh token');
+          }
+          return { refreshToken: data.refresh_token, scopes: (data.scope || '').split(' ').filter(Boolean) };
+        case 'authorization_pending':
+          continue;
+        case 'slow_down':
+          intervalMs += 5000;
+          continue;
+        case 'access_denied':
+          throw new Error('Access to the calendar was denied');
+        case 'expired_token':
+          throw new Error('The code expired before it was entered');
+        default:
+          throw new Error(`Google refused the token request: ${data.error_description || data.error}`);
+      }
+    }
+
+    throw new Error('The code expired before it was entered');
+  }
+
+  /**
+   * Revoke a refresh token (and every access token issued from it)
+   */
+  async revokeToken(refreshToken: string): Promise<boolean> {
+    try {
+      const response = await fetch(REVOKE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token: refreshToken }).toString(),
+      });
+      // 400 means the token was already revoked or expired
+      return response.ok || response.status === 400;
+    } catch (error) {
+      logger.error('❌ Failed to revoke Google token:', error);
+      return false;
+    }
+  }
+
+  private async post(url: string, params: Record<string, string>): Promise<any> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params).toString(),
+    });
+    return response.json();
+  }
+}
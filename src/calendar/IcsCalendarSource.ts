@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import { logger } from '../utils/logger';
+import { IcsCalendar, IcsParser } from '../utils/icsParser';
+import { CalendarSource, occurrenceToCalendarEvent } from './CalendarSource';
+import { CalendarEvent } from '../types/CalendarTypes';
+
+/**
+ * Calendar source reading an iCalendar feed from an http(s)/webcal URL or a local .ics file.
+ * The feed is only downloaded (or re-read) again when it changed.
+ */
+export class IcsCalendarSource implements CalendarSource {
+  readonly calendarId: string;
+  readonly name: string;
+  private location: string;
+  private defaultTimezone: string;
+  private calendar: IcsCalendar | null = null;
+  private etag: string | null = null;
+  private lastModified: string | null = null;
+  private fileModifiedAt: number | null = null;
+
+  constructor(calendarId: string, name: string, location: string, defaultTimezone: string) {
+    this.calendarId = calendarId;
+    this.name = name;
+    this.location = location;
+    this.defaultTimezone = defaultTimezone;
+  }
+
+  async listEvents(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const calendar = await this.load();
+
+    return IcsParser.expand(calendar, start, end).map(occurrence => occurrenceToCalendarEvent(occurrence, this));
+  }
+
+  private async load(): Promise<IcsCalendar> {
+    try {
+      return /^(https?|webcal):\/\//i.test(this.location) ? await this.download() : await this.readFile();
+    } catch (error) {
+      logger.error(`❌ Failed to load ICS feed of calendar ${this.calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the feed, sending the last ETag / Last-Modified so unchanged feeds answer 304
+   */
+  private async download(): Promise<IcsCalendar> {
+    const headers: Record<string, string> = {};
+    if (this.calendar && this.etag) {
+      headers['If-None-Match'] = this.etag;
+    }
+    if (this.calendar && this.lastModified) {
+      headers['If-Modified-Since'] = this.lastModified;
+    }
+
+    const response = await fetch(this.location.replace(/^webcal:/i, 'https:'), { headers });
+    if (response.status === 304 && this.calendar) {
+      return this.calendar;
+    }
+    if (!response.ok) {
+      throw new Error(`ICS feed answered ${response.status} ${response.statusText}`);
+    }
+
+    this.calendar = IcsParser.parse(await response.text(), this.defaultTimezone);
+    this.etag = response.headers.get('etag');
+    this.lastModified = response.headers.get('last-modified');
+    logger.info(`📥 Loaded ICS feed of calendar ${this.calendarId} (${this.calendar.events.length} events)`);
+    return this.calendar;
+  }
+
+  private async readFile(): Promise<IcsCalendar> {
+    const { mtimeMs } = await fs.stat(this.location);
+    if (this.calendar && this.fileModifiedAt === mtimeMs) {
+      return this.calendar;
+    }
+
+    this.calendar = IcsParser.parse(await fs.readFile(this.location, 'utf8'), this.defaultTimezone);
+    this.fileModifiedAt = mtimeMs;
+    logger.info(`📥 Loaded ICS file of calendar ${this.calendarId} (${this.calendar.events.length} events)`);
+    return this.calendar;
+  }
+}
@@ -1,18 +1,59 @@
 import { z } from 'zod';
+import moment from 'moment-timezone';
+import { EscalationPolicy } from '../types/ReminderTypes';
+import {
+  CalDavAccountConfig,
+  CalendarConfig,
+  CalendarEventFilter,
+  CalendarReminderPreferences,
+  CalendarRule,
+  IcsFeedConfig,
+} from '../types/CalendarTypes';
+
+// Per-calendar rules, given as a JSON array in CALENDAR_RULES
+const CalendarRuleSchema = z.object({
+  calendarId: z.string().min(1),
+  name: z.string().optional(),
+  advanceNoticeMinutes: z.array(z.number().min(0).max(10080)).min(1).optional(),
+  ttsVoice: z.string().optional(),
+  filter: z.object({
+    searchQuery: z.string().optional(),
+    includeDeclined: z.boolean().optional(),
+  }).optional(),
+  discordUserId: z.string().regex(/^\d+$/, 'Discord user IDs are numeric').optional(),
+  phoneNumber: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Phone numbers must be in E.164 format').optional(),
+});
+
+// ICS/iCal feeds, given as a JSON array in CALENDAR_ICS_FEEDS (url may also be a local .ics path)
+const IcsFeedSchema = CalendarRuleSchema.omit({ calendarId: true }).extend({
+  name: z.string().min(1),
+  url: z.string().min(1),
+});
+
+// CalDAV accounts, given as a JSON array in CALENDAR_CALDAV_ACCOUNTS
+const CalDavAccountSchema = CalendarRuleSchema.omit({ calendarId: true }).extend({
+  name: z.string().min(1),
+  url: z.string().url('Invalid CalDAV URL'),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  calendars: z.array(z.string().min(1)).optional(),
+});
 
 const ConfigSchema = z.object({
   // Discord Configuration
   discordToken: z.string().min(1, 'Discord token is required'),
   discordClientId: z.string().min(1, 'Discord client ID is required'),
   discordGuildId: z.string().optional(),
+  prefixCommandsEnabled: z.boolean().default(true),
 
   // Twilio Configuration
   twilioAccountSid: z.string().min(1, 'Twilio account SID is required'),
   twilioAuthToken: z.string().min(1, 'Twilio auth token is required'),
   twilioPhoneNumber: z.string().regex(/^\+1\d{10}$/, 'Invalid Twilio phone number format'),
 
-  // Target Phone Number
+  // Target Phone Number (used for users without a verified number of their own)
   targetPhoneNumber: z.string().regex(/^\+\d{1,3}\d{6,14}$/, 'Invalid international phone number format'),
+  requireVerifiedPhone: z.boolean().default(false),
 
   // Redis Configuration
   redisUrl: z.string().optional(),
@@ -21,16 +62,39 @@ const ConfigSchema = z.object({
   redisPassword: z.string().optional(),
   redisDb: z.number().default(0),
 
+  // Reminder history (SQLite file, kept apart from Redis)
+  reminderDbPath: z.string().min(1).default('data/reminders.db'),
+
   // Application Configuration
   nodeEnv: z.enum(['development', 'production', 'test']).default('development'),
   logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   port: z.number().default(3000),
+  baseUrl: z.string().url('Invalid base URL').optional(),
+  twilioWebhookValidation: z.boolean().default(true),
 
   // Reminder Configuration
   defaultTtsVoice: z.string().default('alice'),
   defaultCallDuration: z.number().min(10).max(60).default(20),
   maxRemindersPerUser: z.number().min(1).max(1000).default(50),
   maxReminderDelayDays: z.number().min(1).max(365).default(30),
+  ivrSnoozeMinutes: z.number().min(1).max(1440).default(10),
+  minRecurrenceIntervalMinutes: z.number().min(1).max(1440).default(15),
+  defaultTimezone: z.string().refine(zone => moment.tz.zone(zone) !== null, 'Invalid IANA timezone'),
+  adminUserIds: z.array(z.string().regex(/^\d+$/, 'Discord user IDs are numeric')).default([]),
+
+  // Rate Limits (sliding windows, stored in Redis)
+  reminderCreationLimit: z.number().min(1).max(1000).default(20),
+  reminderCreationWindowMinutes: z.number().min(1).max(1440).default(60),
+  callLimitPerUser: z.number().min(1).max(1000).default(10),
+  callLimitPerNumber: z.number().min(1).max(1000).default(10),
+  callLimitWindowMinutes: z.number().min(1).max(1440).default(60),
+
+  // Escalation Configuration (defaults for unanswered reminder calls)
+  escalationMaxRedials: z.number().min(0).max(10).default(2),
+  escalationRedialSpacingMinutes: z.number().min(1).max(120).default(5),
+  escalationSmsFallback: z.boolean().default(true),
+  escalationDiscordFallback: z.boolean().default(true),
+  twilioMachineDetection: z.boolean().default(true),
 
   // Google Calendar Configuration
   googleCalendarEnabled: z.boolean().default(false),
@@ -39,6 +103,29 @@ const ConfigSchema = z.object({
   calendarSyncIntervalMinutes: z.number().min(1).max(60).default(5),
   calendarReminderAdvanceMinutes: z.number().min(1).max(1440).default(10),
   calendarMaxEventsToProcess: z.number().min(1).max(1000).default(50),
+  googleCalendarPushEnabled: z.boolean().default(false),
+  calendarAdvanceNoticeMinutes: z.array(z.number().min(0).max(10080)).min(1).optional(),
+  calendarRemindersEnabled: z.boolean().default(true),
+  calendarTtsVoice: z.string().optional(),
+  calendarIncludeLocation: z.boolean().default(true),
+  calendarIncludeDescription: z.boolean().default(true),
+  calendarIncludeAttendees: z.boolean().default(true),
+  calendarIncludeAllDayEvents: z.boolean().default(false),
+  calendarIncludeRecurringEvents: z.boolean().default(true),
+  calendarIncludeDeclinedEvents: z.boolean().default(false),
+  calendarCustomMessage: z.string().optional(),
+  calendarRules: z.array(CalendarRuleSchema).default([]),
+  calendarIcsFeeds: z.array(IcsFeedSchema)
+    .refine(feeds => new Set(feeds.map(feed => feed.name)).size === feeds.length, 'ICS feed names must be unique')
+    .default([]),
+  calendarCalDavAccounts: z.array(CalDavAccountSchema)
+    .refine(accounts => new Set(accounts.map(account => account.name)).size === accounts.length, 'CalDAV account names must be unique')
+    .default([]),
+
+  // Per-user calendar linking (OAuth device flow)
+  googleOAuthClientId: z.string().optional(),
+  googleOAuthClientSecret: z.string().optional(),
+  calendarTokenEncryptionKey: z.string().min(16, 'Calendar token encryption key must be at least 16 characters').optional(),
 });
 
 export type ConfigType = z.infer<typeof ConfigSchema>;
@@ -55,12 +142,14 @@ export class Config {
       discordToken: process.env.DISCORD_TOKEN,
       discordClientId: process.env.DISCORD_CLIENT_ID,
       discordGuildId: process.env.DISCORD_GUILD_ID,
+      prefixCommandsEnabled: process.env.PREFIX_COMMANDS_ENABLED !== 'false',
 
       twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
       twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
       twilioPhoneNumber: process.env.TWILIO_PHONE_NUMBER,
 
       targetPhoneNumber: process.env.TARGET_PHONE_NUMBER,
+      requireVerifiedPhone: process.env.REQUIRE_VERIFIED_PHONE === 'true',
 
       redisUrl: process.env.REDIS_URL,
       redisHost: process.env.REDIS_HOST,
@@ -68,14 +157,36 @@ export class Config {
       redisPassword: process.env.REDIS_PASSWORD,
       redisDb: parseInt(process.env.REDIS_DB || '0', 10),
 
+      reminderDbPath: process.env.REMINDER_DB_PATH || undefined,
+
       nodeEnv: process.env.NODE_ENV as 'development' | 'production' | 'test',
       logLevel: process.env.LOG_LEVEL as 'error' | 'warn' | 'info' | 'debug',
       port: parseInt(process.env.PORT || '3000', 10),
+      baseUrl: process.env.BASE_URL || undefined,
+      twilioWebhookValidation: process.env.TWILIO_WEBHOOK_VALIDATION !== 'false',
 
       defaultTtsVoice: process.env.DEFAULT_TTS_VOICE,
       defaultCallDuration: parseInt(process.env.DEFAULT_CALL_DURATION || '20', 10),
       maxRemindersPerUser: parseInt(process.env.MAX_REMINDERS_PER_USER || '50', 10),
       maxReminderDelayDays: parseInt(process.env.MAX_REMINDER_DELAY_DAYS || '30', 10),
+      ivrSnoozeMinutes: parseInt(process.env.IVR_SNOOZE_MINUTES || '10', 10),
+      minRecurrenceIntervalMinutes: parseInt(process.env.MIN_RECURRENCE_INTERVAL_MINUTES || '15', 10),
+      defaultTimezone: process.env.DEFAULT_TIMEZONE || moment.tz.guess(),
+      adminUserIds: process.env.ADMIN_USER_IDS
+        ? process.env.ADMIN_USER_IDS.split(',').map(userId => userId.trim()).filter(Boolean)
+        : undefined,
+
+      reminderCreationLimit: parseInt(process.env.REMINDER_CREATION_LIMIT || '20', 10),
+      reminderCreationWindowMinutes: parseInt(process.env.REMINDER_CREATION_WINDOW_MINUTES || '60', 10),
+      callLimitPerUser: parseInt(process.env.CALL_LIMIT_PER_USER || '10', 10),
+      callLimitPerNumber: parseInt(process.env.CALL_LIMIT_PER_NUMBER || '10', 10),
+      callLimitWindowMinutes: parseInt(process.env.CALL_LIMIT_WINDOW_MINUTES || '60', 10),
+
+      escalationMaxRedials: parseInt(process.env.ESCALATION_MAX_REDIALS || '2', 10),
+      escalationRedialSpacingMinutes: parseInt(process.env.ESCALATION_REDIAL_SPACING_MINUTES || '5', 10),
+      escalationSmsFallback: process.env.ESCALATION_SMS_FALLBACK !== 'false',
+      escalationDiscordFallback: process.env.ESCALATION_DISCORD_FALLBACK !== 'false',
+      twilioMachineDetection: process.env.TWILIO_MACHINE_DETECTION !== 'false',
 
       googleCalendarEnabled: process.env.GOOGLE_CALENDAR_ENABLED === 'true',
       googleServiceAccountKeyPath: process.env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH,
@@ -83,6 +194,26 @@ export class Config {
       calendarSyncIntervalMinutes: parseInt(process.env.CALENDAR_SYNC_INTERVAL_MINUTES || '5', 10),
       calendarReminderAdvanceMinutes: parseInt(process.env.CALENDAR_REMINDER_ADVANCE_MINUTES || '10', 10),
       calendarMaxEventsToProcess: parseInt(process.env.CALENDAR_MAX_EVENTS_TO_PROCESS || '50', 10),
+      googleCalendarPushEnabled: process.env.GOOGLE_CALENDAR_PUSH_ENABLED === 'true',
+      calendarAdvanceNoticeMinutes: process.env.CALENDAR_ADVANCE_NOTICE_MINUTES
+        ? process.env.CALENDAR_ADVANCE_NOTICE_MINUTES.split(',').map(minutes => parseInt(minutes.trim(), 10))
+        : undefined,
+      calendarRemindersEnabled: process.env.CALENDAR_REMINDERS_ENABLED !== 'false',
+      calendarTtsVoice: process.env.CALENDAR_TTS_VOICE || undefined,
+      calendarIncludeLocation: process.env.CALENDAR_INCLUDE_LOCATION !== 'false',
+      calendarIncludeDescription: process.env.CALENDAR_INCLUDE_DESCRIPTION !== 'false',
+      calendarIncludeAttendees: process.env.CALENDAR_INCLUDE_ATTENDEES !== 'false',
+      calendarIncludeAllDayEvents: process.env.CALENDAR_INCLUDE_ALL_DAY_EVENTS === 'true',
+      calendarIncludeRecurringEvents: process.env.CALENDAR_INCLUDE_RECURRING_EVENTS !== 'false',
+      calendarIncludeDeclinedEvents: process.env.CALENDAR_INCLUDE_DECLINED_EVENTS === 'true',
+      calendarCustomMessage: process.env.CALENDAR_CUSTOM_MESSAGE || undefined,
+      calendarRules: this.parseJsonEnv('CALENDAR_RULES'),
+      calendarIcsFeeds: this.parseJsonEnv('CALENDAR_ICS_FEEDS'),
+      calendarCalDavAccounts: this.parseJsonEnv('CALENDAR_CALDAV_ACCOUNTS'),
+
+      googleOAuthClientId: process.env.GOOGLE_OAUTH_CLIENT_ID || undefined,
+      googleOAuthClientSecret: process.env.GOOGLE_OAUTH_CLIENT_SECRET || undefined,
+      calendarTokenEncryptionKey: process.env.CALENDAR_TOKEN_ENCRYPTION_KEY || undefined,
     };
 
     try {
@@ -96,31 +227,71 @@ export class Config {
     }
   }
 
+  private parseJsonEnv(name: string): unknown {
+    const value = process.env[name];
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`Configuration validation failed. ${name} is not valid JSON`);
+    }
+  }
+
   // Getters for all configuration values
   get discordToken(): string { return this.config.discordToken; }
   get discordClientId(): string { return this.config.discordClientId; }
   get discordGuildId(): string | undefined { return this.config.discordGuildId; }
+  get prefixCommandsEnabled(): boolean { return this.config.prefixCommandsEnabled; }
   
   get twilioAccountSid(): string { return this.config.twilioAccountSid; }
   get twilioAuthToken(): string { return this.config.twilioAuthToken; }
   get twilioPhoneNumber(): string { return this.config.twilioPhoneNumber; }
   
   get targetPhoneNumber(): string { return this.config.targetPhoneNumber; }
+  get requireVerifiedPhone(): boolean { return this.config.requireVerifiedPhone; }
   
   get redisUrl(): string | undefined { return this.config.redisUrl; }
   get redisHost(): string { return this.config.redisHost; }
   get redisPort(): number { return this.config.redisPort; }
   get redisPassword(): string | undefined { return this.config.redisPassword; }
   get redisDb(): number { return this.config.redisDb; }
+  get reminderDbPath(): string { return this.config.reminderDbPath; }
   
   get nodeEnv(): string { return this.config.nodeEnv; }
   get logLevel(): string { return this.config.logLevel; }
   get port(): number { return this.config.port; }
+  get baseUrl(): string { return (this.config.baseUrl || `http://localhost:${this.config.port}`).replace(/\/+$/, ''); }
+  get twilioWebhookValidation(): boolean { return this.config.twilioWebhookValidation; }
   
   get defaultTtsVoice(): string { return this.config.defaultTtsVoice; }
   get defaultCallDuration(): number { return this.config.defaultCallDuration; }
   get maxRemindersPerUser(): number { return this.config.maxRemindersPerUser; }
   get maxReminderDelayDays(): number { return this.config.maxReminderDelayDays; }
+  get ivrSnoozeMinutes(): number { return this.config.ivrSnoozeMinutes; }
+  get minRecurrenceIntervalMinutes(): number { return this.config.minRecurrenceIntervalMinutes; }
+  get defaultTimezone(): string { return this.config.defaultTimezone; }
+  get adminUserIds(): string[] { return this.config.adminUserIds; }
+
+  // Bot admins can inspect and replay everyone's failed reminders
+  isAdmin(userId: string): boolean {
+    return this.config.adminUserIds.includes(userId);
+  }
+
+  get reminderCreationLimit(): number { return this.config.reminderCreationLimit; }
+  get reminderCreationWindowMinutes(): number { return this.config.reminderCreationWindowMinutes; }
+  get callLimitPerUser(): number { return this.config.callLimitPerUser; }
+  get callLimitPerNumber(): number { return this.config.callLimitPerNumber; }
+  get callLimitWindowMinutes(): number { return this.config.callLimitWindowMinutes; }
+
+  // Escalation Configuration
+  get escalationMaxRedials(): number { return this.config.escalationMaxRedials; }
+  get escalationRedialSpacingMinutes(): number { return this.config.escalationRedialSpacingMinutes; }
+  get escalationSmsFallback(): boolean { return this.config.escalationSmsFallback; }
+  get escalationDiscordFallback(): boolean { return this.config.escalationDiscordFallback; }
+  get twilioMachineDetection(): boolean { return this.config.twilioMachineDetection; }
 
   // Google Calendar Configuration
   get googleCalendarEnabled(): boolean { return this.config.googleCalendarEnabled; }
@@ -129,6 +300,122 @@ export class Config {
   get calendarSyncIntervalMinutes(): number { return this.config.calendarSyncIntervalMinutes; }
   get calendarReminderAdvanceMinutes(): number { return this.config.calendarReminderAdvanceMinutes; }
   get calendarMaxEventsToProcess(): number { return this.config.calendarMaxEventsToProcess; }
+  get googleCalendarPushEnabled(): boolean { return this.config.googleCalendarPushEnabled; }
+  get googleOAuthClientId(): string | undefined { return this.config.googleOAuthClientId; }
+  get googleOAuthClientSecret(): string | undefined { return this.config.googleOAuthClientSecret; }
+  get calendarTokenEncryptionKey(): string | undefined { return this.config.calendarTokenEncryptionKey; }
+
+  // Users can link their own calendars once OAuth and token encryption are configured
+  get calendarLinkingEnabled(): boolean {
+    return !!(this.config.googleOAuthClientId && this.config.googleOAuthClientSecret && this.config.calendarTokenEncryptionKey);
+  }
+
+  // Calendar sync settings
+  getCalendarConfig(): CalendarConfig {
+    return {
+      enabled: this.config.googleCalendarEnabled,
+      syncIntervalMinutes: this.config.calendarSyncIntervalMinutes,
+      reminderAdvanceMinutes: this.config.calendarReminderAdvanceMinutes,
+      maxEventsToProcess: this.config.calendarMaxEventsToProcess,
+      calendars: this.getCalendarRules().map(rule => rule.calendarId),
+      includeAllDayEvents: this.config.calendarIncludeAllDayEvents,
+      includeRecurringEvents: this.config.calendarIncludeRecurringEvents,
+    };
+  }
+
+  // Monitored calendars with their own rules (GOOGLE_CALENDAR_ID alone when CALENDAR_RULES is unset)
+  getCalendarRules(): CalendarRule[] {
+    if (this.config.calendarRules.length === 0) {
+      return [{ calendarId: this.config.googleCalendarId }];
+    }
+    return this.config.calendarRules.map(fields => this.toCalendarRule(fields));
+  }
+
+  // ICS feeds polled alongside Google Calendar, with their rules (calendar ID `ics:<name>`)
+  getIcsFeeds(): IcsFeedConfig[] {
+    return this.config.calendarIcsFeeds.map(({ url, ...fields }) => ({
+      url,
+      rule: this.toCalendarRule({ ...fields, calendarId: `ics:${fields.name}` }),
+    }));
+  }
+
+  // CalDAV accounts whose calendars are discovered at startup (calendar IDs `caldav:<name>/<calendar>`)
+  getCalDavAccounts(): CalDavAccountConfig[] {
+    return this.config.calendarCalDavAccounts.map(({ url, username, password, calendars, ...fields }) => {
+      const account: CalDavAccountConfig = {
+        name: fields.name,
+        url,
+        rule: this.toCalendarRule({ ...fields, calendarId: `caldav:${fields.name}` }),
+      };
+      if (username) {
+        account.username = username;
+      }
+      if (password) {
+        account.password = password;
+      }
+      if (calendars) {
+        account.calendars = calendars;
+      }
+      return account;
+    });
+  }
+
+  private toCalendarRule({ filter, ...fields }: z.infer<typeof CalendarRuleSchema>): CalendarRule {
+    const rule: CalendarRule = { calendarId: fields.calendarId };
+    for (const key of ['name', 'ttsVoice', 'discordUserId', 'phoneNumber'] as const) {
+      if (fields[key]) {
+        rule[key] = fields[key];
+      }
+    }
+    if (fields.advanceNoticeMinutes) {
+      rule.advanceNoticeMinutes = fields.advanceNoticeMinutes;
+    }
+    if (filter) {
+      rule.filter = {};
+      if (filter.searchQuery) {
+        rule.filter.searchQuery = filter.searchQuery;
+      }
+      if (filter.includeDeclined !== undefined) {
+        rule.filter.includeDeclined = filter.includeDeclined;
+      }
+    }
+    return rule;
+  }
+
+  // How calendar reminders are scheduled and worded
+  getCalendarReminderPreferences(): CalendarReminderPreferences {
+    const preferences: CalendarReminderPreferences = {
+      enabled: this.config.calendarRemindersEnabled,
+      advanceNoticeMinutes: this.config.calendarAdvanceNoticeMinutes || [this.config.calendarReminderAdvanceMinutes],
+      ttsVoice: this.config.calendarTtsVoice || this.config.defaultTtsVoice,
+      includeLocation: this.config.calendarIncludeLocation,
+      includeDescription: this.config.calendarIncludeDescription,
+      includeAttendees: this.config.calendarIncludeAttendees,
+    };
+    if (this.config.calendarCustomMessage) {
+      preferences.customMessage = this.config.calendarCustomMessage;
+    }
+    return preferences;
+  }
+
+  // Which synced events get reminders
+  getCalendarEventFilter(): CalendarEventFilter {
+    return {
+      includeDeclined: this.config.calendarIncludeDeclinedEvents,
+      includeCancelled: false,
+      maxResults: this.config.calendarMaxEventsToProcess,
+    };
+  }
+
+  // Default escalation policy for reminders that do not override it
+  getDefaultEscalationPolicy(): EscalationPolicy {
+    return {
+      maxRedials: this.config.escalationMaxRedials,
+      redialSpacingMs: this.config.escalationRedialSpacingMinutes * 60 * 1000,
+      smsFallback: this.config.escalationSmsFallback,
+      discordFallback: this.config.escalationDiscordFallback,
+    };
+  }
 
   // Helper methods
   get isDevelopment(): boolean { return this.config.nodeEnv === 'development'; }
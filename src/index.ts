@@ -5,6 +5,23 @@ import { RedisConnection } from './queue/RedisConnection';
 import { ReminderQueue } from './queue/ReminderQueue';
 import { ReminderWorker } from './worker/ReminderWorker';
 import { GoogleCalendarService } from './calendar/GoogleCalendarService';
+import { CalendarWebhookHandler } from './calendar/CalendarWebhookHandler';
+import { AgendaService } from './calendar/AgendaService';
+import { CallOutcomeStore } from './store/CallOutcomeStore';
+import { WebhookServer } from './server/WebhookServer';
+import { TwilioWebhookHandler } from './twilio/TwilioWebhookHandler';
+import { TwilioService } from './twilio/TwilioService';
+import { DeliveryLogStore } from './store/DeliveryLogStore';
+import { PhoneRegistry } from './store/PhoneRegistry';
+import { TimezoneStore } from './store/TimezoneStore';
+import { RateLimiter } from './store/RateLimiter';
+import { DeadLetterStore } from './store/DeadLetterStore';
+import { SqliteReminderRepository } from './store/SqliteReminderRepository';
+import { CalendarSyncStore } from './store/CalendarSyncStore';
+import { CalendarLinkStore } from './store/CalendarLinkStore';
+import { GoogleDeviceAuth } from './calendar/GoogleDeviceAuth';
+import { TokenCipher } from './utils/tokenCipher';
+import { EscalationManager } from './worker/EscalationManager';
 import { Config } from './config/Config';
 
 // Load environment variables
@@ -23,19 +40,68 @@ async function main() {
     await redisConnection.connect();
     logger.info('✅ Redis connected');
 
+    // Reminder history lives outside Redis, BullMQ only runs the reminders
+    const reminderRepository = new SqliteReminderRepository(config.reminderDbPath);
+
     // Initialize reminder queue
-    const reminderQueue = new ReminderQueue(redisConnection);
+    const reminderQueue = new ReminderQueue(redisConnection, reminderRepository);
+    const callOutcomeStore = new CallOutcomeStore(redisConnection);
+    const twilioService = new TwilioService(config);
+    const deliveryLogStore = new DeliveryLogStore(redisConnection);
+    const phoneRegistry = new PhoneRegistry(redisConnection);
+    const timezoneStore = new TimezoneStore(redisConnection, config.defaultTimezone);
+    const rateLimiter = new RateLimiter(redisConnection, config);
+    const deadLetterStore = new DeadLetterStore(redisConnection);
     
     // Initialize reminder worker with the queue
-    const reminderWorker = new ReminderWorker(redisConnection, reminderQueue);
+    const reminderWorker = new ReminderWorker(
+      redisConnection,
+      reminderQueue,
+      callOutcomeStore,
+      twilioService,
+      phoneRegistry,
+      rateLimiter,
+      deadLetterStore,
+      reminderRepository
+    );
     await reminderWorker.start();
     logger.info('✅ Reminder worker started');
 
-    // Initialize Google Calendar service (if enabled)
+    // Initialize webhook server for Twilio status and keypress callbacks
+    const webhookServer = new WebhookServer(config);
+    const twilioWebhookHandler = new TwilioWebhookHandler(config, callOutcomeStore, reminderQueue, twilioService, rateLimiter);
+    twilioWebhookHandler.register(webhookServer);
+    await webhookServer.start();
+    logger.info('✅ Webhook server started');
+
+    // Escalate unanswered reminder calls (redial, SMS, Discord DM)
+    const escalationManager = new EscalationManager(config, reminderQueue, twilioService, deliveryLogStore, reminderRepository);
+    twilioWebhookHandler.onCallStatus((outcome) => escalationManager.handleCallOutcome(outcome));
+    twilioWebhookHandler.onReminderResponse((reminderId, reminder, response) =>
+      escalationManager.handleReminderResponse(reminderId, reminder, response)
+    );
+
+    // Initialize calendar service (if Google Calendar is enabled or ICS feeds / CalDAV accounts are configured)
     let calendarService: GoogleCalendarService | null = null;
-    if (config.googleCalendarEnabled) {
+    if (config.googleCalendarEnabled || config.getIcsFeeds().length > 0 || config.getCalDavAccounts().length > 0) {
       try {
-        calendarService = new GoogleCalendarService(config, reminderQueue);
+        // Users can link their own calendars when an OAuth client and an encryption key are configured
+        const calendarLinkStore = config.calendarLinkingEnabled
+          ? new CalendarLinkStore(redisConnection, new TokenCipher(config.calendarTokenEncryptionKey!))
+          : null;
+        const deviceAuth = config.calendarLinkingEnabled
+          ? new GoogleDeviceAuth(config.googleOAuthClientId!, config.googleOAuthClientSecret!)
+          : null;
+        calendarService = new GoogleCalendarService(
+          config,
+          reminderQueue,
+          new CalendarSyncStore(redisConnection),
+          calendarLinkStore,
+          deviceAuth
+        );
+        if (config.googleCalendarPushEnabled) {
+          new CalendarWebhookHandler(calendarService).register(webhookServer);
+        }
         await calendarService.start();
         logger.info('✅ Google Calendar service started');
       } catch (error) {
@@ -46,21 +112,47 @@ async function main() {
       logger.info('ℹ️ Google Calendar integration is disabled');
     }
 
+    // Daily agenda calls read the calendar service's events and the user's reminders when they are placed
+    const agendaService = new AgendaService(reminderQueue, calendarService);
+    reminderWorker.setAgendaService(agendaService);
+
     // Initialize Discord bot
-    const discordBot = new DiscordBot(config, reminderQueue);
+    const discordBot = new DiscordBot(
+      config,
+      reminderQueue,
+      deliveryLogStore,
+      phoneRegistry,
+      twilioService,
+      timezoneStore,
+      rateLimiter,
+      calendarService,
+      agendaService,
+      deadLetterStore,
+      reminderRepository
+    );
     await discordBot.start();
     logger.info('✅ Discord bot started');
 
+    // Report keypress responses back to the channel that created the reminder
+    twilioWebhookHandler.onReminderResponse((_reminderId, reminder, response) =>
+      discordBot.notifyReminderResponse(reminder, response)
+    );
+    escalationManager.setDiscordFallback((reminder, record) =>
+      discordBot.sendUndeliveredReminderDm(reminder, record)
+    );
+
     // Graceful shutdown handling
     process.on('SIGINT', async () => {
       logger.info('🛑 Shutting down gracefully...');
       
       await discordBot.stop();
+      await webhookServer.stop();
       await reminderWorker.stop();
       if (calendarService) {
         await calendarService.stop();
       }
       await redisConnection.disconnect();
+      await reminderRepository.close();
       
       logger.info('✅ Shutdown complete');
       process.exit(0);
@@ -70,18 +162,20 @@ async function main() {
       logger.info('🛑 Received SIGTERM, shutting down...');
       
       await discordBot.stop();
+      await webhookServer.stop();
       await reminderWorker.stop();
       if (calendarService) {
         await calendarService.stop();
       }
       await redisConnection.disconnect();
+      await reminderRepository.close();
       
       logger.info('✅ Shutdown complete');
       process.exit(0);
     });
 
     logger.info('🎉 Discord Reminder Bot is now running!');
-    logger.info(`📱 Target phone: ${config.targetPhoneNumber}`);
+    logger.info(`📱 Default target phone: ${config.targetPhoneNumber}${config.requireVerifiedPhone ? ' (verified numbers required)' : ''}`);
     logger.info(`🔔 Use ?remind <message> -t <delay> to set reminders`);
     if (config.googleCalendarEnabled) {
       logger.info(`📅 Google Calendar integration: ENABLED (${config.calendarReminderAdvanceMinutes} min advance)`);
@@ -1,14 +1,44 @@
 import { Queue, Job } from 'bullmq';
 import { RedisConnection } from './RedisConnection';
+import { ReminderRepository, getCallRecordId, getScheduleRecordId } from '../store/ReminderRepository';
 import { logger } from '../utils/logger';
-import { ReminderJobData, ReminderJobResult } from '../types/ReminderTypes';
+import {
+  EscalationPolicy,
+  RecurrenceParseResult,
+  ReminderAgenda,
+  ReminderCalendarCopy,
+  ReminderCalendarEvent,
+  ReminderEdit,
+  ReminderJobData,
+  ReminderJobResult,
+  ReminderResponse,
+} from '../types/ReminderTypes';
+
+const SKIPPED_OCCURRENCES_KEY = 'reminders:skipped-occurrences';
+const CALENDAR_CANCELLED_KEY_PREFIX = 'reminders:calendar-cancelled:';
+const CALENDAR_CALLED_KEY_PREFIX = 'reminders:calendar-called:';
+// Calendar markers outlive the event start by this much, in case its reminders are synced late
+const CALENDAR_MARKER_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Get when a reminder is due to fire. Occurrences of a series have no `scheduledFor`,
+ * they are queued with a delay relative to their creation.
+ */
+export function getReminderFireTime(job: Job<ReminderJobData, ReminderJobResult>): Date {
+  if (job.data.scheduledFor) {
+    return new Date(job.data.scheduledFor);
+  }
+  return new Date(job.timestamp + (job.opts.delay || 0));
+}
 
 export class ReminderQueue {
   private queue: Queue<ReminderJobData, ReminderJobResult>;
   private redisConnection: RedisConnection;
+  private reminderRepository: ReminderRepository;
 
-  constructor(redisConnection: RedisConnection) {
+  constructor(redisConnection: RedisConnection, reminderRepository: ReminderRepository) {
     this.redisConnection = redisConnection;
+    this.reminderRepository = reminderRepository;
     
     // Create the reminder queue
     this.queue = new Queue<ReminderJobData, ReminderJobResult>('reminders', {
@@ -37,9 +67,17 @@ export class ReminderQueue {
       ttsVoice?: string;
       audioFile?: string;
       priority?: number;
+      escalation?: EscalationPolicy;
+      deliveryAttempt?: number;
+      originalReminderId?: string;
+      jobId?: string;           // Deterministic ID, adding a job with an existing ID is a no-op
+      rescheduled?: boolean;    // The job ID belonged to a called or cancelled reminder, mark its record scheduled again
+      calendarEvent?: ReminderCalendarEvent;
+      phoneNumber?: string;
     }
   ): Promise<Job<ReminderJobData, ReminderJobResult>> {
     try {
+      const scheduledFor = new Date(Date.now() + delayMs).toISOString();
       const jobData: ReminderJobData = {
         message,
         userId,
@@ -48,6 +86,7 @@ export class ReminderQueue {
         ttsVoice: options?.ttsVoice || 'alice',
         priority: options?.priority || 0,
         createdAt: new Date().toISOString(),
+        scheduledFor,
       };
 
       // Only add audioFile if it's provided
@@ -55,17 +94,52 @@ export class ReminderQueue {
         jobData.audioFile = options.audioFile;
       }
 
+      if (options?.escalation) {
+        jobData.escalation = options.escalation;
+      }
+      if (options?.deliveryAttempt) {
+        jobData.deliveryAttempt = options.deliveryAttempt;
+      }
+      if (options?.originalReminderId) {
+        jobData.originalReminderId = options.originalReminderId;
+      }
+      if (options?.calendarEvent) {
+        jobData.calendarEvent = options.calendarEvent;
+      }
+      if (options?.phoneNumber) {
+        jobData.phoneNumber = options.phoneNumber;
+      }
+
       const job = await this.queue.add(
         'reminder',
         jobData,
         {
           delay: delayMs,
           priority: options?.priority || 0,
-          jobId: `remind-${messageId}-${Date.now()}`,
+          jobId: options?.jobId || `remind-${messageId}-${Date.now()}`,
         }
       );
 
-      logger.info(`📅 Scheduled reminder "${message}" for ${new Date(Date.now() + delayMs).toISOString()}`);
+      logger.info(`📅 Scheduled reminder "${message}" for ${scheduledFor}`);
+
+      // Redials are calls of the reminder they belong to, not reminders of their own
+      if (!jobData.originalReminderId) {
+        await this.reminderRepository.createReminder({
+          id: job.id as string,
+          userId,
+          channelId,
+          message,
+          kind: jobData.calendarEvent ? 'calendar' : 'once',
+          fireAt: scheduledFor,
+          createdAt: jobData.createdAt,
+        });
+
+        // Deterministic IDs are reused when a called reminder is scheduled again (a calendar event moved)
+        if (options?.jobId && options.rescheduled) {
+          await this.reminderRepository.updateReminder(options.jobId, { message, fireAt: scheduledFor });
+          await this.reminderRepository.setStatus(options.jobId, 'scheduled');
+        }
+      }
       
       return job;
     } catch (error) {
@@ -74,6 +148,119 @@ export class ReminderQueue {
     }
   }
 
+  /**
+   * Add a recurring reminder backed by a BullMQ repeatable job. Returns the first occurrence.
+   */
+  async addRecurringReminder(
+    message: string,
+    recurrence: RecurrenceParseResult,
+    userId: string,
+    channelId: string,
+    messageId: string,
+    options?: {
+      ttsVoice?: string;
+      priority?: number;
+      escalation?: EscalationPolicy;
+      agenda?: ReminderAgenda;
+    }
+  ): Promise<Job<ReminderJobData, ReminderJobResult>> {
+    try {
+      const seriesId = `series-${messageId}`;
+
+      const jobData: ReminderJobData = {
+        message,
+        userId,
+        channelId,
+        messageId,
+        ttsVoice: options?.ttsVoice || 'alice',
+        priority: options?.priority || 0,
+        createdAt: new Date().toISOString(),
+        recurrence: {
+          pattern: recurrence.pattern,
+          description: recurrence.description,
+          seriesId,
+        },
+      };
+
+      if (options?.escalation) {
+        jobData.escalation = options.escalation;
+      }
+      if (options?.agenda) {
+        jobData.agenda = options.agenda;
+      }
+
+      const repeat: { pattern: string; endDate?: Date; limit?: number; tz?: string } = { pattern: recurrence.pattern };
+      if (recurrence.timezone) {
+        repeat.tz = recurrence.timezone;
+        jobData.recurrence!.timezone = recurrence.timezone;
+      }
+      if (recurrence.endDate) {
+        repeat.endDate = recurrence.endDate;
+        jobData.recurrence!.endDate = recurrence.endDate.toISOString();
+      }
+      if (recurrence.limit) {
+        repeat.limit = recurrence.limit;
+        jobData.recurrence!.limit = recurrence.limit;
+      }
+
+      const job = await this.queue.add('reminder', jobData, {
+        repeat,
+        priority: options?.priority || 0,
+        jobId: seriesId,
+      });
+
+      logger.info(`🔁 Scheduled recurring reminder "${message}" (${recurrence.description}, cron "${recurrence.pattern}")`);
+
+      await this.reminderRepository.createReminder({
+        id: seriesId,
+        userId,
+        channelId,
+        message,
+        kind: jobData.agenda ? 'agenda' : 'recurring',
+        schedule: recurrence.description,
+        createdAt: jobData.createdAt,
+      });
+
+      return job;
+    } catch (error) {
+      logger.error('❌ Failed to add recurring reminder to queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Skip the pending occurrence of a recurring reminder without stopping the series
+   */
+  async skipOccurrence(jobId: string): Promise<boolean> {
+    try {
+      const job = await this.queue.getJob(jobId);
+      if (!job || !job.repeatJobKey) {
+        return false;
+      }
+
+      // Removing the delayed occurrence would break the repeat chain, so the worker skips it instead
+      await this.redisConnection.getClient().sadd(SKIPPED_OCCURRENCES_KEY, jobId);
+      logger.info(`⏭️ Marked occurrence ${jobId} as skipped`);
+      return true;
+    } catch (error) {
+      logger.error(`❌ Failed to skip occurrence ${jobId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether an occurrence was skipped, clearing the mark
+   */
+  async consumeSkippedOccurrence(jobId: string): Promise<boolean> {
+    try {
+      const removed = await this.redisConnection.getClient().srem(SKIPPED_OCCURRENCES_KEY, jobId);
+      return removed > 0;
+    } catch (error) {
+      logger.error(`❌ Failed to check skipped occurrence ${jobId}:`, error);
+      return false;
+    }
+  }
+
   async getReminder(jobId: string): Promise<Job<ReminderJobData, ReminderJobResult> | null> {
     try {
       const job = await this.queue.getJob(jobId);
@@ -84,12 +271,43 @@ export class ReminderQueue {
     }
   }
 
-  async cancelReminder(jobId: string): Promise<boolean> {
+  /**
+   * Get the user a reminder belongs to, from its stored history once BullMQ has trimmed the job
+   */
+  async getReminderOwner(jobId: string): Promise<string | null> {
+    const job = await this.getReminder(jobId);
+    if (job) {
+      return job.data.userId;
+    }
+    const record = await this.reminderRepository.getReminder(jobId);
+    return record ? record.userId : null;
+  }
+
+  /**
+   * Cancel a reminder, or stop the series of an occurrence. Calendar reminders cancelled by
+   * their owner are remembered until the event starts, so calendar syncs do not schedule them again.
+   */
+  async cancelReminder(jobId: string, cancelledByUser = false): Promise<boolean> {
     try {
       const job = await this.queue.getJob(jobId);
       if (job) {
-        await job.remove();
+        if (cancelledByUser && job.data.calendarEvent) {
+          await this.setCalendarMarker(CALENDAR_CANCELLED_KEY_PREFIX, jobId, job.data.calendarEvent.startTime);
+        }
+
+        // Stop the whole series for occurrences of a recurring reminder
+        if (job.repeatJobKey) {
+          await this.queue.removeRepeatableByKey(job.repeatJobKey);
+          await this.redisConnection.getClient().srem(SKIPPED_OCCURRENCES_KEY, jobId);
+          logger.info(`❌ Stopped recurring reminder series ${job.data.recurrence?.seriesId || job.repeatJobKey}`);
+        }
+
+        if (await this.queue.getJob(jobId)) {
+          await job.remove();
+        }
         logger.info(`❌ Cancelled reminder job ${jobId}`);
+
+        await this.reminderRepository.setStatus(getScheduleRecordId(jobId, job.data), 'cancelled');
         return true;
       }
       return false;
@@ -99,16 +317,225 @@ export class ReminderQueue {
     }
   }
 
+  /**
+   * Get the event start a calendar reminder was cancelled for by its owner, null when it was not
+   */
+  async getCalendarCancellation(jobId: string): Promise<string | null> {
+    try {
+      return await this.redisConnection.getClient().get(`${CALENDAR_CANCELLED_KEY_PREFIX}${jobId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to check cancellation of calendar reminder ${jobId}:`, error);
+      return null;
+    }
+  }
+
+  async clearCalendarCancellation(jobId: string): Promise<void> {
+    try {
+      await this.redisConnection.getClient().del(`${CALENDAR_CANCELLED_KEY_PREFIX}${jobId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to clear cancellation of calendar reminder ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Remember that a calendar reminder was called, so calendar syncs do not schedule it again
+   * once BullMQ has trimmed the finished job
+   */
+  async markCalendarReminderCalled(jobId: string, startTime: string): Promise<void> {
+    try {
+      await this.setCalendarMarker(CALENDAR_CALLED_KEY_PREFIX, jobId, startTime);
+    } catch (error) {
+      logger.error(`❌ Failed to mark calendar reminder ${jobId} as called:`, error);
+    }
+  }
+
+  /**
+   * Get the event start a calendar reminder was called for, null when it was not
+   */
+  async getCalendarCall(jobId: string): Promise<string | null> {
+    try {
+      return await this.redisConnection.getClient().get(`${CALENDAR_CALLED_KEY_PREFIX}${jobId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to check call of calendar reminder ${jobId}:`, error);
+      return null;
+    }
+  }
+
+  private async setCalendarMarker(prefix: string, jobId: string, startTime: string): Promise<void> {
+    const expiresInMs = new Date(startTime).getTime() + CALENDAR_MARKER_GRACE_MS - Date.now();
+    await this.redisConnection.getClient().set(`${prefix}${jobId}`, startTime, 'PX', Math.max(expiresInMs, 1000));
+  }
+
+  /**
+   * Get when a reminder is due to fire
+   */
+  getScheduledTime(job: Job<ReminderJobData, ReminderJobResult>): Date {
+    return getReminderFireTime(job);
+  }
+
+  /**
+   * Update the message and/or fire time of a pending reminder, keeping its job ID.
+   * Every change is appended to the reminder's edit history.
+   */
+  async updateReminder(
+    jobId: string,
+    changes: { message?: string; fireAt?: Date },
+    editedBy: string
+  ): Promise<boolean> {
+    try {
+      const job = await this.queue.getJob(jobId);
+      if (!job) {
+        return false;
+      }
+
+      if (changes.fireAt) {
+        // The next occurrence of a series is created from this job's data, so occurrences stay put
+        if (job.repeatJobKey) {
+          logger.warn(`⚠️ Cannot reschedule reminder job ${jobId}, it is an occurrence of a recurring reminder`);
+          return false;
+        }
+
+        // Only delayed jobs can be moved, anything else is already being called
+        if ((await job.getState()) !== 'delayed') {
+          logger.warn(`⚠️ Cannot reschedule reminder job ${jobId}, it is no longer delayed`);
+          return false;
+        }
+        await job.changeDelay(Math.max(0, changes.fireAt.getTime() - Date.now()));
+      }
+
+      const edit: ReminderEdit = {
+        editedAt: new Date().toISOString(),
+        editedBy,
+      };
+      const data: ReminderJobData = { ...job.data };
+      if (changes.message) {
+        edit.previousMessage = job.data.message;
+        edit.message = changes.message;
+        data.message = changes.message;
+      }
+      if (changes.fireAt) {
+        edit.previousFireTime = this.getScheduledTime(job).toISOString();
+        edit.fireTime = changes.fireAt.toISOString();
+        data.scheduledFor = edit.fireTime;
+      }
+      data.edits = [...(job.data.edits || []), edit];
+      await job.updateData(data);
+
+      const recordChanges: { message?: string; fireAt?: string } = {};
+      if (edit.message) {
+        recordChanges.message = edit.message;
+      }
+      if (edit.fireTime) {
+        recordChanges.fireAt = edit.fireTime;
+      }
+      await this.reminderRepository.updateReminder(getScheduleRecordId(jobId, job.data), recordChanges);
+
+      logger.info(`✏️ Updated reminder job ${jobId}`);
+      return true;
+    } catch (error) {
+      logger.error(`❌ Failed to update reminder job ${jobId}:`, error);
+      return false;
+    }
+  }
+
+  async recordResponse(jobId: string, response: ReminderResponse): Promise<boolean> {
+    try {
+      const job = await this.queue.getJob(jobId);
+      if (!job) {
+        logger.warn(`⚠️ Cannot record response, reminder job ${jobId} not found`);
+        return false;
+      }
+
+      await job.updateData({ ...job.data, response });
+      logger.info(`📝 Recorded "${response.action}" response for reminder job ${jobId}`);
+      return true;
+    } catch (error) {
+      logger.error(`❌ Failed to record response for reminder job ${jobId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remember the event a reminder was added to the owner's linked calendar as
+   */
+  async setCalendarCopy(jobId: string, calendarCopy: ReminderCalendarCopy): Promise<boolean> {
+    try {
+      const job = await this.queue.getJob(jobId);
+      if (!job) {
+        return false;
+      }
+
+      await job.updateData({ ...job.data, calendarCopy });
+      return true;
+    } catch (error) {
+      logger.error(`❌ Failed to store the calendar event of reminder job ${jobId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Enqueue a failed reminder job again as a one-off `reminder-retry` job that calls right away.
+   * Its series, calendar event and earlier response are left behind, its calls are recorded
+   * against the reminder that failed.
+   */
+  async replayReminder(failedJobId: string, reminder: ReminderJobData): Promise<Job<ReminderJobData, ReminderJobResult>> {
+    try {
+      const recordId = getCallRecordId(failedJobId, reminder);
+      const jobData: ReminderJobData = {
+        ...reminder,
+        createdAt: new Date().toISOString(),
+        originalReminderId: recordId,
+        scheduledFor: new Date().toISOString(),
+      };
+      delete jobData.deliveryAttempt;
+      delete jobData.recurrence;
+      delete jobData.response;
+      delete jobData.calendarEvent;
+      delete jobData.calendarCopy;
+
+      const job = await this.queue.add('reminder-retry', jobData, {
+        priority: reminder.priority || 0,
+        jobId: `replay-${reminder.messageId}-${Date.now()}`,
+      });
+
+      logger.info(`🔄 Replaying reminder "${reminder.message}" as job ${job.id}`);
+      await this.reminderRepository.setStatus(recordId, 'scheduled', `Replayed as job ${job.id}`);
+      return job;
+    } catch (error) {
+      logger.error('❌ Failed to replay reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's pending and running reminders, soonest first
+   */
   async getUserReminders(userId: string): Promise<Job<ReminderJobData, ReminderJobResult>[]> {
     try {
-      const jobs = await this.queue.getJobs(['waiting', 'delayed', 'active']);
-      return jobs.filter(job => job.data.userId === userId);
+      // Jobs with a priority (calendar reminders, redials and their replays) wait in 'prioritized'
+      const jobs = await this.queue.getJobs(['waiting', 'prioritized', 'delayed', 'active']);
+      return jobs
+        .filter(job => job.data.userId === userId)
+        .sort((a, b) => getReminderFireTime(a).getTime() - getReminderFireTime(b).getTime());
     } catch (error) {
       logger.error(`❌ Failed to get reminders for user ${userId}:`, error);
       return [];
     }
   }
 
+  /**
+   * Get pending reminders created for calendar events
+   */
+  async getCalendarReminders(): Promise<Job<ReminderJobData, ReminderJobResult>[]> {
+    try {
+      const jobs = await this.queue.getJobs(['waiting', 'delayed', 'prioritized']);
+      return jobs.filter(job => job.data.calendarEvent);
+    } catch (error) {
+      logger.error('❌ Failed to get calendar reminders:', error);
+      return [];
+    }
+  }
+
   async getQueueStats(): Promise<{
     waiting: number;
     active: number;
@@ -0,0 +1,149 @@
+import http from 'http';
+import { logger } from '../utils/logger';
+import { Config } from '../config/Config';
+
+// Incoming webhook request, with the form body already parsed
+export interface WebhookRequest {
+  method: string;
+  path: string;
+  url: string;                           // Public URL the request was sent to (used for signature checks)
+  query: Record<string, string>;
+  params: Record<string, string>;        // Parsed application/x-www-form-urlencoded body
+  headers: http.IncomingHttpHeaders;
+  rawBody: string;
+}
+
+// Response produced by a webhook route handler
+export interface WebhookResponse {
+  status: number;
+  body?: string;
+  contentType?: string;
+}
+
+export type WebhookHandler = (request: WebhookRequest) => Promise<WebhookResponse>;
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export class WebhookServer {
+  private server: http.Server | null = null;
+  private config: Config;
+  private routes = new Map<string, WebhookHandler>();
+
+  constructor(config: Config) {
+    this.config = config;
+
+    this.registerRoute('GET', '/health', async () => ({
+      status: 200,
+      body: JSON.stringify({ status: 'ok' }),
+      contentType: 'application/json',
+    }));
+  }
+
+  /**
+   * Register a handler for a method and path
+   */
+  registerRoute(method: string, path: string, handler: WebhookHandler): void {
+    this.routes.set(`${method.toUpperCase()} ${path}`, handler);
+    logger.debug(`🔗 Registered webhook route ${method.toUpperCase()} ${path}`);
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      logger.warn('⚠️ Webhook server is already running');
+      return;
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('❌ Unhandled webhook error:', error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.config.port, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    logger.info(`🌐 Webhook server listening on port ${this.config.port} (public URL: ${this.config.baseUrl})`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+
+    logger.info('🛑 Webhook server stopped');
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const parsedUrl = new URL(req.url || '/', 'http://localhost');
+    const handler = this.routes.get(`${method} ${parsedUrl.pathname}`);
+
+    if (!handler) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    let rawBody: string;
+    try {
+      rawBody = await this.readBody(req);
+    } catch (error) {
+      logger.warn(`⚠️ Rejected webhook body for ${parsedUrl.pathname}:`, error);
+      res.writeHead(413);
+      res.end();
+      return;
+    }
+
+    const isForm = (req.headers['content-type'] || '').includes('application/x-www-form-urlencoded');
+
+    const request: WebhookRequest = {
+      method,
+      path: parsedUrl.pathname,
+      url: `${this.config.baseUrl}${req.url || '/'}`,
+      query: Object.fromEntries(parsedUrl.searchParams.entries()),
+      params: isForm ? Object.fromEntries(new URLSearchParams(rawBody).entries()) : {},
+      headers: req.headers,
+      rawBody,
+    };
+
+    const response = await handler(request);
+
+    res.writeHead(response.status, { 'Content-Type': response.contentType || 'text/plain' });
+    res.end(response.body || '');
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { RedisConnection } from '../queue/RedisConnection';
+import { TokenCipher } from '../utils/tokenCipher';
+import { logger } from '../utils/logger';
+
+const LINK_KEY_PREFIX = 'reminders:calendar:link:';
+const LINKED_USERS_KEY = 'reminders:calendar:linked-users';
+
+// A Discord user's own Google Calendar, linked with ?calendar link
+export interface CalendarLink {
+  userId: string;            // Discord user who owns the calendar and its reminders
+  calendarId: string;        // Google account email (ID of its primary calendar)
+  channelId: string;         // Discord channel the link was made from
+  refreshToken: string;      // OAuth refresh token (encrypted at rest)
+  linkedAt: string;          // ISO timestamp
+  scopes?: string[];         // OAuth scopes granted (unset on links made with read-only access)
+  writeBack?: boolean;       // Whether the user's ?remind reminders are added to the calendar
+}
+
+export class CalendarLinkStore {
+  private redisConnection: RedisConnection;
+  private cipher: TokenCipher;
+
+  constructor(redisConnection: RedisConnection, cipher: TokenCipher) {
+    this.redisConnection = redisConnection;
+    this.cipher = cipher;
+  }
+
+  async getLink(userId: string): Promise<CalendarLink | null> {
+    try {
+      const value = await this.redisConnection.getClient().get(`${LINK_KEY_PREFIX}${userId}`);
+      return value ? this.decode(value) : null;
+    } catch (error) {
+      logger.error(`❌ Failed to get calendar link of user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the calendar links of every user. Links that cannot be decrypted (e.g. after the
+   * encryption key changed) are skipped, those users have to link again.
+   */
+  async getLinks(): Promise<CalendarLink[]> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const links: CalendarLink[] = [];
+
+      for (const userId of await redis.smembers(LINKED_USERS_KEY)) {
+        const value = await redis.get(`${LINK_KEY_PREFIX}${userId}`);
+        if (!value) {
+          continue;
+        }
+
+        try {
+          links.push(this.decode(value));
+        } catch (error) {
+          logger.warn(`⚠️ Could not decrypt calendar link of user ${userId}, skipping it`);
+        }
+      }
+      return links;
+    } catch (error) {
+      logger.error('❌ Failed to get calendar links:', error);
+      return [];
+    }
+  }
+
+  async setLink(link: CalendarLink): Promise<void> {
+    try {
+      const stored = { ...link, refreshToken: this.cipher.encrypt(link.refreshToken) };
+      await this.redisConnection
+        .getClient()
+        .multi()
+        .set(`${LINK_KEY_PREFIX}${link.userId}`, JSON.stringify(stored))
+        .sadd(LINKED_USERS_KEY, link.userId)
+        .exec();
+      logger.info(`🔗 Stored calendar link of user ${link.userId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to store calendar link of user ${link.userId}:`, error);
+      throw error;
+    }
+  }
+
+  async deleteLink(userId: string): Promise<void> {
+    try {
+      await this.redisConnection
+        .getClient()
+        .multi()
+        .del(`${LINK_KEY_PREFIX}${userId}`)
+        .srem(LINKED_USERS_KEY, userId)
+        .exec();
+      logger.info(`🧹 Deleted calendar link of user ${userId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to delete calendar link of user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  private decode(value: string): CalendarLink {
+    const stored = JSON.parse(value) as CalendarLink;
+    return { ...stored, refreshToken: this.cipher.decrypt(stored.refreshToken) };
+  }
+}
@@ -0,0 +1,103 @@
+import { RedisConnection } from '../queue/RedisConnection';
+import { logger } from '../utils/logger';
+
+const SYNC_TOKEN_KEY_PREFIX = 'reminders:calendar:sync-token:';
+const LAST_FULL_SYNC_KEY_PREFIX = 'reminders:calendar:last-full-sync:';
+const WATCH_CHANNEL_KEY_PREFIX = 'reminders:calendar:watch-channel:';
+
+// Push notification channel opened with events.watch
+export interface CalendarWatchChannel {
+  id: string;                // Channel ID we chose (sent back as X-Goog-Channel-ID)
+  resourceId: string;        // Watched resource ID returned by Google (needed to stop the channel)
+  token: string;             // Secret sent back as X-Goog-Channel-Token
+  calendarId: string;        // Calendar the channel watches
+  expiration: number;        // Epoch milliseconds when Google closes the channel
+}
+
+export class CalendarSyncStore {
+  private redisConnection: RedisConnection;
+
+  constructor(redisConnection: RedisConnection) {
+    this.redisConnection = redisConnection;
+  }
+
+  async getSyncToken(calendarId: string): Promise<string | null> {
+    try {
+      return await this.redisConnection.getClient().get(`${SYNC_TOKEN_KEY_PREFIX}${calendarId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to get sync token for calendar ${calendarId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the token for the next incremental sync together with the time of the last full sync (if any)
+   */
+  async setSyncToken(calendarId: string, syncToken: string, fullSyncAt?: Date): Promise<void> {
+    try {
+      const pipeline = this.redisConnection.getClient().multi();
+      pipeline.set(`${SYNC_TOKEN_KEY_PREFIX}${calendarId}`, syncToken);
+      if (fullSyncAt) {
+        pipeline.set(`${LAST_FULL_SYNC_KEY_PREFIX}${calendarId}`, fullSyncAt.toISOString());
+      }
+      await pipeline.exec();
+    } catch (error) {
+      logger.error(`❌ Failed to store sync token for calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  async clearSyncToken(calendarId: string): Promise<void> {
+    try {
+      await this.redisConnection.getClient().del(
+        `${SYNC_TOKEN_KEY_PREFIX}${calendarId}`,
+        `${LAST_FULL_SYNC_KEY_PREFIX}${calendarId}`
+      );
+      logger.info(`🧹 Cleared sync token for calendar ${calendarId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to clear sync token for calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  async getLastFullSync(calendarId: string): Promise<Date | null> {
+    try {
+      const value = await this.redisConnection.getClient().get(`${LAST_FULL_SYNC_KEY_PREFIX}${calendarId}`);
+      return value ? new Date(value) : null;
+    } catch (error) {
+      logger.error(`❌ Failed to get last full sync of calendar ${calendarId}:`, error);
+      return null;
+    }
+  }
+
+  async getWatchChannel(calendarId: string): Promise<CalendarWatchChannel | null> {
+    try {
+      const value = await this.redisConnection.getClient().get(`${WATCH_CHANNEL_KEY_PREFIX}${calendarId}`);
+      return value ? (JSON.parse(value) as CalendarWatchChannel) : null;
+    } catch (error) {
+      logger.error(`❌ Failed to get watch channel of calendar ${calendarId}:`, error);
+      return null;
+    }
+  }
+
+  async setWatchChannel(channel: CalendarWatchChannel): Promise<void> {
+    try {
+      const ttlMs = Math.max(1000, channel.expiration - Date.now());
+      await this.redisConnection
+        .getClient()
+        .set(`${WATCH_CHANNEL_KEY_PREFIX}${channel.calendarId}`, JSON.stringify(channel), 'PX', ttlMs);
+    } catch (error) {
+      logger.error(`❌ Failed to store watch channel of calendar ${channel.calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  async clearWatchChannel(calendarId: string): Promise<void> {
+    try {
+      await this.redisConnection.getClient().del(`${WATCH_CHANNEL_KEY_PREFIX}${calendarId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to clear watch channel of calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+}
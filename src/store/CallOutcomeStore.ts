@@ -0,0 +1,203 @@
+import { RedisConnection } from '../queue/RedisConnection';
+import { logger } from '../utils/logger';
+import { CallLifecycleStatus, CallOutcome, CallStatusEvent } from '../types/ReminderTypes';
+
+const CALL_KEY_PREFIX = 'reminders:call:';
+const REMINDER_CALLS_KEY_PREFIX = 'reminders:job-calls:';
+const OUTCOME_TTL_SECONDS = 30 * 24 * 60 * 60; // Keep call outcomes for 30 days
+
+// Statuses after which Twilio will not report anything else for the call
+export const TERMINAL_CALL_STATUSES: CallLifecycleStatus[] = ['completed', 'busy', 'no-answer', 'failed', 'canceled'];
+
+export class CallOutcomeStore {
+  private redisConnection: RedisConnection;
+
+  constructor(redisConnection: RedisConnection) {
+    this.redisConnection = redisConnection;
+  }
+
+  /**
+   * Record a call that has just been placed for a reminder
+   */
+  async recordCallPlaced(callSid: string, reminderId: string, to: string, status: string = 'queued'): Promise<void> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const now = new Date().toISOString();
+      const callKey = `${CALL_KEY_PREFIX}${callSid}`;
+      const reminderKey = `${REMINDER_CALLS_KEY_PREFIX}${reminderId}`;
+
+      // Status callbacks can arrive before this runs, so never overwrite what they recorded
+      await redis
+        .multi()
+        .hsetnx(callKey, 'status', this.normalizeStatus(status))
+        .hsetnx(callKey, 'answered', 'false')
+        .hsetnx(callKey, 'createdAt', now)
+        .hsetnx(callKey, 'updatedAt', now)
+        .hset(callKey, 'reminderId', reminderId, 'to', to)
+        .expire(callKey, OUTCOME_TTL_SECONDS)
+        .rpush(reminderKey, callSid)
+        .expire(reminderKey, OUTCOME_TTL_SECONDS)
+        .exec();
+
+      logger.debug(`📞 Recorded call ${callSid} for reminder ${reminderId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to record call ${callSid} for reminder ${reminderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a status callback to the stored outcome and return the updated outcome
+   */
+  async recordStatus(
+    callSid: string,
+    update: {
+      status: string;
+      reminderId?: string;
+      to?: string;
+      durationSeconds?: number;
+      answeredBy?: string;
+      sequenceNumber?: number;
+    }
+  ): Promise<CallOutcome | null> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const callKey = `${CALL_KEY_PREFIX}${callSid}`;
+      const status = this.normalizeStatus(update.status);
+      const now = new Date().toISOString();
+
+      const event: CallStatusEvent = { status, timestamp: now };
+      if (update.sequenceNumber !== undefined) {
+        event.sequenceNumber = update.sequenceNumber;
+      }
+
+      const existing = await redis.hgetall(callKey);
+      const fields: Record<string, string> = { updatedAt: now };
+
+      // Callbacks may arrive out of order; a terminal status is never replaced, nor is the
+      // status of a callback Twilio sent later (by its sequence number)
+      const currentStatus = existing.status as CallLifecycleStatus | undefined;
+      const latestSequence = existing.sequenceNumber !== undefined ? parseInt(existing.sequenceNumber, 10) : undefined;
+      const isStale = update.sequenceNumber !== undefined && latestSequence !== undefined && update.sequenceNumber < latestSequence;
+      if (!isStale && (!currentStatus || !TERMINAL_CALL_STATUSES.includes(currentStatus))) {
+        fields.status = status;
+      }
+      if (update.sequenceNumber !== undefined && !isStale) {
+        fields.sequenceNumber = update.sequenceNumber.toString();
+      }
+      if (status === 'in-progress' || (status === 'completed' && (update.durationSeconds || 0) > 0)) {
+        fields.answered = 'true';
+      }
+      if (update.durationSeconds !== undefined) {
+        fields.durationSeconds = update.durationSeconds.toString();
+      }
+      if (update.answeredBy) {
+        fields.answeredBy = update.answeredBy;
+      }
+      if (update.to && !existing.to) {
+        fields.to = update.to;
+      }
+      if (!existing.createdAt) {
+        fields.createdAt = now;
+        fields.answered = fields.answered || 'false';
+      }
+
+      const transaction = redis
+        .multi()
+        .hset(callKey, fields)
+        .rpush(`${callKey}:events`, JSON.stringify(event))
+        .expire(callKey, OUTCOME_TTL_SECONDS)
+        .expire(`${callKey}:events`, OUTCOME_TTL_SECONDS);
+
+      // Link calls we did not place ourselves (e.g. after a restart) to their reminder
+      if (update.reminderId && !existing.reminderId) {
+        const reminderKey = `${REMINDER_CALLS_KEY_PREFIX}${update.reminderId}`;
+        transaction
+          .hset(callKey, 'reminderId', update.reminderId)
+          .rpush(reminderKey, callSid)
+          .expire(reminderKey, OUTCOME_TTL_SECONDS);
+      }
+
+      await transaction.exec();
+
+      logger.info(`📶 Call ${callSid} status: ${status}`);
+
+      return await this.getOutcome(callSid);
+    } catch (error) {
+      logger.error(`❌ Failed to record status for call ${callSid}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stored outcome of a call
+   */
+  async getOutcome(callSid: string): Promise<CallOutcome | null> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const callKey = `${CALL_KEY_PREFIX}${callSid}`;
+
+      const [fields, rawEvents] = await Promise.all([
+        redis.hgetall(callKey),
+        redis.lrange(`${callKey}:events`, 0, -1),
+      ]);
+
+      if (!fields || Object.keys(fields).length === 0) {
+        return null;
+      }
+
+      const outcome: CallOutcome = {
+        callSid,
+        reminderId: fields.reminderId || '',
+        to: fields.to || '',
+        status: (fields.status as CallLifecycleStatus) || 'queued',
+        answered: fields.answered === 'true',
+        events: rawEvents.map(raw => JSON.parse(raw) as CallStatusEvent),
+        createdAt: fields.createdAt || fields.updatedAt || '',
+        updatedAt: fields.updatedAt || '',
+      };
+
+      if (fields.answeredBy) {
+        outcome.answeredBy = fields.answeredBy;
+      }
+      if (fields.durationSeconds) {
+        outcome.durationSeconds = parseInt(fields.durationSeconds, 10);
+      }
+
+      return outcome;
+    } catch (error) {
+      logger.error(`❌ Failed to get outcome for call ${callSid}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the outcomes of every call placed for a reminder, oldest first
+   */
+  async getOutcomesForReminder(reminderId: string): Promise<CallOutcome[]> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const callSids = await redis.lrange(`${REMINDER_CALLS_KEY_PREFIX}${reminderId}`, 0, -1);
+      const outcomes = await Promise.all(callSids.map(callSid => this.getOutcome(callSid)));
+
+      return outcomes.filter((outcome): outcome is CallOutcome => outcome !== null);
+    } catch (error) {
+      logger.error(`❌ Failed to get call outcomes for reminder ${reminderId}:`, error);
+      return [];
+    }
+  }
+
+  private normalizeStatus(status: string): CallLifecycleStatus {
+    const normalized = status.toLowerCase();
+    const known: CallLifecycleStatus[] = [
+      'queued', 'initiated', 'ringing', 'in-progress', 'completed', 'busy', 'no-answer', 'failed', 'canceled',
+    ];
+
+    if (known.includes(normalized as CallLifecycleStatus)) {
+      return normalized as CallLifecycleStatus;
+    }
+
+    // Twilio reports "answered" as an event name but "in-progress" as the status
+    return normalized === 'answered' ? 'in-progress' : 'queued';
+  }
+}
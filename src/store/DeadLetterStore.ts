@@ -0,0 +1,155 @@
+import { Job } from 'bullmq';
+import { RedisConnection } from '../queue/RedisConnection';
+import { logger } from '../utils/logger';
+import { DeadLetterEntry, FailedAttempt, ReminderJobData, ReminderJobResult } from '../types/ReminderTypes';
+
+const DEAD_LETTER_INDEX_KEY = 'reminders:dead-letter';
+const DEAD_LETTER_KEY_PREFIX = 'reminders:dead-letter:';
+const FAILED_ATTEMPTS_KEY_PREFIX = 'reminders:failed-attempts:';
+const FAILED_ATTEMPTS_TTL_SECONDS = 7 * 24 * 60 * 60; // Attempts of jobs that later succeed are dropped after 7 days
+
+/**
+ * Reminders that failed for good. Unlike BullMQ's failed set, which only keeps the last 50 jobs,
+ * entries stay until an admin replays or purges them.
+ */
+export class DeadLetterStore {
+  private redisConnection: RedisConnection;
+
+  constructor(redisConnection: RedisConnection) {
+    this.redisConnection = redisConnection;
+  }
+
+  /**
+   * Record a failed attempt of a reminder job, so the error history survives retries
+   */
+  async recordFailedAttempt(jobId: string, attempt: FailedAttempt): Promise<void> {
+    try {
+      const key = `${FAILED_ATTEMPTS_KEY_PREFIX}${jobId}`;
+      await this.redisConnection.getClient()
+        .multi()
+        .rpush(key, JSON.stringify(attempt))
+        .expire(key, FAILED_ATTEMPTS_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      logger.error(`❌ Failed to record failed attempt of reminder job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Dead-letter a reminder job with the errors of all its attempts
+   */
+  async add(job: Job<ReminderJobData, ReminderJobResult>, permanent: boolean): Promise<DeadLetterEntry> {
+    const id = job.id as string;
+
+    try {
+      const redis = this.redisConnection.getClient();
+      const attemptsKey = `${FAILED_ATTEMPTS_KEY_PREFIX}${id}`;
+      const rawAttempts = await redis.lrange(attemptsKey, 0, -1);
+
+      const entry: DeadLetterEntry = {
+        id,
+        jobName: job.name,
+        reminder: job.data,
+        attemptsMade: job.attemptsMade,
+        errors: rawAttempts.map(raw => JSON.parse(raw) as FailedAttempt),
+        permanent,
+        deadLetteredAt: new Date().toISOString(),
+      };
+
+      await redis
+        .multi()
+        .set(`${DEAD_LETTER_KEY_PREFIX}${id}`, JSON.stringify(entry))
+        .zadd(DEAD_LETTER_INDEX_KEY, Date.now(), id)
+        .del(attemptsKey)
+        .exec();
+
+      logger.warn(`🪦 Dead-lettered reminder job ${id} after ${entry.attemptsMade} attempt(s)`);
+      return entry;
+    } catch (error) {
+      logger.error(`❌ Failed to dead-letter reminder job ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<DeadLetterEntry | null> {
+    try {
+      const raw = await this.redisConnection.getClient().get(`${DEAD_LETTER_KEY_PREFIX}${id}`);
+      return raw ? (JSON.parse(raw) as DeadLetterEntry) : null;
+    } catch (error) {
+      logger.error(`❌ Failed to get dead-lettered reminder ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List dead-lettered reminders, most recent first
+   */
+  async list(limit: number = 25): Promise<DeadLetterEntry[]> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const ids = await redis.zrevrange(DEAD_LETTER_INDEX_KEY, 0, limit - 1);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      const raws = await redis.mget(ids.map(id => `${DEAD_LETTER_KEY_PREFIX}${id}`));
+      return raws.filter((raw): raw is string => raw !== null).map(raw => JSON.parse(raw) as DeadLetterEntry);
+    } catch (error) {
+      logger.error('❌ Failed to list dead-lettered reminders:', error);
+      return [];
+    }
+  }
+
+  async count(): Promise<number> {
+    try {
+      return await this.redisConnection.getClient().zcard(DEAD_LETTER_INDEX_KEY);
+    } catch (error) {
+      logger.error('❌ Failed to count dead-lettered reminders:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Remove one dead-lettered reminder. Returns false when there was none with this ID.
+   */
+  async remove(id: string): Promise<boolean> {
+    try {
+      const results = await this.redisConnection.getClient()
+        .multi()
+        .del(`${DEAD_LETTER_KEY_PREFIX}${id}`)
+        .zrem(DEAD_LETTER_INDEX_KEY, id)
+        .exec();
+
+      return (results?.[0]?.[1] as number) > 0;
+    } catch (error) {
+      logger.error(`❌ Failed to remove dead-lettered reminder ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove all dead-lettered reminders and return how many there were
+   */
+  async purge(): Promise<number> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const ids = await redis.zrange(DEAD_LETTER_INDEX_KEY, 0, -1);
+      if (ids.length === 0) {
+        return 0;
+      }
+
+      await redis
+        .multi()
+        .del(...ids.map(id => `${DEAD_LETTER_KEY_PREFIX}${id}`))
+        .zrem(DEAD_LETTER_INDEX_KEY, ...ids)
+        .exec();
+
+      logger.info(`🧹 Purged ${ids.length} dead-lettered reminder(s)`);
+      return ids.length;
+    } catch (error) {
+      logger.error('❌ Failed to purge dead-lettered reminders:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { RedisConnection } from '../queue/RedisConnection';
+import { logger } from '../utils/logger';
+import { DeliveryRecord, DeliveryStatus, DeliveryStep } from '../types/ReminderTypes';
+
+const DELIVERY_KEY_PREFIX = 'reminders:delivery:';
+const ESCALATION_CLAIM_KEY_PREFIX = 'reminders:escalated:';
+const DELIVERY_TTL_SECONDS = 30 * 24 * 60 * 60; // Keep delivery history for 30 days
+
+export class DeliveryLogStore {
+  private redisConnection: RedisConnection;
+
+  constructor(redisConnection: RedisConnection) {
+    this.redisConnection = redisConnection;
+  }
+
+  /**
+   * Append a delivery step to a reminder's history
+   */
+  async recordStep(reminderId: string, step: DeliveryStep): Promise<void> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const key = `${DELIVERY_KEY_PREFIX}${reminderId}`;
+
+      await redis
+        .multi()
+        .rpush(`${key}:steps`, JSON.stringify(step))
+        .hsetnx(key, 'status', 'in-progress')
+        .expire(key, DELIVERY_TTL_SECONDS)
+        .expire(`${key}:steps`, DELIVERY_TTL_SECONDS)
+        .exec();
+
+      logger.debug(`📝 Recorded ${step.type} step (${step.outcome}) for reminder ${reminderId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to record delivery step for reminder ${reminderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set how the reminder was ultimately delivered
+   */
+  async setStatus(reminderId: string, status: DeliveryStatus): Promise<void> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const key = `${DELIVERY_KEY_PREFIX}${reminderId}`;
+
+      await redis.multi().hset(key, 'status', status).expire(key, DELIVERY_TTL_SECONDS).exec();
+    } catch (error) {
+      logger.error(`❌ Failed to set delivery status for reminder ${reminderId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the delivery history of a reminder
+   */
+  async getRecord(reminderId: string): Promise<DeliveryRecord | null> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const key = `${DELIVERY_KEY_PREFIX}${reminderId}`;
+
+      const [status, rawSteps] = await Promise.all([
+        redis.hget(key, 'status'),
+        redis.lrange(`${key}:steps`, 0, -1),
+      ]);
+
+      if (!status && rawSteps.length === 0) {
+        return null;
+      }
+
+      return {
+        reminderId,
+        status: (status as DeliveryStatus) || 'in-progress',
+        steps: rawSteps.map(raw => JSON.parse(raw) as DeliveryStep),
+      };
+    } catch (error) {
+      logger.error(`❌ Failed to get delivery record for reminder ${reminderId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Claim the right to escalate a finished call. Returns false if the call was
+   * already handled (Twilio may deliver the final status callback more than once).
+   */
+  async claimCallEscalation(callSid: string): Promise<boolean> {
+    const redis = this.redisConnection.getClient();
+    const result = await redis.set(`${ESCALATION_CLAIM_KEY_PREFIX}${callSid}`, '1', 'EX', DELIVERY_TTL_SECONDS, 'NX');
+    return result === 'OK';
+  }
+}
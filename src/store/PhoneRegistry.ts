@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { RedisConnection } from '../queue/RedisConnection';
+import { logger } from '../utils/logger';
+
+const PHONE_KEY_PREFIX = 'reminders:phone:';
+const PENDING_KEY_PREFIX = 'reminders:phone-pending:';
+const VERIFICATION_TTL_SECONDS = 10 * 60;     // Codes expire after 10 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000;         // Minimum time between codes
+const MAX_VERIFICATION_ATTEMPTS = 5;
+
+export interface PhoneVerificationResult {
+  success: boolean;
+  phoneNumber?: string;
+  error?: string;
+}
+
+export class PhoneRegistry {
+  private redisConnection: RedisConnection;
+
+  constructor(redisConnection: RedisConnection) {
+    this.redisConnection = redisConnection;
+  }
+
+  /**
+   * Start verification of a phone number and return the one-time code to send.
+   * Returns null when a code was sent too recently.
+   */
+  async startVerification(userId: string, phoneNumber: string): Promise<string | null> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const key = `${PENDING_KEY_PREFIX}${userId}`;
+
+      const sentAt = await redis.hget(key, 'sentAt');
+      if (sentAt && Date.now() - parseInt(sentAt, 10) < RESEND_COOLDOWN_MS) {
+        return null;
+      }
+
+      const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+      await redis
+        .multi()
+        .del(key)
+        .hset(key, {
+          phoneNumber,
+          codeHash: this.hashCode(userId, code),
+          attempts: '0',
+          sentAt: Date.now().toString(),
+        })
+        .expire(key, VERIFICATION_TTL_SECONDS)
+        .exec();
+
+      logger.info(`📱 Started phone verification for user ${userId}`);
+      return code;
+    } catch (error) {
+      logger.error(`❌ Failed to start phone verification for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a verification code and store the number as verified when it matches
+   */
+  async verify(userId: string, code: string): Promise<PhoneVerificationResult> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const key = `${PENDING_KEY_PREFIX}${userId}`;
+      const pending = await redis.hgetall(key);
+
+      if (!pending || !pending.phoneNumber) {
+        return { success: false, error: 'No pending verification. Use `?phone set <number>` first.' };
+      }
+
+      const attempts = await redis.hincrby(key, 'attempts', 1);
+      if (attempts > MAX_VERIFICATION_ATTEMPTS) {
+        await redis.del(key);
+        return { success: false, error: 'Too many incorrect attempts. Use `?phone set <number>` to get a new code.' };
+      }
+
+      const expected = Buffer.from(pending.codeHash, 'hex');
+      const actual = Buffer.from(this.hashCode(userId, code.trim()), 'hex');
+      if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return { success: false, error: `Incorrect code. ${MAX_VERIFICATION_ATTEMPTS - attempts} attempt(s) left.` };
+      }
+
+      await redis.multi().set(`${PHONE_KEY_PREFIX}${userId}`, pending.phoneNumber).del(key).exec();
+
+      logger.info(`✅ Verified phone number for user ${userId}`);
+      return { success: true, phoneNumber: pending.phoneNumber };
+    } catch (error) {
+      logger.error(`❌ Failed to verify phone number for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the verified phone number of a user, if any
+   */
+  async getVerifiedPhone(userId: string): Promise<string | null> {
+    try {
+      return await this.redisConnection.getClient().get(`${PHONE_KEY_PREFIX}${userId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to get phone number for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the number a user is currently verifying, if any
+   */
+  async getPendingPhone(userId: string): Promise<string | null> {
+    try {
+      return await this.redisConnection.getClient().hget(`${PENDING_KEY_PREFIX}${userId}`, 'phoneNumber');
+    } catch (error) {
+      logger.error(`❌ Failed to get pending phone number for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a user's verified and pending numbers
+   */
+  async removePhone(userId: string): Promise<boolean> {
+    try {
+      const removed = await this.redisConnection
+        .getClient()
+        .del(`${PHONE_KEY_PREFIX}${userId}`, `${PENDING_KEY_PREFIX}${userId}`);
+      return removed > 0;
+    } catch (error) {
+      logger.error(`❌ Failed to remove phone number for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  private hashCode(userId: string, code: string): string {
+    return crypto.createHash('sha256').update(`${userId}:${code}`).digest('hex');
+  }
+}
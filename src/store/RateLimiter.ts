@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { RedisConnection } from '../queue/RedisConnection';
+import { Config } from '../config/Config';
+import { logger } from '../utils/logger';
+
+const RATE_LIMIT_KEY_PREFIX = 'reminders:ratelimit:';
+
+// Sliding window log: drop entries older than the window, then add one if there is room.
+// Returns { allowed (1/0), remaining, retryAfterMs }.
+const CONSUME_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  return {1, limit - count - 1, 0}
+end
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {0, 0, tonumber(oldest[2]) + window - now}
+`;
+
+export type RateLimitScope = 'create-user' | 'call-user' | 'call-number';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;         // Actions left in the current window
+  retryAfterMs: number;      // Time until the next action is allowed (0 when allowed)
+  windowMs: number;
+}
+
+// Why a new reminder was refused
+export type ReminderQuotaDenial =
+  | { reason: 'active-limit'; activeReminders: number; limit: number }
+  | { reason: 'creation-limit'; result: RateLimitResult };
+
+export class RateLimiter {
+  private redisConnection: RedisConnection;
+  private config: Config;
+
+  constructor(redisConnection: RedisConnection, config: Config) {
+    this.redisConnection = redisConnection;
+    this.config = config;
+  }
+
+  /**
+   * Count a reminder created by a user
+   */
+  async consumeReminderCreation(userId: string): Promise<RateLimitResult> {
+    return this.consume('create-user', userId, this.config.reminderCreationLimit, this.creationWindowMs());
+  }
+
+  /**
+   * Enforce the active reminder cap, then count the new reminder against the creation rate limit.
+   * Returns why the reminder was refused, or null when it may be added.
+   */
+  async consumeReminderQuota(userId: string, activeReminders: number): Promise<ReminderQuotaDenial | null> {
+    if (activeReminders >= this.config.maxRemindersPerUser) {
+      return { reason: 'active-limit', activeReminders, limit: this.config.maxRemindersPerUser };
+    }
+
+    const result = await this.consumeReminderCreation(userId);
+    return result.allowed ? null : { reason: 'creation-limit', result };
+  }
+
+  /**
+   * Count an outbound call, both for the reminder owner and for the dialled number.
+   * When either limit is reached nothing is counted.
+   */
+  async consumeCall(userId: string, phoneNumber: string): Promise<RateLimitResult> {
+    const windowMs = this.callWindowMs();
+
+    const numberStatus = await this.peek('call-number', phoneNumber, this.config.callLimitPerNumber, windowMs);
+    if (!numberStatus.allowed) {
+      return numberStatus;
+    }
+
+    const userResult = await this.consume('call-user', userId, this.config.callLimitPerUser, windowMs);
+    if (!userResult.allowed) {
+      return userResult;
+    }
+
+    const numberResult = await this.consume('call-number', phoneNumber, this.config.callLimitPerNumber, windowMs);
+    return numberResult.remaining < userResult.remaining ? numberResult : userResult;
+  }
+
+  /**
+   * Get the remaining reminder creation and call quota of a user without using any
+   */
+  async getUserQuota(userId: string): Promise<{ creations: RateLimitResult; calls: RateLimitResult }> {
+    const [creations, calls] = await Promise.all([
+      this.peek('create-user', userId, this.config.reminderCreationLimit, this.creationWindowMs()),
+      this.peek('call-user', userId, this.config.callLimitPerUser, this.callWindowMs()),
+    ]);
+    return { creations, calls };
+  }
+
+  /**
+   * Get the remaining call quota of a phone number without using any
+   */
+  async getNumberQuota(phoneNumber: string): Promise<RateLimitResult> {
+    return this.peek('call-number', phoneNumber, this.config.callLimitPerNumber, this.callWindowMs());
+  }
+
+  private async consume(scope: RateLimitScope, id: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    try {
+      const member = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+      const [allowed, remaining, retryAfterMs] = (await this.redisConnection
+        .getClient()
+        .eval(CONSUME_SCRIPT, 1, this.key(scope, id), Date.now(), windowMs, limit, member)) as number[];
+
+      return { allowed: allowed === 1, limit, remaining, retryAfterMs: Math.max(0, retryAfterMs), windowMs };
+    } catch (error) {
+      // Fail open, a Redis hiccup should not block reminders
+      logger.error(`❌ Failed to apply ${scope} rate limit for ${id}:`, error);
+      return { allowed: true, limit, remaining: limit, retryAfterMs: 0, windowMs };
+    }
+  }
+
+  private async peek(scope: RateLimitScope, id: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    try {
+      const redis = this.redisConnection.getClient();
+      const key = this.key(scope, id);
+      const now = Date.now();
+
+      const [count, oldest] = await Promise.all([
+        redis.zcount(key, now - windowMs, '+inf'),
+        redis.zrangebyscore(key, now - windowMs, '+inf', 'WITHSCORES', 'LIMIT', 0, 1),
+      ]);
+
+      const remaining = Math.max(0, limit - count);
+      const retryAfterMs = remaining > 0 || oldest.length < 2 ? 0 : parseInt(oldest[1], 10) + windowMs - now;
+      return { allowed: remaining > 0, limit, remaining, retryAfterMs, windowMs };
+    } catch (error) {
+      logger.error(`❌ Failed to read ${scope} rate limit for ${id}:`, error);
+      return { allowed: true, limit, remaining: limit, retryAfterMs: 0, windowMs };
+    }
+  }
+
+  private key(scope: RateLimitScope, id: string): string {
+    return `${RATE_LIMIT_KEY_PREFIX}${scope}:${id}`;
+  }
+
+  private creationWindowMs(): number {
+    return this.config.reminderCreationWindowMinutes * 60 * 1000;
+  }
+
+  private callWindowMs(): number {
+    return this.config.callLimitWindowMinutes * 60 * 1000;
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  NewReminderRecord,
+  ReminderCallAttempt,
+  ReminderJobData,
+  ReminderRecord,
+  ReminderStatus,
+  ReminderStatusChange,
+  UserReminderStats,
+} from '../types/ReminderTypes';
+
+/**
+ * Durable record of every reminder: owner, message, schedule, status transitions and the calls placed.
+ * BullMQ only runs the reminders, this is what history and statistics are read from.
+ *
+ * Writes never throw: a failed write is logged and must not stop a reminder from being delivered.
+ */
+export interface ReminderRepository {
+  /** Store a new reminder, does nothing when a record with its ID exists */
+  createReminder(record: NewReminderRecord): Promise<void>;
+
+  /** Apply an edit of the message or fire time */
+  updateReminder(id: string, changes: { message?: string; fireAt?: string }): Promise<void>;
+
+  /** Move a reminder to a status, recording the transition when the status changed */
+  setStatus(id: string, status: ReminderStatus, detail?: string): Promise<void>;
+
+  /** Record a call placed for a reminder */
+  addCallAttempt(reminderId: string, attempt: ReminderCallAttempt): Promise<void>;
+
+  /** Record how a call ended */
+  completeCallAttempt(callSid: string, outcome: string, durationSeconds?: number): Promise<void>;
+
+  getReminder(id: string): Promise<ReminderRecord | null>;
+  getStatusChanges(id: string): Promise<ReminderStatusChange[]>;
+  getCallAttempts(id: string): Promise<ReminderCallAttempt[]>;
+
+  /** Get a user's reminders, most recently created first */
+  getUserReminders(userId: string, limit: number): Promise<ReminderRecord[]>;
+
+  getUserStats(userId: string): Promise<UserReminderStats>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * ID of the record a call belongs to: redials and replays belong to the reminder's first call,
+ * every occurrence of a series has a record of its own
+ */
+export function getCallRecordId(jobId: string, data: ReminderJobData): string {
+  return data.originalReminderId || jobId;
+}
+
+/**
+ * ID of the record holding a reminder's schedule: the series for occurrences of a recurring reminder
+ */
+export function getScheduleRecordId(jobId: string, data: ReminderJobData): string {
+  return data.recurrence?.seriesId || getCallRecordId(jobId, data);
+}
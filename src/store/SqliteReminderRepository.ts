@@ -0,0 +1,360 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ReminderRepository } from './ReminderRepository';
+import { logger } from '../utils/logger';
+import {
+  NewReminderRecord,
+  ReminderCallAttempt,
+  ReminderKind,
+  ReminderRecord,
+  ReminderStatus,
+  ReminderStatusChange,
+  UserReminderStats,
+} from '../types/ReminderTypes';
+
+const ACTIVE_STATUSES: ReminderStatus[] = ['scheduled', 'calling'];
+const DELIVERED_STATUSES: ReminderStatus[] = ['answered', 'acknowledged', 'snoozed', 'sms', 'discord-dm'];
+const FAILED_STATUSES: ReminderStatus[] = ['failed', 'undelivered'];
+
+// Bump with a new entry in MIGRATIONS whenever the schema changes
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE reminders (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    channel_id TEXT NOT NULL,
+    message TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    status TEXT NOT NULL,
+    series_id TEXT,
+    schedule TEXT,
+    fire_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX reminders_user_created ON reminders (user_id, created_at);
+
+  CREATE TABLE reminder_status_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    reminder_id TEXT NOT NULL REFERENCES reminders (id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    detail TEXT,
+    changed_at TEXT NOT NULL
+  );
+  CREATE INDEX reminder_status_changes_reminder ON reminder_status_changes (reminder_id);
+
+  CREATE TABLE reminder_call_attempts (
+    call_sid TEXT PRIMARY KEY,
+    reminder_id TEXT NOT NULL REFERENCES reminders (id) ON DELETE CASCADE,
+    job_id TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    duration_seconds INTEGER,
+    placed_at TEXT NOT NULL,
+    ended_at TEXT
+  );
+  CREATE INDEX reminder_call_attempts_reminder ON reminder_call_attempts (reminder_id);
+  `,
+];
+
+interface ReminderRow {
+  id: string;
+  user_id: string;
+  channel_id: string;
+  message: string;
+  kind: string;
+  status: string;
+  series_id: string | null;
+  schedule: string | null;
+  fire_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CallAttemptRow {
+  call_sid: string;
+  job_id: string;
+  attempt: number;
+  outcome: string;
+  duration_seconds: number | null;
+  placed_at: string;
+  ended_at: string | null;
+}
+
+/**
+ * Reminder repository backed by a local SQLite file
+ */
+export class SqliteReminderRepository implements ReminderRepository {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+
+    logger.info(`✅ Reminder repository opened (${filename})`);
+  }
+
+  async createReminder(record: NewReminderRecord): Promise<void> {
+    try {
+      const created = this.db.transaction(() => {
+        const result = this.db.prepare(`
+          INSERT INTO reminders (id, user_id, channel_id, message, kind, status, series_id, schedule, fire_at, created_at, updated_at)
+          VALUES (@id, @userId, @channelId, @message, @kind, 'scheduled', @seriesId, @schedule, @fireAt, @createdAt, @createdAt)
+          ON CONFLICT (id) DO NOTHING
+        `).run({
+          id: record.id,
+          userId: record.userId,
+          channelId: record.channelId,
+          message: record.message,
+          kind: record.kind,
+          seriesId: record.seriesId ?? null,
+          schedule: record.schedule ?? null,
+          fireAt: record.fireAt ?? null,
+          createdAt: record.createdAt,
+        });
+
+        if (result.changes > 0) {
+          this.insertStatusChange(record.id, 'scheduled', null, record.createdAt);
+        }
+        return result.changes > 0;
+      })();
+
+      if (created) {
+        logger.debug(`🗄️ Stored ${record.kind} reminder ${record.id}`);
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to store reminder ${record.id}:`, error);
+    }
+  }
+
+  async updateReminder(id: string, changes: { message?: string; fireAt?: string }): Promise<void> {
+    try {
+      this.db.prepare(`
+        UPDATE reminders
+        SET message = COALESCE(@message, message), fire_at = COALESCE(@fireAt, fire_at), updated_at = @now
+        WHERE id = @id
+      `).run({ id, message: changes.message ?? null, fireAt: changes.fireAt ?? null, now: new Date().toISOString() });
+    } catch (error) {
+      logger.error(`❌ Failed to update stored reminder ${id}:`, error);
+    }
+  }
+
+  async setStatus(id: string, status: ReminderStatus, detail?: string): Promise<void> {
+    try {
+      const now = new Date().toISOString();
+      this.db.transaction(() => {
+        const result = this.db.prepare(`
+          UPDATE reminders SET status = @status, updated_at = @now WHERE id = @id AND status != @status
+        `).run({ id, status, now });
+
+        if (result.changes > 0) {
+          this.insertStatusChange(id, status, detail ?? null, now);
+        }
+      })();
+    } catch (error) {
+      logger.error(`❌ Failed to set status of stored reminder ${id} to ${status}:`, error);
+    }
+  }
+
+  async addCallAttempt(reminderId: string, attempt: ReminderCallAttempt): Promise<void> {
+    try {
+      this.db.prepare(`
+        INSERT INTO reminder_call_attempts (call_sid, reminder_id, job_id, attempt, outcome, duration_seconds, placed_at, ended_at)
+        VALUES (@callSid, @reminderId, @jobId, @attempt, @outcome, @durationSeconds, @placedAt, @endedAt)
+        ON CONFLICT (call_sid) DO NOTHING
+      `).run({
+        callSid: attempt.callSid,
+        reminderId,
+        jobId: attempt.jobId,
+        attempt: attempt.attempt,
+        outcome: attempt.outcome,
+        durationSeconds: attempt.durationSeconds ?? null,
+        placedAt: attempt.placedAt,
+        endedAt: attempt.endedAt ?? null,
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to store call ${attempt.callSid} of reminder ${reminderId}:`, error);
+    }
+  }
+
+  async completeCallAttempt(callSid: string, outcome: string, durationSeconds?: number): Promise<void> {
+    try {
+      this.db.prepare(`
+        UPDATE reminder_call_attempts
+        SET outcome = @outcome, duration_seconds = COALESCE(@durationSeconds, duration_seconds), ended_at = @now
+        WHERE call_sid = @callSid
+      `).run({ callSid, outcome, durationSeconds: durationSeconds ?? null, now: new Date().toISOString() });
+    } catch (error) {
+      logger.error(`❌ Failed to store the outcome of call ${callSid}:`, error);
+    }
+  }
+
+  async getReminder(id: string): Promise<ReminderRecord | null> {
+    try {
+      const row = this.db.prepare('SELECT * FROM reminders WHERE id = ?').get(id) as ReminderRow | undefined;
+      return row ? this.toRecord(row) : null;
+    } catch (error) {
+      logger.error(`❌ Failed to get stored reminder ${id}:`, error);
+      return null;
+    }
+  }
+
+  async getStatusChanges(id: string): Promise<ReminderStatusChange[]> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT status, detail, changed_at FROM reminder_status_changes WHERE reminder_id = ? ORDER BY id
+      `).all(id) as { status: string; detail: string | null; changed_at: string }[];
+
+      return rows.map(row => {
+        const change: ReminderStatusChange = { status: row.status as ReminderStatus, changedAt: row.changed_at };
+        if (row.detail) {
+          change.detail = row.detail;
+        }
+        return change;
+      });
+    } catch (error) {
+      logger.error(`❌ Failed to get status changes of stored reminder ${id}:`, error);
+      return [];
+    }
+  }
+
+  async getCallAttempts(id: string): Promise<ReminderCallAttempt[]> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM reminder_call_attempts WHERE reminder_id = ? ORDER BY placed_at
+      `).all(id) as CallAttemptRow[];
+
+      return rows.map(row => this.toCallAttempt(row));
+    } catch (error) {
+      logger.error(`❌ Failed to get calls of stored reminder ${id}:`, error);
+      return [];
+    }
+  }
+
+  async getUserReminders(userId: string, limit: number): Promise<ReminderRecord[]> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM reminders WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+      `).all(userId, limit) as ReminderRow[];
+
+      return rows.map(row => this.toRecord(row));
+    } catch (error) {
+      logger.error(`❌ Failed to get stored reminders of user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async getUserStats(userId: string): Promise<UserReminderStats> {
+    const stats: UserReminderStats = {
+      userId,
+      totalReminders: 0,
+      activeReminders: 0,
+      completedReminders: 0,
+      failedReminders: 0,
+      cancelledReminders: 0,
+    };
+
+    try {
+      // Occurrences are the calls of a series, the series itself is the reminder the user set
+      const rows = this.db.prepare(`
+        SELECT status, COUNT(*) AS count FROM reminders WHERE user_id = ? AND kind != 'occurrence' GROUP BY status
+      `).all(userId) as { status: string; count: number }[];
+
+      for (const { status, count } of rows) {
+        const reminderStatus = status as ReminderStatus;
+        stats.totalReminders += count;
+        if (ACTIVE_STATUSES.includes(reminderStatus)) {
+          stats.activeReminders += count;
+        } else if (DELIVERED_STATUSES.includes(reminderStatus)) {
+          stats.completedReminders += count;
+        } else if (FAILED_STATUSES.includes(reminderStatus)) {
+          stats.failedReminders += count;
+        } else if (reminderStatus === 'cancelled') {
+          stats.cancelledReminders += count;
+        }
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to compute reminder stats of user ${userId}:`, error);
+    }
+
+    return stats;
+  }
+
+  async close(): Promise<void> {
+    try {
+      this.db.close();
+      logger.info('🔌 Reminder repository closed');
+    } catch (error) {
+      logger.error('❌ Error closing reminder repository:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the migrations the database has not seen yet, tracked in SQLite's user_version
+   */
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+
+    for (let next = version; next < MIGRATIONS.length; next++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[next]);
+        this.db.pragma(`user_version = ${next + 1}`);
+      })();
+      logger.info(`🗄️ Migrated reminder repository to schema version ${next + 1}`);
+    }
+  }
+
+  private insertStatusChange(id: string, status: ReminderStatus, detail: string | null, changedAt: string): void {
+    this.db.prepare(`
+      INSERT INTO reminder_status_changes (reminder_id, status, detail, changed_at) VALUES (?, ?, ?, ?)
+    `).run(id, status, detail, changedAt);
+  }
+
+  private toRecord(row: ReminderRow): ReminderRecord {
+    const record: ReminderRecord = {
+      id: row.id,
+      userId: row.user_id,
+      channelId: row.channel_id,
+      message: row.message,
+      kind: row.kind as ReminderKind,
+      status: row.status as ReminderStatus,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+    if (row.series_id) {
+      record.seriesId = row.series_id;
+    }
+    if (row.schedule) {
+      record.schedule = row.schedule;
+    }
+    if (row.fire_at) {
+      record.fireAt = row.fire_at;
+    }
+    return record;
+  }
+
+  private toCallAttempt(row: CallAttemptRow): ReminderCallAttempt {
+    const attempt: ReminderCallAttempt = {
+      jobId: row.job_id,
+      attempt: row.attempt,
+      callSid: row.call_sid,
+      outcome: row.outcome,
+      placedAt: row.placed_at,
+    };
+    if (row.duration_seconds !== null) {
+      attempt.durationSeconds = row.duration_seconds;
+    }
+    if (row.ended_at) {
+      attempt.endedAt = row.ended_at;
+    }
+    return attempt;
+  }
+}
@@ -0,0 +1,86 @@
+import { RedisConnection } from '../queue/RedisConnection';
+import { logger } from '../utils/logger';
+
+const USER_TIMEZONE_KEY_PREFIX = 'reminders:timezone:user:';
+const GUILD_TIMEZONE_KEY_PREFIX = 'reminders:timezone:guild:';
+
+export type TimezoneSource = 'user' | 'guild' | 'default';
+
+export interface ResolvedTimezone {
+  timezone: string;          // IANA zone, e.g. "Europe/Berlin"
+  source: TimezoneSource;    // Where the zone came from
+}
+
+export class TimezoneStore {
+  private redisConnection: RedisConnection;
+  private defaultTimezone: string;
+
+  constructor(redisConnection: RedisConnection, defaultTimezone: string) {
+    this.redisConnection = redisConnection;
+    this.defaultTimezone = defaultTimezone;
+  }
+
+  /**
+   * Get the zone to use for a user: their own setting, else the guild default, else the bot default
+   */
+  async resolveTimezone(userId: string, guildId?: string): Promise<ResolvedTimezone> {
+    const userTimezone = await this.getUserTimezone(userId);
+    if (userTimezone) {
+      return { timezone: userTimezone, source: 'user' };
+    }
+
+    const guildTimezone = guildId ? await this.getGuildTimezone(guildId) : null;
+    if (guildTimezone) {
+      return { timezone: guildTimezone, source: 'guild' };
+    }
+
+    return { timezone: this.defaultTimezone, source: 'default' };
+  }
+
+  async getUserTimezone(userId: string): Promise<string | null> {
+    try {
+      return await this.redisConnection.getClient().get(`${USER_TIMEZONE_KEY_PREFIX}${userId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to get timezone for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  async setUserTimezone(userId: string, timezone: string): Promise<void> {
+    try {
+      await this.redisConnection.getClient().set(`${USER_TIMEZONE_KEY_PREFIX}${userId}`, timezone);
+      logger.info(`🌍 Set timezone of user ${userId} to ${timezone}`);
+    } catch (error) {
+      logger.error(`❌ Failed to set timezone for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async clearUserTimezone(userId: string): Promise<boolean> {
+    try {
+      return (await this.redisConnection.getClient().del(`${USER_TIMEZONE_KEY_PREFIX}${userId}`)) > 0;
+    } catch (error) {
+      logger.error(`❌ Failed to clear timezone for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async getGuildTimezone(guildId: string): Promise<string | null> {
+    try {
+      return await this.redisConnection.getClient().get(`${GUILD_TIMEZONE_KEY_PREFIX}${guildId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to get timezone for guild ${guildId}:`, error);
+      return null;
+    }
+  }
+
+  async setGuildTimezone(guildId: string, timezone: string): Promise<void> {
+    try {
+      await this.redisConnection.getClient().set(`${GUILD_TIMEZONE_KEY_PREFIX}${guildId}`, timezone);
+      logger.info(`🌍 Set default timezone of guild ${guildId} to ${timezone}`);
+    } catch (error) {
+      logger.error(`❌ Failed to set timezone for guild ${guildId}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { AgendaBuilder } from '../utils/agendaBuilder';
+import { CalendarEvent } from '../types/CalendarTypes';
+
+const event = (summary: string, start: string, end: string | null, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: summary.toLowerCase().replace(/\s+/g, '-'),
+  summary,
+  description: '',
+  startTime: new Date(start),
+  endTime: end ? new Date(end) : null,
+  location: '',
+  attendees: [],
+  calendarId: 'primary',
+  calendarName: 'Work',
+  status: 'confirmed',
+  declined: false,
+  allDay: false,
+  recurring: false,
+  ...overrides,
+});
+
+// 7:30 AM in New York
+const CALL_TIME = new Date('2025-03-10T11:30:00Z');
+const TIMEZONE = 'America/New_York';
+
+describe('AgendaBuilder', () => {
+  describe('build', () => {
+    const agenda = AgendaBuilder.build(
+      [
+        event('Retro', '2025-03-10T19:00:00Z', '2025-03-10T20:00:00Z'),
+        event('Standup', '2025-03-10T13:00:00Z', '2025-03-10T13:15:00Z', { location: 'Room 4' }),
+        event('Planning', '2025-03-10T13:10:00Z', '2025-03-10T14:00:00Z'),
+        event('Lunch', '2025-03-10T16:00:00Z', '2025-03-10T16:20:00Z'),
+        event('Offsite', '2025-03-10T04:00:00Z', '2025-03-11T04:00:00Z', { allDay: true }),
+        event('Skipped', '2025-03-10T15:00:00Z', '2025-03-10T15:30:00Z', { declined: true }),
+        event('Dropped', '2025-03-10T17:00:00Z', '2025-03-10T17:30:00Z', { status: 'cancelled' }),
+        event('Tomorrow', '2025-03-11T13:00:00Z', '2025-03-11T14:00:00Z'),
+      ],
+      [
+        { message: 'Take pills', fireAt: new Date('2025-03-10T22:00:00Z') },
+        { message: 'Too late', fireAt: new Date('2025-03-11T05:00:00Z') },
+        { message: 'Already called', fireAt: new Date('2025-03-10T11:00:00Z') },
+      ],
+      CALL_TIME,
+      TIMEZONE
+    );
+
+    it('should end at midnight in the agenda timezone', () => {
+      expect(agenda.end.toISOString()).toBe('2025-03-11T03:59:59.999Z');
+    });
+
+    it('should list attended meetings of the day by start time', () => {
+      expect(agenda.meetings.map(meeting => meeting.summary)).toEqual(['Standup', 'Planning', 'Lunch', 'Retro']);
+      expect(agenda.allDayEvents.map(allDay => allDay.summary)).toEqual(['Offsite']);
+    });
+
+    it('should only keep reminder calls between the call and the end of the day', () => {
+      expect(agenda.reminders.map(reminder => reminder.message)).toEqual(['Take pills']);
+    });
+
+    it('should merge overlapping meetings when looking for free time', () => {
+      expect(agenda.gaps.map(gap => [gap.start.toISOString(), gap.end.toISOString()])).toEqual([
+        ['2025-03-10T14:00:00.000Z', '2025-03-10T16:00:00.000Z'],
+        ['2025-03-10T16:20:00.000Z', '2025-03-10T19:00:00.000Z'],
+      ]);
+    });
+
+    it('should ignore gaps shorter than the minimum', () => {
+      const busy = AgendaBuilder.build(
+        [
+          event('First', '2025-03-10T13:00:00Z', '2025-03-10T14:00:00Z'),
+          event('Second', '2025-03-10T14:20:00Z', '2025-03-10T15:00:00Z'),
+        ],
+        [],
+        CALL_TIME,
+        TIMEZONE
+      );
+
+      expect(busy.gaps).toEqual([]);
+      expect(AgendaBuilder.build(busy.meetings, [], CALL_TIME, TIMEZONE, 15).gaps).toHaveLength(1);
+    });
+  });
+
+  describe('toSpeech', () => {
+    it('should read out meetings, all-day events, free time and reminders', () => {
+      const agenda = AgendaBuilder.build(
+        [
+          event('Standup', '2025-03-10T13:00:00Z', '2025-03-10T13:15:00Z', { location: 'Room 4' }),
+          event('Retro', '2025-03-10T19:00:00Z', null),
+          event('Offsite', '2025-03-10T04:00:00Z', '2025-03-11T04:00:00Z', { allDay: true }),
+        ],
+        [{ message: 'Take pills', fireAt: new Date('2025-03-10T22:00:00Z') }],
+        CALL_TIME,
+        TIMEZONE
+      );
+
+      expect(AgendaBuilder.toSpeech(agenda)).toBe(
+        'Here is your agenda for Monday, March 10. You have 2 meetings today. ' +
+        'At 9:00 AM, Standup, until 9:15 AM, in Room 4. At 3:00 PM, Retro. All day: Offsite. ' +
+        'You are free from 9:15 AM to 3:00 PM. You also have 1 reminder call: Take pills at 6:00 PM.'
+      );
+    });
+
+    it('should say when the day is empty', () => {
+      expect(AgendaBuilder.toSpeech(AgendaBuilder.build([], [], CALL_TIME, TIMEZONE))).toBe(
+        'Here is your agenda for Monday, March 10. You have no meetings today.'
+      );
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { DavXml } from '../utils/davXml';
+import { IcsParser } from '../utils/icsParser';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('DavXml', () => {
+  describe('parse', () => {
+    it('should strip namespace prefixes and decode entities', () => {
+      const root = DavXml.parse('<?xml version="1.0"?><d:prop xmlns:d="DAV:"><d:displayname>A &amp; B &#233;</d:displayname></d:prop>');
+
+      expect(root.name).toBe('prop');
+      expect(DavXml.child(root, 'displayname')?.text).toBe('A & B é');
+    });
+
+    it('should read attributes and self-closing elements', () => {
+      const root = DavXml.parse('<C:set xmlns:C="urn:ietf:params:xml:ns:caldav"><C:comp name="VEVENT"/><C:comp name=\'VTODO\' /></C:set>');
+
+      expect(DavXml.children(root, 'comp').map(comp => comp.attributes.name)).toEqual(['VEVENT', 'VTODO']);
+    });
+  });
+
+  describe('parseMultistatus', () => {
+    it('should only keep properties of successful propstats', () => {
+      const [home, work, tasks] = DavXml.parseMultistatus(readFixture('caldav-calendars.xml'));
+
+      expect(home.href).toBe('/ada/');
+      expect(Object.keys(home.props)).toEqual(['resourcetype']);
+
+      expect(work.href).toBe('/ada/work/');
+      expect(DavXml.child(work.props.resourcetype, 'calendar')).toBeDefined();
+      expect(work.props.displayname.text).toBe('Work & Projects');
+      expect(work.props.getctag.text).toBe('"1700000000-42"');
+      expect(DavXml.children(work.props['supported-calendar-component-set'], 'comp').map(comp => comp.attributes.name))
+        .toEqual(['VEVENT', 'VTODO']);
+
+      expect(tasks.props.displayname.text).toBe('Tasks');
+    });
+
+    it('should read calendar data from escaped text and CDATA, and response statuses', () => {
+      const [planning, retro, deleted] = DavXml.parseMultistatus(readFixture('caldav-multiget.xml'));
+
+      expect(planning.props.getetag.text).toBe('"etag-1"');
+      expect(retro.props.getetag.text).toBe('"etag-2"');
+      expect(deleted.status).toBe(404);
+      expect(deleted.props).toEqual({});
+
+      const events = [planning, retro].flatMap(response =>
+        IcsParser.parse(response.props['calendar-data'].text, 'UTC').events
+      );
+      expect(events.map(event => event.summary)).toEqual(['Planning <Q1>', 'Retro & drinks']);
+    });
+  });
+
+  describe('escape', () => {
+    it('should escape markup characters', () => {
+      expect(DavXml.escape('<a href="x">Tom & Jerry\'s</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+    });
+  });
+});
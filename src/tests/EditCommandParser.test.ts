@@ -0,0 +1,39 @@
+import { EditCommandParser } from '../utils/editCommandParser';
+
+describe('EditCommandParser', () => {
+  it('should parse a job ID with a message and a time', () => {
+    expect(EditCommandParser.parse('remind-1 -m Call mom -t 2h')).toEqual({
+      jobId: 'remind-1',
+      message: 'Call mom',
+      timeString: '2h',
+    });
+  });
+
+  it('should read times made of several words', () => {
+    expect(EditCommandParser.parse('remind-1 -t 12/25/2024 9:00am')).toEqual({
+      jobId: 'remind-1',
+      timeString: '12/25/2024 9:00am',
+    });
+    expect(EditCommandParser.parse('remind-1 -t tomorrow 9am -m Stand up')).toEqual({
+      jobId: 'remind-1',
+      message: 'Stand up',
+      timeString: 'tomorrow 9am',
+    });
+  });
+
+  it('should return only the job ID without flags', () => {
+    expect(EditCommandParser.parse('remind-1')).toEqual({ jobId: 'remind-1' });
+  });
+
+  it('should require a job ID', () => {
+    expect(EditCommandParser.parse('  ').error).toContain('Please provide a job ID');
+  });
+
+  it('should reject input outside a flag', () => {
+    expect(EditCommandParser.parse('remind-1 Call mom -t 2h').error).toContain('Unexpected input: Call mom');
+  });
+
+  it('should reject flags without a value', () => {
+    expect(EditCommandParser.parse('remind-1 -m Call mom -t').error).toContain('Missing value after -t');
+  });
+});
@@ -0,0 +1,37 @@
+import { EventFilter } from '../utils/eventFilter';
+
+describe('EventFilter', () => {
+  describe('parseSearchQuery', () => {
+    it('should split included and excluded keywords', () => {
+      const terms = EventFilter.parseSearchQuery('Standup review -optional');
+
+      expect(terms.include).toEqual(['standup', 'review']);
+      expect(terms.exclude).toEqual(['optional']);
+    });
+
+    it('should keep quoted phrases together', () => {
+      const terms = EventFilter.parseSearchQuery('"team sync" -"focus time"');
+
+      expect(terms.include).toEqual(['team sync']);
+      expect(terms.exclude).toEqual(['focus time']);
+    });
+  });
+
+  describe('matchesSearchQuery', () => {
+    it('should match everything without a query', () => {
+      expect(EventFilter.matchesSearchQuery('Lunch', undefined)).toBe(true);
+      expect(EventFilter.matchesSearchQuery('Lunch', '  ')).toBe(true);
+    });
+
+    it('should require one of the included keywords', () => {
+      expect(EventFilter.matchesSearchQuery('Daily Standup', 'standup review')).toBe(true);
+      expect(EventFilter.matchesSearchQuery('Lunch', 'standup review')).toBe(false);
+    });
+
+    it('should reject excluded keywords', () => {
+      expect(EventFilter.matchesSearchQuery('Standup (optional)', 'standup -optional')).toBe(false);
+      expect(EventFilter.matchesSearchQuery('Lunch', '-"focus time"')).toBe(true);
+      expect(EventFilter.matchesSearchQuery('Focus Time', '-"focus time"')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { GoogleCalendarService, buildCalendarReminderJobId } from '../calendar/GoogleCalendarService';
+import { Config } from '../config/Config';
+import { ReminderQueue } from '../queue/ReminderQueue';
+import { CalendarSyncStore } from '../store/CalendarSyncStore';
+import {
+  CalDavAccountConfig,
+  CalendarConfig,
+  CalendarEvent,
+  CalendarEventFilter,
+  CalendarReminderPreferences,
+  CalendarRule,
+  IcsFeedConfig,
+} from '../types/CalendarTypes';
+
+jest.mock('googleapis', () => ({
+  google: {
+    auth: { GoogleAuth: jest.fn() },
+    calendar: jest.fn().mockReturnValue({}),
+  },
+}));
+
+/**
+ * Keeps jobs and calendar markers in memory, the way ReminderQueue keeps them in Redis
+ */
+class InMemoryReminderQueue {
+  jobs = new Map<string, any>();
+  calls = new Map<string, string>();
+  cancellations = new Map<string, string>();
+  addReminder = jest.fn(async (message: string, delayMs: number, userId: string, _channelId: string, _messageId: string, options: any) => {
+    const scheduledFor = new Date(Date.now() + delayMs).toISOString();
+    this.jobs.set(options.jobId, {
+      id: options.jobId,
+      data: { message, userId, scheduledFor, calendarEvent: options.calendarEvent },
+      getState: async () => 'delayed',
+      remove: async () => this.jobs.delete(options.jobId),
+    });
+    return { success: true, jobId: options.jobId, scheduledFor };
+  });
+
+  getScheduledTime(job: any): Date {
+    return new Date(job.data.scheduledFor);
+  }
+
+  async getReminder(jobId: string): Promise<any> {
+    return this.jobs.get(jobId) || null;
+  }
+
+  async getCalendarCancellation(jobId: string): Promise<string | null> {
+    return this.cancellations.get(jobId) || null;
+  }
+
+  async clearCalendarCancellation(jobId: string): Promise<void> {
+    this.cancellations.delete(jobId);
+  }
+
+  async markCalendarReminderCalled(jobId: string, startTime: string): Promise<void> {
+    this.calls.set(jobId, startTime);
+  }
+
+  async getCalendarCall(jobId: string): Promise<string | null> {
+    return this.calls.get(jobId) || null;
+  }
+
+  // What the worker does when it calls a reminder and BullMQ later trims the finished job
+  async callAndTrim(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    await this.markCalendarReminderCalled(jobId, job.data.calendarEvent.startTime);
+    this.jobs.delete(jobId);
+  }
+}
+
+describe('GoogleCalendarService', () => {
+  const config = {
+    googleCalendarEnabled: true,
+    googleServiceAccountKeyPath: '/tmp/key.json',
+    googleCalendarId: 'team@example.com',
+    defaultTimezone: 'UTC',
+    getCalendarConfig: (): CalendarConfig => ({
+      enabled: true,
+      syncIntervalMinutes: 5,
+      reminderAdvanceMinutes: 10,
+      maxEventsToProcess: 50,
+      calendars: ['team@example.com'],
+      includeAllDayEvents: false,
+      includeRecurringEvents: true,
+    }),
+    getCalendarReminderPreferences: (): CalendarReminderPreferences => ({
+      enabled: true,
+      advanceNoticeMinutes: [10],
+      ttsVoice: 'alice',
+      includeLocation: true,
+      includeDescription: true,
+      includeAttendees: true,
+    }),
+    getCalendarEventFilter: (): CalendarEventFilter => ({ includeDeclined: false }),
+    getCalendarRules: (): CalendarRule[] => [{ calendarId: 'team@example.com' }],
+    getIcsFeeds: (): IcsFeedConfig[] => [],
+    getCalDavAccounts: (): CalDavAccountConfig[] => [],
+  } as unknown as Config;
+  let queue: InMemoryReminderQueue;
+  let service: GoogleCalendarService;
+
+  const createEvent = (startsInMinutes: number): CalendarEvent => ({
+    id: 'event-1',
+    summary: 'Standup',
+    description: '',
+    startTime: new Date(Date.now() + startsInMinutes * 60 * 1000),
+    endTime: null,
+    location: '',
+    attendees: [],
+    calendarId: 'team@example.com',
+    calendarName: 'Team',
+    status: 'confirmed',
+    declined: false,
+    allDay: false,
+    recurring: false,
+  });
+
+  const sync = (event: CalendarEvent): Promise<void> => (service as any).processCalendarEvent(event);
+
+  beforeEach(() => {
+    queue = new InMemoryReminderQueue();
+    service = new GoogleCalendarService(config, queue as unknown as ReminderQueue, {} as CalendarSyncStore);
+  });
+
+  it('should not schedule an unchanged event twice', async () => {
+    const event = createEvent(60);
+
+    await sync(event);
+    await sync(event);
+
+    expect(queue.addReminder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not schedule a called reminder again after its job was removed', async () => {
+    const event = createEvent(5);
+    const jobId = buildCalendarReminderJobId(event.calendarId, event.id, 10);
+
+    await sync(event);
+    await queue.callAndTrim(jobId);
+    await sync(event);
+
+    expect(queue.addReminder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should schedule a new reminder when a called event moves later', async () => {
+    const event = createEvent(5);
+    const jobId = buildCalendarReminderJobId(event.calendarId, event.id, 10);
+
+    await sync(event);
+    await queue.callAndTrim(jobId);
+    await sync(createEvent(120));
+
+    expect(queue.addReminder).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep a reminder cancelled by its owner until the event moves', async () => {
+    const event = createEvent(60);
+    const jobId = buildCalendarReminderJobId(event.calendarId, event.id, 10);
+
+    await sync(event);
+    queue.cancellations.set(jobId, event.startTime.toISOString());
+    queue.jobs.delete(jobId);
+    await sync(event);
+    expect(queue.addReminder).toHaveBeenCalledTimes(1);
+
+    await sync(createEvent(120));
+    expect(queue.addReminder).toHaveBeenCalledTimes(2);
+    expect(queue.cancellations.has(jobId)).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import { IcsParser } from '../utils/icsParser';
+
+const loadFixture = (name: string, defaultTimezone = 'UTC') =>
+  IcsParser.parse(fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8'), defaultTimezone);
+
+describe('IcsParser', () => {
+  describe('parseDuration', () => {
+    it('should parse durations into milliseconds', () => {
+      expect(IcsParser.parseDuration('PT15M')).toBe(15 * 60 * 1000);
+      expect(IcsParser.parseDuration('-P1DT2H')).toBe(-26 * 60 * 60 * 1000);
+      expect(IcsParser.parseDuration('P1W')).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(IcsParser.parseDuration('PT0S')).toBe(0);
+    });
+
+    it('should reject invalid durations', () => {
+      expect(IcsParser.parseDuration('15M')).toBeNull();
+      expect(IcsParser.parseDuration('P')).toBeNull();
+      expect(IcsParser.parseDuration('PT')).toBeNull();
+    });
+  });
+
+  describe('single events', () => {
+    const calendar = loadFixture('basic.ics');
+    const occurrences = IcsParser.expand(calendar, new Date('2025-03-10T00:00:00Z'), new Date('2025-03-14T00:00:00Z'));
+
+    it('should read the calendar name and every event, sorted by start', () => {
+      expect(calendar.name).toBe('Team Calendar');
+      expect(occurrences.map(occurrence => occurrence.id)).toEqual([
+        'planning@example.com',
+        'call@example.com',
+        'floating@example.com',
+        'offsite@example.com',
+      ]);
+    });
+
+    it('should resolve TZID, UTC and floating times', () => {
+      const [planning, call, floating] = occurrences;
+
+      expect(planning.start.toISOString()).toBe('2025-03-10T13:00:00.000Z');
+      expect(planning.end?.toISOString()).toBe('2025-03-10T14:00:00.000Z');
+      expect(call.start.toISOString()).toBe('2025-03-11T15:00:00.000Z');
+      expect(call.end?.toISOString()).toBe('2025-03-11T15:30:00.000Z');
+      // Floating times use the feed's X-WR-TIMEZONE
+      expect(floating.start.toISOString()).toBe('2025-03-11T16:00:00.000Z');
+    });
+
+    it('should unescape and unfold text', () => {
+      const [planning, , , offsite] = occurrences;
+
+      expect(planning.summary).toBe('Sprint planning, Q1');
+      expect(planning.description).toBe('Bring your estimates.\nAgenda in the doc.');
+      expect(planning.location).toBe('Room 4');
+      expect(planning.attendees).toEqual(['ada@example.com', 'linus@example.com']);
+      expect(offsite.description).toBe(
+        'A very long description that is folded onto a second line by the exporting application.'
+      );
+    });
+
+    it('should read all-day events at midnight in the feed timezone', () => {
+      const offsite = occurrences[3];
+
+      expect(offsite.allDay).toBe(true);
+      expect(offsite.start.toISOString()).toBe('2025-03-12T04:00:00.000Z');
+      expect(offsite.end?.toISOString()).toBe('2025-03-13T04:00:00.000Z');
+    });
+
+    it('should turn VALARM triggers into minutes before the start', () => {
+      const [planning, call] = occurrences;
+
+      expect(planning.alarmMinutes).toEqual([60, 15]);
+      // 45 minutes before the end of a 30 minute call, the trigger after the start is ignored
+      expect(call.alarmMinutes).toEqual([15]);
+      expect(call.status).toBe('tentative');
+    });
+  });
+
+  describe('recurring events', () => {
+    const calendar = loadFixture('recurring.ics');
+    const expand = (uid: string, start: string, end: string) =>
+      IcsParser.expand(calendar, new Date(start), new Date(end)).filter(occurrence => occurrence.uid === uid);
+
+    it('should expand weekly rules with COUNT, EXDATE and overrides across a DST change', () => {
+      const standups = expand('standup@example.com', '2025-03-24T00:00:00Z', '2025-04-30T00:00:00Z');
+
+      expect(standups.map(standup => [standup.start.toISOString(), standup.summary, standup.status])).toEqual([
+        ['2025-03-24T08:30:00.000Z', 'Standup', 'confirmed'],
+        ['2025-03-28T10:00:00.000Z', 'Standup (moved)', 'confirmed'],
+        ['2025-03-31T07:30:00.000Z', 'Standup', 'cancelled'],
+        ['2025-04-02T07:30:00.000Z', 'Standup', 'confirmed'],
+        ['2025-04-04T07:30:00.000Z', 'Standup', 'confirmed'],
+      ]);
+      expect(standups.every(standup => standup.recurring)).toBe(true);
+      expect(standups[0].alarmMinutes).toEqual([10]);
+    });
+
+    it('should keep the original start in the ID of a moved occurrence', () => {
+      const moved = expand('standup@example.com', '2025-03-28T00:00:00Z', '2025-03-29T00:00:00Z');
+
+      expect(moved.map(occurrence => occurrence.id)).toEqual(['standup@example.com_20250328T083000Z']);
+    });
+
+    it('should expand monthly rules on the last weekday until UNTIL', () => {
+      const reviews = expand('review@example.com', '2025-01-01T00:00:00Z', '2025-12-31T00:00:00Z');
+
+      expect(reviews.map(review => review.start.toISOString())).toEqual([
+        '2025-01-31T21:00:00.000Z',
+        '2025-02-28T21:00:00.000Z',
+        '2025-03-28T20:00:00.000Z',
+        '2025-04-25T20:00:00.000Z',
+        '2025-05-30T20:00:00.000Z',
+        '2025-06-27T20:00:00.000Z',
+      ]);
+    });
+
+    it('should expand negative month days and add RDATEs', () => {
+      const payrolls = expand('payroll@example.com', '2025-01-01T00:00:00Z', '2025-05-01T00:00:00Z');
+
+      expect(payrolls.map(payroll => payroll.start.toISOString().slice(0, 10))).toEqual([
+        '2025-01-31',
+        '2025-02-15',
+        '2025-02-28',
+        '2025-03-31',
+        '2025-04-30',
+      ]);
+      expect(payrolls[0].id).toBe('payroll@example.com_20250131');
+    });
+
+    it('should only return occurrences inside the range', () => {
+      const sessions = expand('gym@example.com', '2025-03-10T00:00:00Z', '2025-03-14T00:00:00Z');
+
+      expect(sessions.map(session => session.start.toISOString())).toEqual([
+        '2025-03-11T07:00:00.000Z',
+        '2025-03-13T07:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('VTIMEZONE definitions', () => {
+    it('should resolve non-IANA TZIDs with the feed definition', () => {
+      const calendar = loadFixture('outlook.ics');
+      const occurrences = IcsParser.expand(calendar, new Date('2025-03-01T00:00:00Z'), new Date('2025-03-31T00:00:00Z'));
+
+      expect(occurrences.map(occurrence => occurrence.start.toISOString())).toEqual([
+        '2025-03-05T14:00:00.000Z',
+        '2025-03-12T13:00:00.000Z',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { RecurrenceParser } from '../utils/recurrenceParser';
+
+describe('RecurrenceParser', () => {
+  describe('natural language schedules', () => {
+    it('should parse weekday schedules', () => {
+      const result = RecurrenceParser.parse('every weekday 9am');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pattern).toBe('0 9 * * 1-5');
+      expect(result.description).toBe('every weekday at 9:00 AM');
+      expect(result.nextOccurrence).toBeInstanceOf(Date);
+    });
+
+    it('should parse lists of days', () => {
+      const result = RecurrenceParser.parse('every mon,wed,fri at 7:30pm');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pattern).toBe('30 19 * * 1,3,5');
+    });
+
+    it('should parse 24-hour times', () => {
+      const result = RecurrenceParser.parse('every day at 8:00');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pattern).toBe('0 8 * * *');
+    });
+
+    it('should parse the first and last weekday of the month', () => {
+      expect(RecurrenceParser.parse('first monday of the month 10am').pattern).toBe('0 10 * * 1#1');
+      expect(RecurrenceParser.parse('last friday of the month 5pm').pattern).toBe('0 17 * * 5L');
+    });
+
+    it('should parse monthly schedules on a day of the month', () => {
+      const result = RecurrenceParser.parse('every month on the 15th at 10am');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pattern).toBe('0 10 15 * *');
+    });
+
+    it('should parse minute and hour intervals', () => {
+      expect(RecurrenceParser.parse('every 15 minutes').pattern).toBe('*/15 * * * *');
+      expect(RecurrenceParser.parse('every 2 hours').pattern).toBe('0 */2 * * *');
+      expect(RecurrenceParser.parse('hourly').pattern).toBe('0 * * * *');
+    });
+
+    it('should reject schedules that call more often than the minimum interval', () => {
+      for (const schedule of ['every 1 minute', 'every 5 minutes', '* * * * *', 'RRULE:FREQ=MINUTELY', '0,5 9 * * *']) {
+        const result = RecurrenceParser.parse(schedule);
+        expect(result.isValid).toBe(false);
+        expect(result.error).toContain('at most every 15 minutes');
+      }
+    });
+
+    it('should take a custom minimum interval', () => {
+      expect(RecurrenceParser.parse('every 5 minutes', undefined, 5).isValid).toBe(true);
+      expect(RecurrenceParser.parse('every 2 hours', undefined, 180).isValid).toBe(false);
+    });
+
+    it('should reject schedules without a time', () => {
+      const result = RecurrenceParser.parse('every blursday');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('RRULE schedules', () => {
+    it('should parse weekly rules with COUNT', () => {
+      const result = RecurrenceParser.parse('RRULE:FREQ=WEEKLY;BYDAY=TU;BYHOUR=18;COUNT=10');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pattern).toBe('0 18 * * 2');
+      expect(result.limit).toBe(10);
+    });
+
+    it('should parse ordinal weekdays', () => {
+      const result = RecurrenceParser.parse('RRULE:FREQ=MONTHLY;BYDAY=2WE;BYHOUR=9;BYMINUTE=30');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pattern).toBe('30 9 * * 3#2');
+    });
+
+    it('should reject unsupported frequencies', () => {
+      const result = RecurrenceParser.parse('RRULE:FREQ=SECONDLY');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('SECONDLY');
+    });
+  });
+
+  describe('cron schedules', () => {
+    it('should accept valid cron expressions', () => {
+      const result = RecurrenceParser.parse('0 9 * * 1-5');
+
+      expect(result.isValid).toBe(true);
+      expect(result.pattern).toBe('0 9 * * 1-5');
+    });
+
+    it('should reject out of range cron fields', () => {
+      const result = RecurrenceParser.parse('61 * * * *');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should return the next matching time after the given date', () => {
+      const next = RecurrenceParser.getNextOccurrence('0 9 * * *', new Date(2030, 0, 1, 10, 0));
+
+      expect(next).toEqual(new Date(2030, 0, 2, 9, 0));
+    });
+
+    it('should read the pattern in the given timezone across DST changes', () => {
+      // Clocks in Berlin go forward on 2030-03-31
+      const before = RecurrenceParser.getNextOccurrence('0 9 * * *', new Date('2030-03-30T12:00:00Z'), 'Europe/Berlin');
+      const after = RecurrenceParser.getNextOccurrence('0 9 * * *', new Date('2030-03-31T12:00:00Z'), 'Europe/Berlin');
+
+      expect(before?.toISOString()).toBe('2030-03-31T07:00:00.000Z');
+      expect(after?.toISOString()).toBe('2030-04-01T07:00:00.000Z');
+    });
+
+    it('should keep the timezone on parsed schedules', () => {
+      const result = RecurrenceParser.parse('every weekday 9am', 'Asia/Tokyo');
+
+      expect(result.isValid).toBe(true);
+      expect(result.timezone).toBe('Asia/Tokyo');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteReminderRepository } from '../store/SqliteReminderRepository';
+import { NewReminderRecord, ReminderKind } from '../types/ReminderTypes';
+
+function buildRecord(id: string, kind: ReminderKind = 'once', userId = 'user-1'): NewReminderRecord {
+  return {
+    id,
+    userId,
+    channelId: 'channel-1',
+    message: `Reminder ${id}`,
+    kind,
+    fireAt: '2030-01-01T09:00:00.000Z',
+    createdAt: new Date().toISOString(),
+  };
+}
+
+describe('SqliteReminderRepository', () => {
+  let repository: SqliteReminderRepository;
+
+  beforeEach(() => {
+    repository = new SqliteReminderRepository(':memory:');
+  });
+
+  afterEach(async () => {
+    await repository.close();
+  });
+
+  describe('createReminder', () => {
+    it('should store a new reminder as scheduled', async () => {
+      await repository.createReminder(buildRecord('remind-1'));
+
+      const record = await repository.getReminder('remind-1');
+      expect(record).toMatchObject({ id: 'remind-1', userId: 'user-1', kind: 'once', status: 'scheduled' });
+      expect(record?.fireAt).toBe('2030-01-01T09:00:00.000Z');
+      expect((await repository.getStatusChanges('remind-1')).map(change => change.status)).toEqual(['scheduled']);
+    });
+
+    it('should leave an existing reminder alone', async () => {
+      await repository.createReminder(buildRecord('remind-1'));
+      await repository.setStatus('remind-1', 'answered');
+      await repository.createReminder({ ...buildRecord('remind-1'), message: 'Changed' });
+
+      const record = await repository.getReminder('remind-1');
+      expect(record?.message).toBe('Reminder remind-1');
+      expect(record?.status).toBe('answered');
+      expect(await repository.getStatusChanges('remind-1')).toHaveLength(2);
+    });
+  });
+
+  describe('setStatus', () => {
+    it('should record only real transitions', async () => {
+      await repository.createReminder(buildRecord('remind-1'));
+      await repository.setStatus('remind-1', 'calling');
+      await repository.setStatus('remind-1', 'calling');
+      await repository.setStatus('remind-1', 'failed', 'Invalid number');
+
+      const changes = await repository.getStatusChanges('remind-1');
+      expect(changes.map(change => change.status)).toEqual(['scheduled', 'calling', 'failed']);
+      expect(changes[2].detail).toBe('Invalid number');
+      expect(changes[1].detail).toBeUndefined();
+    });
+
+    it('should ignore unknown reminders', async () => {
+      await repository.setStatus('missing', 'cancelled');
+
+      expect(await repository.getReminder('missing')).toBeNull();
+      expect(await repository.getStatusChanges('missing')).toEqual([]);
+    });
+  });
+
+  describe('call attempts', () => {
+    it('should complete a placed call with its outcome and duration', async () => {
+      await repository.createReminder(buildRecord('remind-1'));
+      await repository.addCallAttempt('remind-1', {
+        jobId: 'remind-1',
+        attempt: 0,
+        callSid: 'CA1',
+        outcome: 'placed',
+        placedAt: '2030-01-01T09:00:00.000Z',
+      });
+      await repository.completeCallAttempt('CA1', 'answered', 42);
+
+      const [call] = await repository.getCallAttempts('remind-1');
+      expect(call).toMatchObject({ callSid: 'CA1', outcome: 'answered', durationSeconds: 42 });
+      expect(call.endedAt).toBeDefined();
+    });
+
+    it('should store a call only once', async () => {
+      await repository.createReminder(buildRecord('remind-1'));
+      const attempt = { jobId: 'remind-1', attempt: 0, callSid: 'CA1', outcome: 'placed', placedAt: '2030-01-01T09:00:00.000Z' };
+      await repository.addCallAttempt('remind-1', attempt);
+      await repository.addCallAttempt('remind-1', { ...attempt, outcome: 'duplicate' });
+
+      const calls = await repository.getCallAttempts('remind-1');
+      expect(calls).toHaveLength(1);
+      expect(calls[0].outcome).toBe('placed');
+    });
+  });
+
+  describe('getUserStats', () => {
+    it('should count reminders by outcome, leaving out occurrences of a series', async () => {
+      const statuses = [
+        ['active', 'scheduled'],
+        ['answered', 'answered'],
+        ['dm', 'discord-dm'],
+        ['failed', 'failed'],
+        ['undelivered', 'undelivered'],
+        ['cancelled', 'cancelled'],
+      ] as const;
+      for (const [id, status] of statuses) {
+        await repository.createReminder(buildRecord(id));
+        await repository.setStatus(id, status);
+      }
+      await repository.createReminder(buildRecord('series-1', 'recurring'));
+      await repository.createReminder({ ...buildRecord('repeat:1', 'occurrence'), seriesId: 'series-1' });
+      await repository.setStatus('repeat:1', 'acknowledged');
+      await repository.createReminder(buildRecord('other', 'once', 'user-2'));
+
+      expect(await repository.getUserStats('user-1')).toEqual({
+        userId: 'user-1',
+        totalReminders: 7,
+        activeReminders: 2,
+        completedReminders: 2,
+        failedReminders: 2,
+        cancelledReminders: 1,
+      });
+    });
+  });
+
+  describe('getUserReminders', () => {
+    it('should return the newest reminders first', async () => {
+      await repository.createReminder({ ...buildRecord('old'), createdAt: '2030-01-01T00:00:00.000Z' });
+      await repository.createReminder({ ...buildRecord('new'), createdAt: '2030-01-02T00:00:00.000Z' });
+      await repository.createReminder({ ...buildRecord('newest'), createdAt: '2030-01-03T00:00:00.000Z' });
+
+      expect((await repository.getUserReminders('user-1', 2)).map(record => record.id)).toEqual(['newest', 'new']);
+    });
+  });
+
+  describe('migrations', () => {
+    it('should keep the data of an existing database when it is opened again', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'reminders-'));
+      const filename = path.join(directory, 'nested', 'reminders.db');
+
+      try {
+        const first = new SqliteReminderRepository(filename);
+        await first.createReminder(buildRecord('remind-1'));
+        await first.close();
+
+        const second = new SqliteReminderRepository(filename);
+        expect((await second.getReminder('remind-1'))?.status).toBe('scheduled');
+        await second.close();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -113,6 +113,16 @@ describe('TimeParser', () => {
     });
 
     describe('date-time parsing', () => {
+      // The dates below are fixed, so the clock is too: 12/25/2024 has to be in the future
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2024-01-15T10:00:00Z'));
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
       it('should parse MM/DD/YYYY HH:MM format', () => {
         const result = TimeParser.parseTime('12/25/2024 9:00am');
         
@@ -129,6 +139,16 @@ describe('TimeParser', () => {
     });
 
     describe('UNIX timestamp parsing', () => {
+      // 1640995200 is 2022-01-01, pin the clock before it
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2021-12-01T10:00:00Z'));
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
       it('should parse 10-digit timestamps (seconds)', () => {
         const result = TimeParser.parseTime('1640995200');
         
@@ -166,6 +186,105 @@ describe('TimeParser', () => {
         expect(result.isValid).toBe(true);
         expect(result.originalInput).toBe('monday');
       });
+
+      it('should read natural language times in the given timezone', () => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2024-01-15T10:00:00Z')); // Monday 11:00 in Berlin
+
+        try {
+          expect(TimeParser.parseTime('tomorrow 9am', 'Europe/Berlin').timestamp.toISOString()).toBe('2024-01-16T08:00:00.000Z');
+          expect(TimeParser.parseTime('friday 14:30', 'Europe/Berlin').timestamp.toISOString()).toBe('2024-01-19T13:30:00.000Z');
+          // Without a time the call comes at 9:00am, a week ahead when that has passed today
+          expect(TimeParser.parseTime('monday', 'Europe/Berlin').timestamp.toISOString()).toBe('2024-01-22T08:00:00.000Z');
+          expect(TimeParser.parseTime('monday 5pm', 'Europe/Berlin').timestamp.toISOString()).toBe('2024-01-15T16:00:00.000Z');
+          expect(TimeParser.parseTime('next monday 5pm', 'Europe/Berlin').timestamp.toISOString()).toBe('2024-01-22T16:00:00.000Z');
+        } finally {
+          jest.useRealTimers();
+        }
+      });
+
+      it('should reject invalid natural language times', () => {
+        expect(TimeParser.parseTime('tomorrow 25:00').error).toContain('Invalid time values');
+      });
+    });
+  });
+
+  describe('timezones', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should read clock times in the given timezone', () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-15T10:00:00Z'));
+
+      // 11:00 in Berlin, so 9:00am is tomorrow
+      const berlin = TimeParser.parseTime('9:00am', 'Europe/Berlin');
+      expect(berlin.isValid).toBe(true);
+      expect(berlin.timestamp.toISOString()).toBe('2024-01-16T08:00:00.000Z');
+
+      // 02:00 in Los Angeles, so 9:00am is later today
+      const losAngeles = TimeParser.parseTime('9:00am', 'America/Los_Angeles');
+      expect(losAngeles.isValid).toBe(true);
+      expect(losAngeles.timestamp.toISOString()).toBe('2024-01-15T17:00:00.000Z');
+      expect(losAngeles.delayMs).toBe(7 * 60 * 60 * 1000);
+    });
+
+    it('should read dates in the given timezone', () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-15T10:00:00Z'));
+
+      const result = TimeParser.parseTime('12/25/2030 9:00am', 'Asia/Tokyo');
+
+      expect(result.isValid).toBe(true);
+      expect(result.timestamp.toISOString()).toBe('2030-12-25T00:00:00.000Z');
+    });
+
+    it('should handle the spring forward DST transition', () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-03-09T20:00:00Z')); // 3:00pm EST, clocks go forward overnight
+
+      const result = TimeParser.parseTime('9:00am', 'America/New_York');
+
+      expect(result.isValid).toBe(true);
+      expect(result.timestamp.toISOString()).toBe('2024-03-10T13:00:00.000Z'); // 9:00am EDT
+      expect(result.delayMs).toBe(17 * 60 * 60 * 1000);
+    });
+
+    it('should handle the fall back DST transition', () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-11-02T20:00:00Z')); // 4:00pm EDT, clocks go back overnight
+
+      const result = TimeParser.parseTime('9:00am', 'America/New_York');
+
+      expect(result.isValid).toBe(true);
+      expect(result.timestamp.toISOString()).toBe('2024-11-03T14:00:00.000Z'); // 9:00am EST
+      expect(result.delayMs).toBe(18 * 60 * 60 * 1000);
+    });
+
+    it('should move times skipped by DST forward', () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-03-09T20:00:00Z'));
+
+      // 2:30am does not exist on 2024-03-10 in New York
+      const result = TimeParser.parseTime('2:30am', 'America/New_York');
+
+      expect(result.isValid).toBe(true);
+      expect(result.timestamp.toISOString()).toBe('2024-03-10T07:30:00.000Z'); // 3:30am EDT
+    });
+
+    it('should validate timezone names', () => {
+      expect(TimeParser.isValidTimezone('Europe/Berlin')).toBe(true);
+      expect(TimeParser.isValidTimezone('America/Indiana/Indianapolis')).toBe(true);
+      expect(TimeParser.isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should format times in a timezone and as Discord timestamps', () => {
+      const date = new Date('2024-07-04T16:30:00Z');
+
+      expect(TimeParser.formatInTimezone(date, 'America/New_York')).toBe('Thu, Jul 4 2024, 12:30 PM EDT');
+      expect(TimeParser.formatDiscordTimestamp(date)).toBe('<t:1720110600:f>');
+      expect(TimeParser.formatDiscordTimestamp(date, 'R')).toBe('<t:1720110600:R>');
     });
   });
 
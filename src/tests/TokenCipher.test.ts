@@ -0,0 +1,34 @@
+import { TokenCipher } from '../utils/tokenCipher';
+
+describe('TokenCipher', () => {
+  const cipher = new TokenCipher('test-secret');
+
+  it('should round-trip a token', () => {
+    const encrypted = cipher.encrypt('1//refresh-token');
+
+    expect(encrypted).not.toContain('refresh-token');
+    expect(cipher.decrypt(encrypted)).toBe('1//refresh-token');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(cipher.encrypt('same')).not.toBe(cipher.encrypt('same'));
+  });
+
+  it('should reject tampered values', () => {
+    const [version, iv, tag, ciphertext] = cipher.encrypt('1//refresh-token').split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 0xff;
+
+    expect(() => cipher.decrypt([version, iv, tag, tampered.toString('base64')].join(':'))).toThrow();
+  });
+
+  it('should reject values encrypted with another key', () => {
+    const encrypted = new TokenCipher('other-secret').encrypt('1//refresh-token');
+
+    expect(() => cipher.decrypt(encrypted)).toThrow();
+  });
+
+  it('should require a key', () => {
+    expect(() => new TokenCipher('')).toThrow('not configured');
+  });
+});
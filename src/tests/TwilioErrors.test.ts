@@ -0,0 +1,47 @@
+import { TwilioErrors } from '../utils/twilioErrors';
+
+describe('TwilioErrors', () => {
+  describe('classify', () => {
+    it('should treat invalid numbers and account problems as permanent', () => {
+      expect(TwilioErrors.classify({ errorCode: 21211, httpStatus: 400 })).toBe('permanent');
+      expect(TwilioErrors.classify({ errorCode: 21219, httpStatus: 400 })).toBe('permanent');
+      expect(TwilioErrors.classify({ errorCode: 20003, httpStatus: 401 })).toBe('permanent');
+    });
+
+    it('should retry rate limits and Twilio outages', () => {
+      expect(TwilioErrors.classify({ errorCode: 20429, httpStatus: 429 })).toBe('transient');
+      expect(TwilioErrors.classify({ errorCode: 20503, httpStatus: 503 })).toBe('transient');
+    });
+
+    it('should retry network errors', () => {
+      expect(TwilioErrors.classify({ errorCode: 'ECONNRESET' })).toBe('transient');
+      expect(TwilioErrors.classify({ errorCode: 'ETIMEDOUT' })).toBe('transient');
+    });
+
+    it('should fall back to the HTTP status for unknown codes', () => {
+      expect(TwilioErrors.classify({ errorCode: 29999, httpStatus: 400 })).toBe('permanent');
+      expect(TwilioErrors.classify({ errorCode: 29999, httpStatus: 502 })).toBe('transient');
+      expect(TwilioErrors.classify({ httpStatus: 429 })).toBe('transient');
+      expect(TwilioErrors.classify({})).toBe('transient');
+    });
+  });
+
+  describe('extractDetails', () => {
+    it('should read the code and status of REST and network errors', () => {
+      const restError = Object.assign(new Error('Invalid number'), { code: 21211, status: 400 });
+      const networkError = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+      expect(TwilioErrors.extractDetails(restError)).toEqual({ errorCode: 21211, httpStatus: 400 });
+      expect(TwilioErrors.extractDetails(networkError)).toEqual({ errorCode: 'ECONNRESET' });
+      expect(TwilioErrors.extractDetails('boom')).toEqual({});
+    });
+  });
+
+  describe('describe', () => {
+    it('should describe known permanent codes', () => {
+      expect(TwilioErrors.describe(21211)).toBe("Invalid 'To' phone number");
+      expect(TwilioErrors.describe(20429)).toBeNull();
+      expect(TwilioErrors.describe('ECONNRESET')).toBeNull();
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import twilio from 'twilio';
 import { logger } from '../utils/logger';
 import { Config } from '../config/Config';
-import { TwilioCallOptions, TwilioCallResult } from '../types/ReminderTypes';
+import { TwilioErrors } from '../utils/twilioErrors';
+import { TwilioCallOptions, TwilioCallResult, TwilioMessageResult } from '../types/ReminderTypes';
 
 export class TwilioService {
   private client: twilio.Twilio;
@@ -27,6 +28,7 @@ export class TwilioService {
       language?: string;
       speed?: number;
       volume?: number;
+      reminderId?: string;
     }
   ): Promise<TwilioCallResult> {
     try {
@@ -36,16 +38,23 @@ export class TwilioService {
       const volume = options?.volume || 1.0;
 
       // Generate TwiML for TTS
-      const twiml = this.generateTTSResponse(message, voice, language, speed, volume);
+      const twiml = this.generateTTSResponse(message, voice, language, speed, volume, options?.reminderId);
 
       const callOptions: TwilioCallOptions = {
         to: targetPhone,
         from: this.config.twilioPhoneNumber,
         twiml: twiml,
-        statusCallback: `${process.env.BASE_URL || 'http://localhost:3000'}/twilio/status`,
+        statusCallback: this.buildStatusCallbackUrl(options?.reminderId),
+        statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+        statusCallbackMethod: 'POST',
         timeout: 30, // 30 second timeout
       };
 
+      // Answering machine detection lets unanswered reminders escalate on voicemail
+      if (options?.reminderId && this.config.twilioMachineDetection) {
+        callOptions.machineDetection = 'Enable';
+      }
+
       logger.info(`📞 Making TTS call to ${targetPhone} with message: "${message}"`);
 
       const call = await this.client.calls.create(callOptions);
@@ -64,6 +73,7 @@ export class TwilioService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
+        ...TwilioErrors.extractDetails(error),
       };
     }
   }
@@ -77,6 +87,7 @@ export class TwilioService {
     options?: {
       loop?: number;
       volume?: number;
+      reminderId?: string;
     }
   ): Promise<TwilioCallResult> {
     try {
@@ -84,16 +95,22 @@ export class TwilioService {
       const volume = options?.volume || 1.0;
 
       // Generate TwiML for audio playback
-      const twiml = this.generateAudioResponse(audioUrl, loop, volume);
+      const twiml = this.generateAudioResponse(audioUrl, loop, volume, options?.reminderId);
 
       const callOptions: TwilioCallOptions = {
         to: targetPhone,
         from: this.config.twilioPhoneNumber,
         twiml: twiml,
-        statusCallback: `${process.env.BASE_URL || 'http://localhost:3000'}/twilio/status`,
+        statusCallback: this.buildStatusCallbackUrl(options?.reminderId),
+        statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+        statusCallbackMethod: 'POST',
         timeout: 30,
       };
 
+      if (options?.reminderId && this.config.twilioMachineDetection) {
+        callOptions.machineDetection = 'Enable';
+      }
+
       logger.info(`📞 Making audio call to ${targetPhone} with audio: ${audioUrl}`);
 
       const call = await this.client.calls.create(callOptions);
@@ -112,25 +129,86 @@ export class TwilioService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
+        ...TwilioErrors.extractDetails(error),
+      };
+    }
+  }
+
+  /**
+   * Send an SMS message
+   */
+  async sendSms(targetPhone: string, body: string): Promise<TwilioMessageResult> {
+    try {
+      logger.info(`💬 Sending SMS to ${targetPhone}`);
+
+      const message = await this.client.messages.create({
+        to: targetPhone,
+        from: this.config.twilioPhoneNumber,
+        body,
+      });
+
+      logger.info(`✅ SMS sent successfully. Message SID: ${message.sid}`);
+
+      return {
+        success: true,
+        messageSid: message.sid,
+      };
+
+    } catch (error) {
+      logger.error('❌ Failed to send SMS:', error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        ...TwilioErrors.extractDetails(error),
       };
     }
   }
 
   /**
-   * Generate TwiML response for TTS
+   * Build the status callback URL, tagged with the reminder the call belongs to
    */
-  private generateTTSResponse(
+  private buildStatusCallbackUrl(reminderId?: string): string {
+    const url = `${this.config.baseUrl}/twilio/status`;
+    return reminderId ? `${url}?reminderId=${encodeURIComponent(reminderId)}` : url;
+  }
+
+  /**
+   * Build the URL the <Gather> keypress is posted to
+   */
+  private buildGatherUrl(reminderId: string, repeatCount: number = 0): string {
+    const params = new URLSearchParams({ reminderId });
+    if (repeatCount > 0) {
+      params.set('repeat', repeatCount.toString());
+    }
+    return `${this.config.baseUrl}/twilio/gather?${params.toString()}`;
+  }
+
+  /**
+   * Spoken menu offered after the reminder message
+   */
+  private buildMenuPrompt(): string {
+    return `Press 1 to confirm this reminder. Press 2 to snooze it for ${this.config.ivrSnoozeMinutes} minutes. Press 3 to hear it again.`;
+  }
+
+  /**
+   * Generate TwiML response for TTS. When a reminder ID is given the message is
+   * wrapped in a <Gather> so the callee can confirm, snooze or repeat it.
+   */
+  generateTTSResponse(
     message: string,
     voice: string = 'alice',
     language: string = 'en-US',
     speed: number = 1.0,
-    volume: number = 1.0
+    volume: number = 1.0,
+    reminderId?: string,
+    repeatCount: number = 0
   ): string {
     // Sanitize the message for XML
     const sanitizedMessage = this.sanitizeMessage(message);
-    
-    // Create TwiML response
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+
+    if (!reminderId) {
+      return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   <Say voice="${voice}" language="${language}" speed="${speed}" volume="${volume}">
     ${sanitizedMessage}
@@ -140,6 +218,24 @@ export class TwilioService {
     This was your scheduled reminder. Goodbye!
   </Say>
 </Response>`;
+    }
+
+    // Create TwiML response with keypress menu
+    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather numDigits="1" timeout="8" method="POST" action="${this.sanitizeMessage(this.buildGatherUrl(reminderId, repeatCount))}">
+    <Say voice="${voice}" language="${language}" speed="${speed}" volume="${volume}">
+      ${sanitizedMessage}
+    </Say>
+    <Pause length="1"/>
+    <Say voice="${voice}" language="${language}">
+      ${this.buildMenuPrompt()}
+    </Say>
+  </Gather>
+  <Say voice="${voice}" language="${language}">
+    We did not receive a response. This was your scheduled reminder. Goodbye!
+  </Say>
+</Response>`;
 
     return twiml;
   }
@@ -147,23 +243,56 @@ export class TwilioService {
   /**
    * Generate TwiML response for audio playback
    */
-  private generateAudioResponse(
+  generateAudioResponse(
     audioUrl: string,
     loop: number = 1,
-    volume: number = 1.0
+    volume: number = 1.0,
+    reminderId?: string,
+    repeatCount: number = 0
   ): string {
-    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+    const sanitizedUrl = this.sanitizeMessage(audioUrl);
+
+    if (!reminderId) {
+      return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Play loop="${loop}" volume="${volume}">${audioUrl}</Play>
+  <Play loop="${loop}" volume="${volume}">${sanitizedUrl}</Play>
   <Pause length="1"/>
   <Say voice="alice">
     This was your scheduled reminder. Goodbye!
   </Say>
 </Response>`;
+    }
+
+    const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather numDigits="1" timeout="8" method="POST" action="${this.sanitizeMessage(this.buildGatherUrl(reminderId, repeatCount))}">
+    <Play loop="${loop}" volume="${volume}">${sanitizedUrl}</Play>
+    <Pause length="1"/>
+    <Say voice="alice">
+      ${this.buildMenuPrompt()}
+    </Say>
+  </Gather>
+  <Say voice="alice">
+    We did not receive a response. This was your scheduled reminder. Goodbye!
+  </Say>
+</Response>`;
 
     return twiml;
   }
 
+  /**
+   * Generate TwiML that speaks a short message and hangs up
+   */
+  generateSayAndHangupResponse(message: string, voice: string = 'alice'): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say voice="${voice}">
+    ${this.sanitizeMessage(message)}
+  </Say>
+  <Hangup/>
+</Response>`;
+  }
+
   /**
    * Sanitize message for XML safety
    */
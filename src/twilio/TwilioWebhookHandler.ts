@@ -0,0 +1,288 @@
+import twilio from 'twilio';
+import { logger } from '../utils/logger';
+import { Config } from '../config/Config';
+import { CallOutcomeStore } from '../store/CallOutcomeStore';
+import { RateLimiter } from '../store/RateLimiter';
+import { ReminderQueue } from '../queue/ReminderQueue';
+import { TwilioService } from './TwilioService';
+import { WebhookRequest, WebhookResponse, WebhookServer } from '../server/WebhookServer';
+import { CallOutcome, ReminderJobData, ReminderResponse } from '../types/ReminderTypes';
+
+export type CallStatusListener = (outcome: CallOutcome) => Promise<void> | void;
+export type ReminderResponseListener = (
+  reminderId: string,
+  reminder: ReminderJobData,
+  response: ReminderResponse
+) => Promise<void> | void;
+
+const MAX_MESSAGE_REPEATS = 3;
+
+export class TwilioWebhookHandler {
+  private config: Config;
+  private callOutcomeStore: CallOutcomeStore;
+  private reminderQueue: ReminderQueue;
+  private twilioService: TwilioService;
+  private rateLimiter: RateLimiter;
+  private callStatusListeners: CallStatusListener[] = [];
+  private reminderResponseListeners: ReminderResponseListener[] = [];
+
+  constructor(
+    config: Config,
+    callOutcomeStore: CallOutcomeStore,
+    reminderQueue: ReminderQueue,
+    twilioService: TwilioService,
+    rateLimiter: RateLimiter
+  ) {
+    this.config = config;
+    this.callOutcomeStore = callOutcomeStore;
+    this.reminderQueue = reminderQueue;
+    this.twilioService = twilioService;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Register the Twilio webhook routes on the server
+   */
+  register(server: WebhookServer): void {
+    server.registerRoute('POST', '/twilio/status', (request) => this.handleStatusCallback(request));
+    server.registerRoute('POST', '/twilio/gather', (request) => this.handleGather(request));
+  }
+
+  /**
+   * Subscribe to call status updates (called after the outcome has been persisted)
+   */
+  onCallStatus(listener: CallStatusListener): void {
+    this.callStatusListeners.push(listener);
+  }
+
+  /**
+   * Subscribe to keypress responses given during reminder calls
+   */
+  onReminderResponse(listener: ReminderResponseListener): void {
+    this.reminderResponseListeners.push(listener);
+  }
+
+  /**
+   * Check the X-Twilio-Signature header against the public request URL and form params
+   */
+  validateSignature(request: WebhookRequest): boolean {
+    if (!this.config.twilioWebhookValidation) {
+      return true;
+    }
+
+    const signature = request.headers['x-twilio-signature'];
+    if (typeof signature !== 'string' || !signature) {
+      return false;
+    }
+
+    return twilio.validateRequest(this.config.twilioAuthToken, signature, request.url, request.params);
+  }
+
+  private async handleStatusCallback(request: WebhookRequest): Promise<WebhookResponse> {
+    if (!this.validateSignature(request)) {
+      logger.warn(`⚠️ Rejected Twilio status callback with invalid signature for ${request.url}`);
+      return { status: 403, body: 'Invalid signature' };
+    }
+
+    const { CallSid, CallStatus, CallDuration, AnsweredBy, SequenceNumber, To } = request.params;
+    if (!CallSid || !CallStatus) {
+      return { status: 400, body: 'Missing CallSid or CallStatus' };
+    }
+
+    const update: Parameters<CallOutcomeStore['recordStatus']>[1] = { status: CallStatus };
+    if (request.query.reminderId) {
+      update.reminderId = request.query.reminderId;
+    }
+    if (To) {
+      update.to = To;
+    }
+    if (CallDuration) {
+      update.durationSeconds = parseInt(CallDuration, 10);
+    }
+    if (AnsweredBy) {
+      update.answeredBy = AnsweredBy;
+    }
+    if (SequenceNumber) {
+      update.sequenceNumber = parseInt(SequenceNumber, 10);
+    }
+
+    try {
+      const outcome = await this.callOutcomeStore.recordStatus(CallSid, update);
+
+      if (outcome) {
+        await this.notifyCallStatusListeners(outcome);
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to process status callback for call ${CallSid}:`, error);
+      // Let Twilio retry the callback
+      return { status: 500 };
+    }
+
+    return { status: 204 };
+  }
+
+  private async handleGather(request: WebhookRequest): Promise<WebhookResponse> {
+    if (!this.validateSignature(request)) {
+      logger.warn(`⚠️ Rejected Twilio gather callback with invalid signature for ${request.url}`);
+      return { status: 403, body: 'Invalid signature' };
+    }
+
+    const reminderId = request.query.reminderId;
+    const { CallSid, Digits } = request.params;
+    if (!reminderId || !CallSid) {
+      return { status: 400, body: 'Missing reminderId or CallSid' };
+    }
+
+    const job = await this.reminderQueue.getReminder(reminderId);
+    if (!job) {
+      logger.warn(`⚠️ Keypress received for unknown reminder ${reminderId}`);
+      return this.twimlResponse(
+        this.twilioService.generateSayAndHangupResponse('Sorry, this reminder is no longer available. Goodbye!')
+      );
+    }
+
+    const reminder = job.data;
+    const voice = reminder.ttsVoice || this.config.defaultTtsVoice;
+    logger.info(`☎️ Keypress "${Digits || ''}" on call ${CallSid} for reminder ${reminderId}`);
+
+    switch (Digits) {
+      case '1': {
+        await this.recordResponse(reminderId, reminder, {
+          action: 'acknowledged',
+          digit: Digits,
+          callSid: CallSid,
+          respondedAt: new Date().toISOString(),
+        });
+
+        return this.twimlResponse(
+          this.twilioService.generateSayAndHangupResponse('Thank you, your reminder has been confirmed. Goodbye!', voice)
+        );
+      }
+
+      case '2': {
+        const snoozeMs = this.config.ivrSnoozeMinutes * 60 * 1000;
+        // Twilio retries webhooks, a call snoozes its reminder only once
+        const snoozeJobId = `snooze-${CallSid}`;
+        const snoozedTwiml = this.twilioService.generateSayAndHangupResponse(
+          `Your reminder has been snoozed for ${this.config.ivrSnoozeMinutes} minutes. Goodbye!`,
+          voice
+        );
+
+        try {
+          if (await this.reminderQueue.getReminder(snoozeJobId)) {
+            logger.info(`💤 Reminder ${reminderId} was already snoozed by call ${CallSid}`);
+            return this.twimlResponse(snoozedTwiml);
+          }
+
+          // A snooze adds a reminder, so it counts against the same cap and creation limit as ?remind
+          const activeReminders = await this.reminderQueue.getUserReminders(reminder.userId);
+          const quotaDenial = await this.rateLimiter.consumeReminderQuota(reminder.userId, activeReminders.length);
+          if (quotaDenial) {
+            logger.warn(`⚠️ Not snoozing reminder ${reminderId}, user ${reminder.userId} is over their reminder quota (${quotaDenial.reason})`);
+            return this.twimlResponse(
+              this.twilioService.generateSayAndHangupResponse(
+                'Sorry, you have reached your reminder limit, so this reminder could not be snoozed. Goodbye!',
+                voice
+              )
+            );
+          }
+
+          const snoozeJob = await this.reminderQueue.addReminder(
+            reminder.message,
+            snoozeMs,
+            reminder.userId,
+            reminder.channelId,
+            reminder.messageId,
+            { ...this.buildReminderOptions(reminder), jobId: snoozeJobId }
+          );
+
+          const response: ReminderResponse = {
+            action: 'snoozed',
+            digit: Digits,
+            callSid: CallSid,
+            respondedAt: new Date().toISOString(),
+            snoozedUntil: new Date(Date.now() + snoozeMs).toISOString(),
+          };
+          if (snoozeJob.id) {
+            response.snoozeJobId = snoozeJob.id;
+          }
+
+          await this.recordResponse(reminderId, reminder, response);
+        } catch (error) {
+          logger.error(`❌ Failed to snooze reminder ${reminderId}:`, error);
+          return this.twimlResponse(
+            this.twilioService.generateSayAndHangupResponse('Sorry, we could not snooze your reminder. Goodbye!', voice)
+          );
+        }
+
+        return this.twimlResponse(snoozedTwiml);
+      }
+
+      case '3': {
+        const repeatCount = parseInt(request.query.repeat || '0', 10) + 1;
+        if (repeatCount > MAX_MESSAGE_REPEATS) {
+          return this.twimlResponse(
+            this.twilioService.generateSayAndHangupResponse('This was your scheduled reminder. Goodbye!', voice)
+          );
+        }
+
+        const twiml = reminder.audioFile
+          ? this.twilioService.generateAudioResponse(reminder.audioFile, 1, 1.0, reminderId, repeatCount)
+          : this.twilioService.generateTTSResponse(reminder.message, voice, 'en-US', 1.0, 1.0, reminderId, repeatCount);
+
+        return this.twimlResponse(twiml);
+      }
+
+      default:
+        return this.twimlResponse(
+          this.twilioService.generateSayAndHangupResponse('This was your scheduled reminder. Goodbye!', voice)
+        );
+    }
+  }
+
+  private buildReminderOptions(reminder: ReminderJobData): Parameters<ReminderQueue['addReminder']>[5] {
+    const options: Parameters<ReminderQueue['addReminder']>[5] = {};
+    if (reminder.ttsVoice) {
+      options.ttsVoice = reminder.ttsVoice;
+    }
+    if (reminder.audioFile) {
+      options.audioFile = reminder.audioFile;
+    }
+    if (reminder.priority) {
+      options.priority = reminder.priority;
+    }
+    if (reminder.escalation) {
+      options.escalation = reminder.escalation;
+    }
+    if (reminder.phoneNumber) {
+      options.phoneNumber = reminder.phoneNumber;
+    }
+    return options;
+  }
+
+  private async recordResponse(reminderId: string, reminder: ReminderJobData, response: ReminderResponse): Promise<void> {
+    await this.reminderQueue.recordResponse(reminderId, response);
+
+    for (const listener of this.reminderResponseListeners) {
+      try {
+        await listener(reminderId, reminder, response);
+      } catch (error) {
+        logger.error(`❌ Reminder response listener failed for reminder ${reminderId}:`, error);
+      }
+    }
+  }
+
+  private twimlResponse(twiml: string): WebhookResponse {
+    return { status: 200, body: twiml, contentType: 'text/xml' };
+  }
+
+  private async notifyCallStatusListeners(outcome: CallOutcome): Promise<void> {
+    for (const listener of this.callStatusListeners) {
+      try {
+        await listener(outcome);
+      } catch (error) {
+        logger.error(`❌ Call status listener failed for call ${outcome.callSid}:`, error);
+      }
+    }
+  }
+}
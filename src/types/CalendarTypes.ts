@@ -8,6 +8,12 @@ export interface CalendarEvent {
   location: string;              // Event location
   attendees: string[];           // List of attendee emails
   calendarId: string;            // Calendar ID (usually 'primary')
+  calendarName: string;          // Label of the calendar the event came from
+  status: string;                // 'confirmed', 'tentative' or 'cancelled' (deleted)
+  declined: boolean;             // Whether the calendar owner declined the event
+  allDay: boolean;               // Whether the event lasts all day (starts at local midnight)
+  recurring: boolean;            // Whether the event is an instance of a recurring event
+  alarmMinutes?: number[];       // The event's own alarms (ICS VALARM), minutes before the start
 }
 
 // Calendar reminder structure
@@ -29,6 +35,16 @@ export interface CalendarSyncStatus {
   errors: string[];              // Any sync errors
 }
 
+// What one calendar sync changed
+export interface CalendarSyncResult {
+  eventsProcessed: number;       // New, changed and deleted events looked at
+  remindersScheduled: number;    // Reminders added
+  remindersMoved: number;        // Pending reminders moved or reworded
+  remindersCancelled: number;    // Pending reminders cancelled
+  fullSync: boolean;             // Whether a calendar was listed in full instead of incrementally
+  errors: string[];              // Calendars that failed to sync
+}
+
 // Calendar configuration
 export interface CalendarConfig {
   enabled: boolean;              // Whether calendar integration is enabled
@@ -40,6 +56,34 @@ export interface CalendarConfig {
   includeRecurringEvents: boolean; // Whether to include recurring events
 }
 
+// Reminder rules of one monitored calendar (unset fields fall back to the global preferences)
+export interface CalendarRule {
+  calendarId: string;            // Google Calendar ID
+  name?: string;                 // Label shown with the calendar's events
+  advanceNoticeMinutes?: number[]; // Reminder times for this calendar's events
+  ttsVoice?: string;             // TTS voice for this calendar's reminders
+  filter?: CalendarEventFilter;  // searchQuery: keywords to include, -keyword to exclude
+  discordUserId?: string;        // Owner of the reminders (their verified phone is called)
+  phoneNumber?: string;          // Number to call, overrides the owner's phone
+  channelId?: string;            // Discord channel the reminders are posted to
+}
+
+// An ICS/iCal feed and the rules of its events
+export interface IcsFeedConfig {
+  url: string;                   // http(s)/webcal URL or path of a local .ics file
+  rule: CalendarRule;            // calendarId is `ics:<name>`
+}
+
+// A CalDAV account whose calendars are discovered and polled
+export interface CalDavAccountConfig {
+  name: string;                  // Prefix of the calendar IDs (`caldav:<name>/<calendar>`)
+  url: string;                   // Server, principal or calendar home URL
+  username?: string;
+  password?: string;
+  calendars?: string[];          // Display names (or path segments) to monitor, all calendars when unset
+  rule: CalendarRule;            // Rules of the account's events
+}
+
 // Calendar event filter options
 export interface CalendarEventFilter {
   startDate?: Date;              // Start date for event range
@@ -60,3 +104,26 @@ export interface CalendarReminderPreferences {
   includeAttendees: boolean;     // Whether to include attendee list
   customMessage?: string;        // Custom message prefix/suffix
 }
+
+// A pending reminder call listed in a daily agenda
+export interface AgendaReminder {
+  message: string;               // Reminder message
+  fireAt: Date;                  // When the reminder calls
+}
+
+// Free time between two meetings
+export interface AgendaGap {
+  start: Date;
+  end: Date;
+}
+
+// Schedule of one day, read out by the daily agenda call
+export interface DailyAgenda {
+  start: Date;                   // Start of the agenda (the time of the call)
+  end: Date;                     // End of the day in the agenda's timezone
+  timezone: string;              // IANA zone the times are read in
+  meetings: CalendarEvent[];     // Timed events, by start time
+  allDayEvents: CalendarEvent[];
+  reminders: AgendaReminder[];   // The user's own reminder calls, by time
+  gaps: AgendaGap[];             // Free time between meetings
+}
@@ -8,6 +8,97 @@ export interface ReminderJobData {
   audioFile?: string;        // Optional audio file URL to play instead of TTS
   priority?: number;         // Job priority (higher = more important)
   createdAt: string;         // ISO timestamp when reminder was created
+  response?: ReminderResponse; // Keypress response given during the reminder call
+  escalation?: EscalationPolicy; // What to do when the call is not answered
+  deliveryAttempt?: number;  // 0 for the original call, 1..N for redials
+  originalReminderId?: string; // Job ID of the first attempt (set on redials)
+  recurrence?: ReminderRecurrence; // Schedule for recurring reminders
+  scheduledFor?: string;     // ISO fire time, kept up to date when the reminder is moved (unset on occurrences of a series)
+  edits?: ReminderEdit[];    // Audit trail of changes made after creation
+  calendarEvent?: ReminderCalendarEvent; // Calendar event the reminder was created for
+  phoneNumber?: string;      // Number to call instead of the owner's verified phone
+  agenda?: ReminderAgenda;   // Set on daily agenda calls, whose message is built when the call is placed
+  calendarCopy?: ReminderCalendarCopy; // Event added to the owner's linked calendar for the reminder
+}
+
+// Event on a linked Google Calendar that mirrors a ?remind reminder
+export interface ReminderCalendarCopy {
+  calendarId: string;        // Linked calendar the event was added to
+  eventId: string;           // Google Calendar event ID
+}
+
+// Daily agenda briefing behind a recurring agenda call
+export interface ReminderAgenda {
+  timezone: string;          // IANA zone the agenda's day is read in
+}
+
+// Calendar event behind a calendar reminder
+export interface ReminderCalendarEvent {
+  calendarId: string;        // Calendar the event was read from
+  eventId: string;           // Calendar event ID
+  offsetMinutes: number;     // How long before the event start the reminder fires
+  startTime: string;         // ISO event start the reminder was scheduled for
+}
+
+// One change made to a pending reminder
+export interface ReminderEdit {
+  editedAt: string;          // ISO timestamp of the change
+  editedBy: string;          // Discord user ID who made the change
+  previousMessage?: string;  // Set when the message changed
+  message?: string;
+  previousFireTime?: string; // Set when the reminder was moved (ISO timestamps)
+  fireTime?: string;
+}
+
+// Schedule of a recurring reminder (stored with every occurrence)
+export interface ReminderRecurrence {
+  pattern: string;           // Cron pattern used for the BullMQ repeatable job
+  description: string;       // Human-readable schedule, e.g. "every weekday at 9:00 AM"
+  seriesId: string;          // Stable ID of the series (shared by all occurrences)
+  endDate?: string;          // ISO timestamp after which the series stops
+  limit?: number;            // Maximum number of occurrences
+  timezone?: string;         // IANA zone of the schedule
+}
+
+// Escalation policy for unanswered reminder calls
+export interface EscalationPolicy {
+  maxRedials: number;        // How many times to redial after the first call
+  redialSpacingMs: number;   // Delay between redials
+  smsFallback: boolean;      // Send an SMS once redials are exhausted
+  discordFallback: boolean;  // DM the Discord user once redials are exhausted
+}
+
+// Single step taken while delivering a reminder
+export interface DeliveryStep {
+  type: 'call' | 'redial' | 'sms' | 'discord-dm' | 'keypress'; // Delivery channel used
+  outcome: string;           // e.g. "answered", "no-answer", "voicemail", "sent", "failed"
+  timestamp: string;         // ISO timestamp of the step
+  attempt?: number;          // Call attempt number (0 = original call)
+  callSid?: string;          // Twilio call SID for call steps
+  detail?: string;           // Extra information (error message, message SID)
+}
+
+// How a reminder was ultimately delivered
+export type DeliveryStatus = 'in-progress' | 'answered' | 'acknowledged' | 'sms' | 'discord-dm' | 'undelivered';
+
+// Delivery history of a reminder and all of its redials
+export interface DeliveryRecord {
+  reminderId: string;        // Job ID of the original reminder
+  status: DeliveryStatus;    // Final (or current) delivery status
+  steps: DeliveryStep[];     // Steps in the order they happened
+}
+
+// What the callee chose in the reminder call menu
+export type ReminderResponseAction = 'acknowledged' | 'snoozed';
+
+// Keypress response recorded against a reminder
+export interface ReminderResponse {
+  action: ReminderResponseAction; // Result of the keypress
+  digit: string;             // Digit that was pressed
+  callSid: string;           // Call the response was given on
+  respondedAt: string;       // ISO timestamp of the keypress
+  snoozedUntil?: string;     // ISO timestamp the snoozed reminder will fire
+  snoozeJobId?: string;      // Job ID of the re-enqueued reminder
 }
 
 // Reminder job result
@@ -17,6 +108,7 @@ export interface ReminderJobResult {
   timestamp: string;         // ISO timestamp when processed
   message: string;           // Result message or error description
   callSid?: string;         // Twilio call SID if call was made
+  callStatus?: string;       // Call status reported by Twilio when the call was created
 }
 
 // Reminder command parsing result
@@ -26,6 +118,9 @@ export interface ParsedReminderCommand {
   timestamp: Date;           // Absolute timestamp when reminder should fire
   isValid: boolean;          // Whether the command is valid
   error?: string | undefined; // Error message if invalid
+  escalation?: EscalationPolicy; // Escalation policy overrides from command flags
+  recurrence?: RecurrenceParseResult; // Recurrence schedule (from -r flag)
+  calendarWriteBack?: boolean; // Add the reminder to the linked calendar (--calendar / --no-calendar), overrides the user setting
 }
 
 // Twilio call options
@@ -34,6 +129,9 @@ export interface TwilioCallOptions {
   from: string;              // Twilio phone number
   twiml: string;             // TwiML instructions
   statusCallback?: string;   // Optional webhook for call status updates
+  statusCallbackEvent?: string[]; // Call progress events to report to the status callback
+  statusCallbackMethod?: string; // HTTP method used for the status callback
+  machineDetection?: string; // Answering machine detection mode ("Enable" / "DetectMessageEnd")
   timeout?: number;          // Call timeout in seconds
 }
 
@@ -42,15 +140,118 @@ export interface TwilioCallResult {
   success: boolean;          // Whether the call was initiated successfully
   callSid?: string;         // Twilio call SID
   error?: string;            // Error message if failed
+  errorCode?: number | string; // Twilio error code (or network error code) if failed
+  httpStatus?: number;       // HTTP status of the failed Twilio request
   status?: string;           // Call status
 }
 
+// Twilio SMS result
+export interface TwilioMessageResult {
+  success: boolean;          // Whether the message was accepted by Twilio
+  messageSid?: string;       // Twilio message SID
+  error?: string;            // Error message if failed
+  errorCode?: number | string; // Twilio error code (or network error code) if failed
+  httpStatus?: number;       // HTTP status of the failed Twilio request
+}
+
+// Twilio call lifecycle status (as reported by status callbacks)
+export type CallLifecycleStatus =
+  | 'queued'
+  | 'initiated'
+  | 'ringing'
+  | 'in-progress'
+  | 'completed'
+  | 'busy'
+  | 'no-answer'
+  | 'failed'
+  | 'canceled';
+
+// Single status transition reported for a call
+export interface CallStatusEvent {
+  status: CallLifecycleStatus; // Status reported by Twilio
+  timestamp: string;         // ISO timestamp when the status was received
+  sequenceNumber?: number;   // Twilio callback sequence number (for ordering)
+}
+
+// Persisted outcome of a reminder call
+export interface CallOutcome {
+  callSid: string;           // Twilio call SID
+  reminderId: string;        // BullMQ job ID of the originating reminder
+  to: string;                // Number that was dialled
+  status: CallLifecycleStatus; // Latest known call status
+  answered: boolean;         // Whether the call was picked up
+  answeredBy?: string;       // Answering machine detection result (if enabled)
+  durationSeconds?: number;  // Call duration once the call has ended
+  events: CallStatusEvent[]; // Status history in the order it was received
+  createdAt: string;         // ISO timestamp when the call was placed
+  updatedAt: string;         // ISO timestamp of the last status update
+}
+
+// What kind of reminder a stored record is
+export type ReminderKind =
+  | 'once'                   // ?remind reminder that fires once
+  | 'recurring'              // Recurring series (its calls are 'occurrence' records)
+  | 'occurrence'             // One call of a recurring series
+  | 'calendar'               // Reminder of a calendar event
+  | 'agenda';                // Daily agenda series
+
+// Where a stored reminder stands
+export type ReminderStatus =
+  | 'scheduled'              // Waiting to fire (series stay scheduled until cancelled)
+  | 'calling'                // Call placed, waiting for its outcome or a redial
+  | 'answered'               // Call picked up
+  | 'acknowledged'           // Confirmed with a keypress
+  | 'snoozed'                // Snoozed with a keypress (the snooze is a new reminder)
+  | 'sms'                    // Delivered by the SMS fallback
+  | 'discord-dm'             // Delivered by the Discord DM fallback
+  | 'undelivered'            // Every delivery channel failed
+  | 'failed'                 // The call could not be placed (dead-lettered)
+  | 'skipped'                // Occurrence skipped with ?cancel --once
+  | 'cancelled';             // Cancelled before it fired
+
+// Reminder as kept by the reminder repository, independent of BullMQ retention
+export interface ReminderRecord {
+  id: string;                // Job ID of the first call (series ID for recurring series)
+  userId: string;            // Discord user ID of the owner
+  channelId: string;         // Discord channel the reminder was set in
+  message: string;           // Reminder message
+  kind: ReminderKind;
+  status: ReminderStatus;
+  seriesId?: string;         // Series an occurrence belongs to
+  schedule?: string;         // Human-readable schedule of recurring series
+  fireAt?: string;           // ISO time the reminder is (or was) due
+  createdAt: string;         // ISO timestamp the record was created
+  updatedAt: string;         // ISO timestamp of the last change
+}
+
+// New reminder record, it starts out scheduled
+export type NewReminderRecord = Omit<ReminderRecord, 'status' | 'updatedAt'>;
+
+// One status transition of a stored reminder
+export interface ReminderStatusChange {
+  status: ReminderStatus;
+  detail?: string;           // e.g. the error of a failed reminder
+  changedAt: string;         // ISO timestamp of the transition
+}
+
+// One call placed for a stored reminder
+export interface ReminderCallAttempt {
+  jobId: string;             // BullMQ job that placed the call
+  attempt: number;           // 0 for the original call, 1..N for redials
+  callSid: string;           // Twilio call SID
+  outcome: string;           // "placed" until the call ends, then e.g. "answered", "no-answer", "voicemail"
+  durationSeconds?: number;  // Call duration once the call has ended
+  placedAt: string;          // ISO timestamp the call was placed
+  endedAt?: string;          // ISO timestamp the call ended
+}
+
 // User reminder statistics
 export interface UserReminderStats {
   userId: string;            // Discord user ID
   totalReminders: number;    // Total reminders set
   activeReminders: number;   // Currently active reminders
-  completedReminders: number; // Completed reminders
+  completedReminders: number; // Reminders that reached the user (answered, confirmed, snoozed, SMS or DM)
+  failedReminders: number;   // Reminders that failed or could not be delivered
   cancelledReminders: number; // Cancelled reminders
 }
 
@@ -80,6 +281,27 @@ export interface TimeParseResult {
   originalInput: string;     // Original time input string
 }
 
+// Recurrence parsing result
+export interface RecurrenceParseResult {
+  isValid: boolean;          // Whether the recurrence string is valid
+  pattern: string;           // Cron pattern (minute hour day-of-month month day-of-week)
+  description: string;       // Human-readable schedule
+  nextOccurrence?: Date;     // Next time the schedule fires
+  endDate?: Date;            // Last allowed occurrence (RRULE UNTIL)
+  limit?: number;            // Maximum number of occurrences (RRULE COUNT)
+  timezone?: string;         // IANA zone the times of day are in (server zone when unset)
+  error?: string;            // Error message if invalid
+  originalInput: string;     // Original recurrence input string
+}
+
+// ?edit command parsing result
+export interface EditCommandParseResult {
+  jobId?: string;            // Reminder to edit
+  message?: string;          // New message (-m)
+  timeString?: string;       // New time (-t), parsed by TimeParser
+  error?: string;            // Error message if invalid
+}
+
 // Discord command context
 export interface DiscordCommandContext {
   userId: string;            // Discord user ID
@@ -90,6 +312,24 @@ export interface DiscordCommandContext {
   isDM: boolean;             // Whether command was sent in DM
 }
 
+// One failed attempt of a reminder job
+export interface FailedAttempt {
+  attempt: number;           // Attempt number, starting at 1
+  error: string;             // Error the attempt failed with
+  failedAt: string;          // ISO timestamp of the failure
+}
+
+// Reminder that failed for good, kept until it is replayed or purged
+export interface DeadLetterEntry {
+  id: string;                // ID of the failed job, also identifies the entry
+  jobName: string;           // Name of the failed job ('reminder', 'reminder-retry')
+  reminder: ReminderJobData; // Full data of the failed job
+  attemptsMade: number;      // Attempts made before giving up
+  errors: FailedAttempt[];   // Error of every attempt, oldest first
+  permanent: boolean;        // Whether the last error ruled out further retries
+  deadLetteredAt: string;    // ISO timestamp the reminder was dead-lettered
+}
+
 // Reminder execution context
 export interface ReminderExecutionContext {
   jobId: string;             // BullMQ job ID
@@ -0,0 +1,116 @@
+import moment from 'moment-timezone';
+import { AgendaGap, AgendaReminder, CalendarEvent, DailyAgenda } from '../types/CalendarTypes';
+
+export class AgendaBuilder {
+  private static readonly DEFAULT_MIN_GAP_MINUTES = 30;
+
+  /**
+   * Get the end of the day a time falls on, in the given IANA zone
+   */
+  static endOfDay(date: Date, timezone: string): Date {
+    return moment(date).tz(timezone).endOf('day').toDate();
+  }
+
+  /**
+   * Build the agenda from a time until the end of its day. Cancelled and declined events are left out,
+   * gaps of at least `minGapMinutes` between the first and the last meeting are listed as free time.
+   */
+  static build(
+    events: CalendarEvent[],
+    reminders: AgendaReminder[],
+    start: Date,
+    timezone: string,
+    minGapMinutes: number = this.DEFAULT_MIN_GAP_MINUTES
+  ): DailyAgenda {
+    const end = this.endOfDay(start, timezone);
+    const attending = events
+      .filter(event => event.status !== 'cancelled' && !event.declined)
+      .filter(event => event.startTime <= end && (event.endTime ? event.endTime > start : event.startTime >= start));
+
+    const meetings = attending
+      .filter(event => !event.allDay)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    return {
+      start,
+      end,
+      timezone,
+      meetings,
+      allDayEvents: attending.filter(event => event.allDay),
+      reminders: reminders
+        .filter(reminder => reminder.fireAt >= start && reminder.fireAt <= end)
+        .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime()),
+      gaps: this.findGaps(meetings, start, minGapMinutes),
+    };
+  }
+
+  /**
+   * Turn an agenda into the text read out on the call
+   */
+  static toSpeech(agenda: DailyAgenda): string {
+    const sentences = [`Here is your agenda for ${moment(agenda.start).tz(agenda.timezone).format('dddd, MMMM D')}.`];
+
+    const count = agenda.meetings.length;
+    sentences.push(count === 0 ? 'You have no meetings today.' : `You have ${count} meeting${count === 1 ? '' : 's'} today.`);
+
+    for (const meeting of agenda.meetings) {
+      let sentence = `At ${this.formatTime(meeting.startTime, agenda.timezone)}, ${meeting.summary}`;
+      if (meeting.endTime) {
+        sentence += `, until ${this.formatTime(meeting.endTime, agenda.timezone)}`;
+      }
+      if (meeting.location) {
+        sentence += `, in ${meeting.location}`;
+      }
+      sentences.push(`${sentence}.`);
+    }
+
+    if (agenda.allDayEvents.length > 0) {
+      sentences.push(`All day: ${this.joinList(agenda.allDayEvents.map(event => event.summary))}.`);
+    }
+
+    if (agenda.gaps.length > 0) {
+      sentences.push(`You are free ${this.joinList(agenda.gaps.map(gap =>
+        `from ${this.formatTime(gap.start, agenda.timezone)} to ${this.formatTime(gap.end, agenda.timezone)}`
+      ))}.`);
+    }
+
+    if (agenda.reminders.length > 0) {
+      const reminders = agenda.reminders.length;
+      sentences.push(`You also have ${reminders} reminder call${reminders === 1 ? '' : 's'}: ${this.joinList(agenda.reminders.map(reminder =>
+        `${reminder.message} at ${this.formatTime(reminder.fireAt, agenda.timezone)}`
+      ))}.`);
+    }
+
+    return sentences.join(' ');
+  }
+
+  /**
+   * Find the free time between meetings, overlapping meetings count as one busy block
+   */
+  private static findGaps(meetings: CalendarEvent[], start: Date, minGapMinutes: number): AgendaGap[] {
+    const gaps: AgendaGap[] = [];
+    let busyUntil: number | null = null;
+
+    for (const meeting of meetings) {
+      const meetingStart = Math.max(meeting.startTime.getTime(), start.getTime());
+      const meetingEnd = (meeting.endTime || meeting.startTime).getTime();
+
+      if (busyUntil !== null && meetingStart - busyUntil >= minGapMinutes * 60 * 1000) {
+        gaps.push({ start: new Date(busyUntil), end: new Date(meetingStart) });
+      }
+      busyUntil = Math.max(busyUntil ?? meetingEnd, meetingEnd);
+    }
+
+    return gaps;
+  }
+
+  private static formatTime(date: Date, timezone: string): string {
+    return moment(date).tz(timezone).format('h:mm A');
+  }
+
+  private static joinList(items: string[]): string {
+    return items.length <= 1
+      ? items.join('')
+      : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+  }
+}
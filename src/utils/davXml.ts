@@ -0,0 +1,126 @@
+// An XML element with its namespace prefix stripped (`d:getetag` becomes `getetag`)
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;              // Text directly inside the element, entities decoded
+}
+
+// One <response> of a WebDAV multistatus
+export interface DavResponse {
+  href: string;
+  status: number | null;     // Status of the response itself (e.g. 404 in a multiget)
+  props: Record<string, XmlElement>;  // Properties found (2xx propstat), by local name
+}
+
+/**
+ * Minimal XML reader for WebDAV/CalDAV multistatus responses. Namespaces are ignored,
+ * which is safe for the DAV:, CalDAV and CalendarServer properties we read.
+ */
+export class DavXml {
+  private static readonly TOKEN_REGEX = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  private static readonly ATTRIBUTE_REGEX = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  /**
+   * Parse a document and return its root element
+   */
+  static parse(xml: string): XmlElement {
+    const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+
+    for (const match of xml.matchAll(this.TOKEN_REGEX)) {
+      const [, cdata, closingName, openingName, rawAttributes, selfClosing, text] = match;
+      const current = stack[stack.length - 1];
+
+      if (cdata !== undefined) {
+        current.text += cdata;
+      } else if (text !== undefined) {
+        current.text += this.decodeEntities(text);
+      } else if (openingName) {
+        const element: XmlElement = { name: this.localName(openingName), attributes: {}, children: [], text: '' };
+        for (const attribute of (rawAttributes || '').matchAll(this.ATTRIBUTE_REGEX)) {
+          element.attributes[this.localName(attribute[1])] = this.decodeEntities(attribute[2] ?? attribute[3] ?? '');
+        }
+        current.children.push(element);
+        if (!selfClosing) {
+          stack.push(element);
+        }
+      } else if (closingName && stack.length > 1 && current.name === this.localName(closingName)) {
+        stack.pop();
+      }
+    }
+
+    return root.children[0] || root;
+  }
+
+  /**
+   * Parse a 207 Multi-Status body into its responses
+   */
+  static parseMultistatus(xml: string): DavResponse[] {
+    const multistatus = this.parse(xml);
+
+    return this.children(multistatus, 'response').map(response => {
+      const props: Record<string, XmlElement> = {};
+      for (const propstat of this.children(response, 'propstat')) {
+        const status = this.parseStatus(this.child(propstat, 'status')?.text);
+        if (status !== null && (status < 200 || status >= 300)) {
+          continue;
+        }
+        for (const prop of this.children(propstat, 'prop').flatMap(element => element.children)) {
+          props[prop.name] = prop;
+        }
+      }
+
+      return {
+        href: (this.child(response, 'href')?.text || '').trim(),
+        status: this.parseStatus(this.child(response, 'status')?.text),
+        props,
+      };
+    });
+  }
+
+  static child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+    return element?.children.find(child => child.name === name);
+  }
+
+  static children(element: XmlElement | undefined, name: string): XmlElement[] {
+    return element?.children.filter(child => child.name === name) || [];
+  }
+
+  /**
+   * Escape text for use in a request body
+   */
+  static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private static parseStatus(statusLine: string | undefined): number | null {
+    const match = statusLine?.match(/HTTP\/\d(?:\.\d)?\s+(\d{3})/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  private static localName(name: string): string {
+    return name.slice(name.indexOf(':') + 1);
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-f]+);/gi, (entity, name: string) => {
+      switch (name.toLowerCase()) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'amp': return '&';
+        case 'quot': return '"';
+        case 'apos': return "'";
+        default:
+          return String.fromCodePoint(
+            name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+          ) || entity;
+      }
+    });
+  }
+}
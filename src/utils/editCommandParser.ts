@@ -0,0 +1,56 @@
+import { EditCommandParseResult } from '../types/ReminderTypes';
+
+const USAGE = 'Usage: `?edit <job-id> [-m <message>] [-t <time>]`';
+
+type EditField = 'message' | 'timeString';
+
+const FLAGS: Record<string, EditField> = {
+  '-m': 'message',
+  '-t': 'timeString',
+};
+
+export class EditCommandParser {
+  /**
+   * Parse `<job-id> [-m <message>] [-t <time>]`. Each value runs until the next flag, so
+   * times such as "12/25/2024 9:00am" or "tomorrow 9am" need no quoting.
+   */
+  static parse(content: string): EditCommandParseResult {
+    const [jobId, ...words] = content.split(/\s+/).filter(Boolean);
+    if (!jobId) {
+      return { error: `Please provide a job ID. ${USAGE}` };
+    }
+
+    const values: Partial<Record<EditField, string[]>> = {};
+    const unexpected: string[] = [];
+    let field: EditField | undefined;
+
+    for (const word of words) {
+      const flag = FLAGS[word];
+      if (flag) {
+        field = flag;
+        values[field] = [];
+      } else if (field) {
+        values[field]!.push(word);
+      } else {
+        unexpected.push(word);
+      }
+    }
+
+    if (unexpected.length > 0) {
+      return { error: `Unexpected input: ${unexpected.join(' ')}. ${USAGE}` };
+    }
+
+    const result: EditCommandParseResult = { jobId };
+    for (const [flag, name] of Object.entries(FLAGS)) {
+      const value = values[name];
+      if (value && value.length === 0) {
+        return { error: `Missing value after ${flag}. ${USAGE}` };
+      }
+      if (value) {
+        result[name] = value.join(' ');
+      }
+    }
+
+    return result;
+  }
+}
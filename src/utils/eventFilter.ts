@@ -0,0 +1,53 @@
+import { CalendarEvent } from '../types/CalendarTypes';
+
+// Keywords of a search query, lower-cased
+export interface SearchTerms {
+  include: string[];         // At least one must appear (when any are given)
+  exclude: string[];         // None may appear (written as -word or -"some phrase")
+}
+
+export class EventFilter {
+  private static readonly TERM_REGEX = /(-?)"([^"]+)"|(-?)(\S+)/g;
+
+  /**
+   * Split a search query into included and excluded keywords. Quoted phrases count as one keyword.
+   */
+  static parseSearchQuery(query: string): SearchTerms {
+    const terms: SearchTerms = { include: [], exclude: [] };
+
+    for (const match of query.matchAll(this.TERM_REGEX)) {
+      const negated = (match[1] || match[3]) === '-';
+      const term = (match[2] ?? match[4] ?? '').trim().toLowerCase();
+      if (!term) {
+        continue;
+      }
+      (negated ? terms.exclude : terms.include).push(term);
+    }
+
+    return terms;
+  }
+
+  /**
+   * Check text against a search query (case-insensitive). An empty query matches everything.
+   */
+  static matchesSearchQuery(text: string, query: string | undefined): boolean {
+    if (!query || !query.trim()) {
+      return true;
+    }
+
+    const haystack = text.toLowerCase();
+    const terms = this.parseSearchQuery(query);
+
+    if (terms.exclude.some(term => haystack.includes(term))) {
+      return false;
+    }
+    return terms.include.length === 0 || terms.include.some(term => haystack.includes(term));
+  }
+
+  /**
+   * Check the title, description and location of an event against a search query
+   */
+  static matchesEvent(event: CalendarEvent, query: string | undefined): boolean {
+    return this.matchesSearchQuery([event.summary, event.description, event.location].join('\n'), query);
+  }
+}
@@ -0,0 +1,698 @@
+import moment from 'moment-timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RECURRENCE_PERIODS = 50000;   // Stops runaway rules (e.g. a daily rule from decades ago) from looping forever
+
+const RRULE_DAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+// One content line: NAME;PARAM=value:VALUE
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// BEGIN:<type> ... END:<type>
+interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+// Turns a wall-clock time into a real instant. Wall-clock times are carried as epoch
+// milliseconds read in UTC, so date arithmetic on them never crosses a DST change.
+interface IcsZone {
+  toDate(wallMs: number): Date;
+}
+
+// RRULE parts we expand; BYHOUR/BYMINUTE/BYSECOND are not supported, occurrences keep DTSTART's time
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: number;                 // Epoch milliseconds (UNTIL is always an instant or a date)
+  byDay: { weekday: number; ordinal: number }[];
+  byMonthDay: number[];
+  byMonth: number[];              // 1-12
+  bySetPos: number[];
+  weekStart: number;
+}
+
+// VALARM trigger, relative to the start or the end of the event, or at a fixed time
+type IcsAlarm = { offsetMs: number; related: 'START' | 'END' } | { at: number };
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  status: string;                 // Lower-case STATUS, 'confirmed' when missing
+  attendees: string[];
+  startWall: number;              // DTSTART as wall-clock time in `zone`
+  durationMs: number | null;      // From DTEND or DURATION
+  allDay: boolean;
+  zone: IcsZone;
+  rrule: RecurrenceRule | null;
+  rdates: number[];               // Extra occurrences, epoch milliseconds
+  exdates: number[];              // Removed occurrences, epoch milliseconds
+  recurrenceId: number | null;    // Set on an override of one occurrence of a recurring event
+  alarms: IcsAlarm[];
+}
+
+export interface IcsCalendar {
+  name: string | null;            // X-WR-CALNAME
+  events: IcsEvent[];
+}
+
+// One occurrence of an event, recurring events expanded
+export interface IcsOccurrence {
+  id: string;                     // UID, plus the original start for occurrences of recurring events
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  status: string;
+  attendees: string[];
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+  recurring: boolean;
+  alarmMinutes: number[];         // VALARM triggers as minutes before the start, furthest first
+}
+
+/**
+ * Parser for iCalendar (RFC 5545) feeds: VEVENT with RRULE/RDATE/EXDATE recurrence and
+ * RECURRENCE-ID overrides, VALARM triggers, and TZID times resolved through the IANA database
+ * or the feed's own VTIMEZONE definitions.
+ */
+export class IcsParser {
+  private static readonly DURATION_REGEX = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+  private static readonly DATE_TIME_REGEX = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+  /**
+   * Parse a feed. Floating times and all-day dates are read in the feed's X-WR-TIMEZONE,
+   * or in `defaultTimezone` when the feed does not name one.
+   */
+  static parse(text: string, defaultTimezone: string): IcsCalendar {
+    const root = this.parseComponents(text);
+    const calendar = root.components.find(component => component.type === 'VCALENDAR') || root;
+
+    const feedZone = this.getValue(calendar, 'X-WR-TIMEZONE');
+    const floatingZone = this.ianaZone(feedZone && moment.tz.zone(feedZone) ? feedZone : defaultTimezone);
+    const timezones = new Map<string, IcsComponent>();
+    for (const component of calendar.components.filter(component => component.type === 'VTIMEZONE')) {
+      timezones.set(this.getValue(component, 'TZID') || '', component);
+    }
+
+    const events: IcsEvent[] = [];
+    for (const component of calendar.components.filter(component => component.type === 'VEVENT')) {
+      const event = this.toEvent(component, (tzid) => this.resolveZone(tzid, timezones, floatingZone), floatingZone);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return { name: this.getValue(calendar, 'X-WR-CALNAME'), events };
+  }
+
+  /**
+   * Get the occurrences of all events that overlap the range, sorted by start
+   */
+  static expand(calendar: IcsCalendar, rangeStart: Date, rangeEnd: Date): IcsOccurrence[] {
+    const overrides = new Map<string, IcsEvent>();
+    for (const event of calendar.events.filter(event => event.recurrenceId !== null)) {
+      overrides.set(`${event.uid}\n${event.recurrenceId}`, event);
+    }
+
+    const occurrences: IcsOccurrence[] = [];
+    const overlaps = (occurrence: IcsOccurrence) => {
+      const start = occurrence.start.getTime();
+      const end = occurrence.end ? occurrence.end.getTime() : start;
+      return start < rangeEnd.getTime() && (end > rangeStart.getTime() || start >= rangeStart.getTime());
+    };
+
+    for (const event of calendar.events) {
+      if (event.recurrenceId !== null) {
+        // Overrides whose series is not in the feed stand on their own
+        if (!calendar.events.some(master => master.uid === event.uid && master.recurrenceId === null)) {
+          const occurrence = this.toOccurrence(event, event.zone.toDate(event.startWall), event.recurrenceId, true);
+          if (overlaps(occurrence)) {
+            occurrences.push(occurrence);
+          }
+        }
+        continue;
+      }
+
+      if (!event.rrule && event.rdates.length === 0) {
+        const occurrence = this.toOccurrence(event, event.zone.toDate(event.startWall), null, false);
+        if (overlaps(occurrence)) {
+          occurrences.push(occurrence);
+        }
+        continue;
+      }
+
+      // Look back far enough to catch occurrences that started before the range but are still running
+      const lookBack = rangeStart.getTime() - (event.durationMs || 0);
+      for (const start of this.getOccurrenceStarts(event, rangeEnd.getTime())) {
+        if (start < lookBack || event.exdates.includes(start)) {
+          continue;
+        }
+
+        const override = overrides.get(`${event.uid}\n${start}`);
+        const occurrence = override
+          ? this.toOccurrence(override, override.zone.toDate(override.startWall), start, true)
+          : this.toOccurrence(event, new Date(start), start, true);
+        if (overlaps(occurrence)) {
+          occurrences.push(occurrence);
+        }
+      }
+    }
+
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Parse an RFC 5545 duration such as `PT15M`, `-P1DT2H` or `P1W` into milliseconds
+   */
+  static parseDuration(value: string): number | null {
+    const match = value.trim().match(this.DURATION_REGEX);
+    if (!match || value.trim() === 'P' || value.trim().endsWith('T')) {
+      return null;
+    }
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((((Number(weeks || 0) * 7 + Number(days || 0)) * 24 + Number(hours || 0)) * 60 + Number(minutes || 0)) * 60
+      + Number(seconds || 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+  }
+
+  /**
+   * Unfold the content lines and build the component tree
+   */
+  private static parseComponents(text: string): IcsComponent {
+    const root: IcsComponent = { type: 'ROOT', properties: [], components: [] };
+    const stack: IcsComponent[] = [root];
+
+    const lines: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+        lines[lines.length - 1] += line.slice(1);
+      } else if (line.trim()) {
+        lines.push(line);
+      }
+    }
+
+    for (const line of lines) {
+      const property = this.parseProperty(line);
+      if (!property) {
+        continue;
+      }
+
+      const current = stack[stack.length - 1];
+      if (property.name === 'BEGIN') {
+        const component: IcsComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+        current.components.push(component);
+        stack.push(component);
+      } else if (property.name === 'END') {
+        if (stack.length > 1 && current.type === property.value.toUpperCase()) {
+          stack.pop();
+        }
+      } else {
+        current.properties.push(property);
+      }
+    }
+
+    return root;
+  }
+
+  private static parseProperty(line: string): IcsProperty | null {
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') {
+        inQuotes = !inQuotes;
+      } else if (line[i] === ':' && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+    if (colon === -1) {
+      return null;
+    }
+
+    const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) || [];
+    if (!name) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const separator = param.indexOf('=');
+      if (separator > 0) {
+        params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+      }
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+  }
+
+  private static getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+    return component.properties.find(property => property.name === name);
+  }
+
+  private static getValue(component: IcsComponent, name: string): string | null {
+    const property = this.getProperty(component, name);
+    return property ? this.unescapeText(property.value) : null;
+  }
+
+  private static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+  }
+
+  private static toEvent(
+    component: IcsComponent,
+    resolveZone: (tzid: string) => IcsZone,
+    floatingZone: IcsZone
+  ): IcsEvent | null {
+    const uid = this.getValue(component, 'UID');
+    const dtstart = this.getProperty(component, 'DTSTART');
+    const start = dtstart ? this.parseDateTime(dtstart, resolveZone, floatingZone) : null;
+    if (!uid || !start) {
+      return null;
+    }
+
+    let durationMs: number | null = null;
+    const dtend = this.getProperty(component, 'DTEND');
+    const end = dtend ? this.parseDateTime(dtend, resolveZone, floatingZone) : null;
+    const duration = this.getValue(component, 'DURATION');
+    if (end) {
+      durationMs = end.zone.toDate(end.wallMs).getTime() - start.zone.toDate(start.wallMs).getTime();
+    } else if (duration) {
+      durationMs = this.parseDuration(duration);
+    } else if (start.allDay) {
+      durationMs = DAY_MS;
+    }
+
+    const rrule = this.getValue(component, 'RRULE');
+    const recurrenceId = this.getProperty(component, 'RECURRENCE-ID');
+    const recurrenceStart = recurrenceId ? this.parseDateTime(recurrenceId, resolveZone, floatingZone) : null;
+
+    return {
+      uid,
+      summary: this.getValue(component, 'SUMMARY') || 'No Title',
+      description: this.getValue(component, 'DESCRIPTION') || '',
+      location: this.getValue(component, 'LOCATION') || '',
+      status: (this.getValue(component, 'STATUS') || 'confirmed').toLowerCase(),
+      attendees: component.properties
+        .filter(property => property.name === 'ATTENDEE')
+        .map(property => property.value.replace(/^mailto:/i, '')),
+      startWall: start.wallMs,
+      durationMs,
+      allDay: start.allDay,
+      zone: start.zone,
+      rrule: rrule ? this.parseRecurrenceRule(rrule, start.zone) : null,
+      rdates: this.parseDateList(component, 'RDATE', resolveZone, floatingZone),
+      exdates: this.parseDateList(component, 'EXDATE', resolveZone, floatingZone),
+      recurrenceId: recurrenceStart ? recurrenceStart.zone.toDate(recurrenceStart.wallMs).getTime() : null,
+      alarms: component.components
+        .filter(child => child.type === 'VALARM')
+        .map(alarm => this.parseAlarm(alarm, resolveZone, floatingZone))
+        .filter((alarm): alarm is IcsAlarm => alarm !== null),
+    };
+  }
+
+  /**
+   * Parse a DATE or DATE-TIME value: UTC when it ends in Z, in its TZID when given, floating otherwise
+   */
+  private static parseDateTime(
+    property: IcsProperty,
+    resolveZone: (tzid: string) => IcsZone,
+    floatingZone: IcsZone,
+    value: string = property.value
+  ): { wallMs: number; allDay: boolean; zone: IcsZone } | null {
+    const match = value.trim().match(this.DATE_TIME_REGEX);
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const wallMs = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour || 0), Number(minute || 0), Number(second || 0));
+    const allDay = hour === undefined || property.params.VALUE === 'DATE';
+
+    let zone = floatingZone;
+    if (utc) {
+      zone = { toDate: (wall) => new Date(wall) };
+    } else if (property.params.TZID && !allDay) {
+      zone = resolveZone(property.params.TZID);
+    }
+    return { wallMs, allDay, zone };
+  }
+
+  private static parseDateList(
+    component: IcsComponent,
+    name: string,
+    resolveZone: (tzid: string) => IcsZone,
+    floatingZone: IcsZone
+  ): number[] {
+    const dates: number[] = [];
+    for (const property of component.properties.filter(property => property.name === name)) {
+      for (const value of property.value.split(',')) {
+        const parsed = this.parseDateTime(property, resolveZone, floatingZone, value);
+        if (parsed) {
+          dates.push(parsed.zone.toDate(parsed.wallMs).getTime());
+        }
+      }
+    }
+    return dates;
+  }
+
+  private static parseAlarm(
+    alarm: IcsComponent,
+    resolveZone: (tzid: string) => IcsZone,
+    floatingZone: IcsZone
+  ): IcsAlarm | null {
+    const trigger = this.getProperty(alarm, 'TRIGGER');
+    if (!trigger) {
+      return null;
+    }
+
+    if (trigger.params.VALUE === 'DATE-TIME') {
+      const at = this.parseDateTime(trigger, resolveZone, floatingZone);
+      return at ? { at: at.zone.toDate(at.wallMs).getTime() } : null;
+    }
+
+    const offsetMs = this.parseDuration(trigger.value);
+    return offsetMs === null ? null : { offsetMs, related: trigger.params.RELATED === 'END' ? 'END' : 'START' };
+  }
+
+  private static parseRecurrenceRule(value: string, zone: IcsZone): RecurrenceRule | null {
+    const parts = new Map(
+      value.split(';').map(part => {
+        const [key, partValue] = part.split('=');
+        return [key.trim().toUpperCase(), (partValue || '').trim().toUpperCase()] as const;
+      })
+    );
+
+    const freq = parts.get('FREQ');
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+      return null;
+    }
+
+    const numbers = (key: string) => (parts.get(key) || '').split(',').filter(Boolean).map(Number).filter(n => !isNaN(n) && n !== 0);
+    const rule: RecurrenceRule = {
+      freq,
+      interval: Math.max(1, parseInt(parts.get('INTERVAL') || '1', 10) || 1),
+      byDay: (parts.get('BYDAY') || '')
+        .split(',')
+        .map(day => day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => ({ weekday: RRULE_DAYS[match[2]], ordinal: match[1] ? parseInt(match[1], 10) : 0 })),
+      byMonthDay: numbers('BYMONTHDAY'),
+      byMonth: numbers('BYMONTH'),
+      bySetPos: numbers('BYSETPOS'),
+      weekStart: RRULE_DAYS[parts.get('WKST') || 'MO'] ?? 1,
+    };
+
+    const count = parseInt(parts.get('COUNT') || '', 10);
+    if (count > 0) {
+      rule.count = count;
+    }
+
+    const until = parts.get('UNTIL')?.match(this.DATE_TIME_REGEX);
+    if (until) {
+      const [, year, month, day, hour, minute, second, utc] = until;
+      const wallMs = hour === undefined
+        ? Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59)
+        : Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+      rule.until = utc ? wallMs : zone.toDate(wallMs).getTime();
+    }
+
+    return rule;
+  }
+
+  /**
+   * Start times (epoch milliseconds) of a recurring event up to `untilMs`: DTSTART, the RRULE
+   * occurrences and the RDATEs
+   */
+  private static getOccurrenceStarts(event: IcsEvent, untilMs: number): number[] {
+    const starts = new Set<number>(event.rdates);
+
+    const walls = event.rrule ? this.expandRule(event.startWall, event.rrule, event.zone, untilMs) : [event.startWall];
+    for (const wall of walls) {
+      starts.add(event.zone.toDate(wall).getTime());
+    }
+
+    return [...starts].filter(start => start < untilMs).sort((a, b) => a - b);
+  }
+
+  /**
+   * Expand a recurrence rule into wall-clock start times, DTSTART first
+   */
+  private static expandRule(startWall: number, rule: RecurrenceRule, zone: IcsZone, untilMs: number): number[] {
+    const occurrences = [startWall];
+    const time = startWall - this.startOfDay(startWall);
+    const startDate = new Date(startWall);
+
+    for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+      const days = this.getPeriodDays(startDate, rule, period);
+      if (days === null) {
+        break;
+      }
+
+      for (const day of days) {
+        const wall = day + time;
+        if (wall <= startWall) {
+          continue;
+        }
+
+        const instant = zone.toDate(wall).getTime();
+        if ((rule.until !== undefined && instant > rule.until) || instant >= untilMs) {
+          return occurrences;
+        }
+
+        occurrences.push(wall);
+        if (rule.count !== undefined && occurrences.length >= rule.count) {
+          return occurrences;
+        }
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Days (wall-clock midnights) of the n-th period of a rule, in order
+   */
+  private static getPeriodDays(start: Date, rule: RecurrenceRule, period: number): number[] | null {
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth();
+    const step = period * rule.interval;
+    let days: number[];
+
+    switch (rule.freq) {
+      case 'DAILY':
+        days = [Date.UTC(year, month, start.getUTCDate() + step)].filter(day =>
+          this.matchesWeekday(day, rule) && this.matchesMonthDay(day, rule)
+        );
+        break;
+      case 'WEEKLY': {
+        const weekStart = Date.UTC(year, month, start.getUTCDate() - ((start.getUTCDay() - rule.weekStart + 7) % 7) + step * 7);
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [start.getUTCDay()];
+        days = [...new Set(weekdays)]
+          .map(weekday => weekStart + ((weekday - rule.weekStart + 7) % 7) * DAY_MS)
+          .sort((a, b) => a - b);
+        break;
+      }
+      case 'MONTHLY':
+        days = this.getMonthDays(Date.UTC(year, month + step, 1), rule, start);
+        break;
+      case 'YEARLY': {
+        const months = rule.byMonth.length > 0 ? rule.byMonth.map(m => m - 1) : [month];
+        days = months
+          .sort((a, b) => a - b)
+          .flatMap(m => this.getMonthDays(Date.UTC(year + step, m, 1), rule, start));
+        break;
+      }
+    }
+
+    if (rule.byMonth.length > 0) {
+      days = days.filter(day => rule.byMonth.includes(new Date(day).getUTCMonth() + 1));
+    }
+    if (rule.bySetPos.length > 0) {
+      days = rule.bySetPos
+        .map(position => days[position > 0 ? position - 1 : days.length + position])
+        .filter((day): day is number => day !== undefined)
+        .sort((a, b) => a - b);
+    }
+    return days;
+  }
+
+  /**
+   * Days of one month picked by BYMONTHDAY and/or BYDAY (with optional ordinals such as 2MO or -1FR),
+   * or DTSTART's day of the month when neither is set
+   */
+  private static getMonthDays(monthStart: number, rule: RecurrenceRule, start: Date): number[] {
+    const first = new Date(monthStart);
+    const daysInMonth = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+    const all = Array.from({ length: daysInMonth }, (_, i) => monthStart + i * DAY_MS);
+
+    if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+      return start.getUTCDate() <= daysInMonth ? [all[start.getUTCDate() - 1]] : [];
+    }
+
+    return all.filter((day, index) => {
+      if (rule.byMonthDay.length > 0 && !rule.byMonthDay.some(n => (n > 0 ? n - 1 : daysInMonth + n) === index)) {
+        return false;
+      }
+      if (rule.byDay.length === 0) {
+        return true;
+      }
+
+      const weekday = new Date(day).getUTCDay();
+      return rule.byDay.some(byDay => {
+        if (byDay.weekday !== weekday) {
+          return false;
+        }
+        if (byDay.ordinal === 0) {
+          return true;
+        }
+        const nth = byDay.ordinal > 0 ? Math.floor(index / 7) + 1 : -(Math.floor((daysInMonth - 1 - index) / 7) + 1);
+        return nth === byDay.ordinal;
+      });
+    });
+  }
+
+  private static matchesWeekday(day: number, rule: RecurrenceRule): boolean {
+    return rule.byDay.length === 0 || rule.byDay.some(byDay => byDay.weekday === new Date(day).getUTCDay());
+  }
+
+  private static matchesMonthDay(day: number, rule: RecurrenceRule): boolean {
+    if (rule.byMonthDay.length === 0) {
+      return true;
+    }
+    const date = new Date(day);
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    return rule.byMonthDay.some(n => (n > 0 ? n : daysInMonth + n + 1) === date.getUTCDate());
+  }
+
+  private static startOfDay(wallMs: number): number {
+    return wallMs - (((wallMs % DAY_MS) + DAY_MS) % DAY_MS);
+  }
+
+  private static toOccurrence(event: IcsEvent, start: Date, originalStart: number | null, recurring: boolean): IcsOccurrence {
+    const end = event.durationMs !== null ? new Date(start.getTime() + event.durationMs) : null;
+
+    const alarmMinutes = event.alarms
+      .map(alarm => {
+        if ('at' in alarm) {
+          return (start.getTime() - alarm.at) / 60000;
+        }
+        const base = alarm.related === 'END' && end ? end.getTime() : start.getTime();
+        return (start.getTime() - (base + alarm.offsetMs)) / 60000;
+      })
+      .filter(minutes => minutes >= 0)
+      .map(minutes => Math.round(minutes));
+
+    return {
+      id: originalStart === null ? event.uid : `${event.uid}_${this.formatOccurrenceKey(originalStart, event.allDay)}`,
+      uid: event.uid,
+      summary: event.summary,
+      description: event.description,
+      location: event.location,
+      status: event.status,
+      attendees: event.attendees,
+      start,
+      end,
+      allDay: event.allDay,
+      recurring,
+      alarmMinutes: [...new Set(alarmMinutes)].sort((a, b) => b - a),
+    };
+  }
+
+  private static formatOccurrenceKey(startMs: number, allDay: boolean): string {
+    const iso = new Date(startMs).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    return allDay ? iso.slice(0, 8) : iso;
+  }
+
+  /**
+   * Resolve a TZID: IANA names (also when prefixed, e.g. `/mozilla.org/20050126_1/Europe/Berlin`),
+   * then the feed's VTIMEZONE definition, then floating time
+   */
+  private static resolveZone(tzid: string, timezones: Map<string, IcsComponent>, floatingZone: IcsZone): IcsZone {
+    const segments = tzid.split('/').filter(Boolean);
+    for (let i = 0; i < segments.length; i++) {
+      const name = segments.slice(i).join('/');
+      if (moment.tz.zone(name)) {
+        return this.ianaZone(name);
+      }
+    }
+
+    const definition = timezones.get(tzid);
+    return definition ? this.vtimezoneZone(definition) : floatingZone;
+  }
+
+  private static ianaZone(name: string): IcsZone {
+    return {
+      toDate: (wallMs) => moment.tz(new Date(wallMs).toISOString().slice(0, 19), name).toDate(),
+    };
+  }
+
+  /**
+   * Zone built from a VTIMEZONE: the offset is TZOFFSETTO of the latest STANDARD/DAYLIGHT onset
+   * before the wall-clock time. Onsets are expanded once, ten years past the latest time asked for.
+   */
+  private static vtimezoneZone(definition: IcsComponent): IcsZone {
+    const fixed: IcsZone = { toDate: (wall) => new Date(wall) };
+    const observances = definition.components
+      .filter(component => component.type === 'STANDARD' || component.type === 'DAYLIGHT')
+      .map(component => {
+        const dtstart = this.getProperty(component, 'DTSTART');
+        const rrule = this.getValue(component, 'RRULE');
+        return {
+          startWall: dtstart ? this.parseDateTime(dtstart, () => fixed, fixed)?.wallMs ?? null : null,
+          rule: rrule ? this.parseRecurrenceRule(rrule, fixed) : null,
+          offsetFrom: this.parseUtcOffset(this.getValue(component, 'TZOFFSETFROM')),
+          offsetTo: this.parseUtcOffset(this.getValue(component, 'TZOFFSETTO')),
+        };
+      })
+      .filter((observance): observance is typeof observance & { startWall: number } => observance.startWall !== null);
+
+    let expandedUntil = -Infinity;
+    let onsets: { onset: number; offset: number }[] = [];
+    const expandOnsets = (untilMs: number) => {
+      onsets = observances
+        .flatMap(observance => (observance.rule ? this.expandRule(observance.startWall, observance.rule, fixed, untilMs) : [observance.startWall])
+          .map(onset => ({ onset, offset: observance.offsetTo })))
+        .sort((a, b) => a.onset - b.onset);
+      expandedUntil = untilMs;
+    };
+
+    return {
+      toDate: (wallMs) => {
+        if (wallMs >= expandedUntil) {
+          expandOnsets(wallMs + 10 * 365 * DAY_MS);
+        }
+
+        const latest = onsets.filter(onset => onset.onset <= wallMs).pop();
+        const earliest = observances.reduce<typeof observances[number] | null>(
+          (first, observance) => (!first || observance.startWall < first.startWall ? observance : first),
+          null
+        );
+        return new Date(wallMs - (latest?.offset ?? earliest?.offsetFrom ?? 0));
+      },
+    };
+  }
+
+  /**
+   * Parse a UTC offset such as `-0500` or `+053000` into milliseconds
+   */
+  private static parseUtcOffset(value: string | null): number {
+    const match = value?.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+    if (!match) {
+      return 0;
+    }
+    const ms = ((Number(match[2]) * 60 + Number(match[3])) * 60 + Number(match[4] || 0)) * 1000;
+    return match[1] === '-' ? -ms : ms;
+  }
+}
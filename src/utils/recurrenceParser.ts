@@ -0,0 +1,536 @@
+import { parseExpression } from 'cron-parser';
+import { RecurrenceParseResult } from '../types/ReminderTypes';
+
+const DAY_NAMES: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const RRULE_DAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+// Occurrences of a schedule are checked this far ahead for calls that come too close together
+const INTERVAL_CHECK_OCCURRENCES = 10;
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  last: -1,
+};
+
+export class RecurrenceParser {
+  private static readonly INTERVAL_REGEX = /^every\s+(\d+)\s*(minutes?|mins?|m|hours?|hrs?|h)$/i;
+  private static readonly TIME_SUFFIX_REGEX = /^(.*?)\s*(?:\bat\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)$|^(.*?)\s*(?:\bat\s+)?(\d{1,2}):(\d{2})$/i;
+  private static readonly CRON_REGEX = /^\S+\s+\S+\s+\S+\s+\S+\s+\S+$/;
+
+  static readonly DEFAULT_MIN_INTERVAL_MINUTES = 15;
+
+  /**
+   * Parse a recurrence string (natural language, RFC 5545 RRULE or cron) into a cron pattern.
+   * Times of day are in the given IANA zone (server zone when omitted). Schedules that call
+   * more often than every `minIntervalMinutes` are rejected.
+   */
+  static parse(
+    recurrenceString: string,
+    timezone?: string,
+    minIntervalMinutes: number = this.DEFAULT_MIN_INTERVAL_MINUTES
+  ): RecurrenceParseResult {
+    const input = recurrenceString.trim();
+
+    if (!input) {
+      return this.invalid(recurrenceString, 'Recurrence cannot be empty');
+    }
+
+    try {
+      let result: RecurrenceParseResult;
+
+      if (/^(rrule:)?freq=/i.test(input)) {
+        result = this.parseRRule(input);
+      } else if (this.CRON_REGEX.test(input) && /^[\d*]/.test(input)) {
+        result = { isValid: true, pattern: input, description: `cron "${input}"`, originalInput: recurrenceString };
+      } else {
+        result = this.parseNaturalLanguage(input.toLowerCase());
+      }
+
+      if (!result.isValid) {
+        return { ...result, originalInput: recurrenceString };
+      }
+
+      if (timezone) {
+        result.timezone = timezone;
+      }
+
+      return this.withNextOccurrence({ ...result, originalInput: recurrenceString }, minIntervalMinutes);
+
+    } catch (error) {
+      return this.invalid(
+        recurrenceString,
+        `Error parsing recurrence: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the next time a cron pattern fires after the given date
+   */
+  static getNextOccurrence(pattern: string, after: Date = new Date(), timezone?: string): Date | null {
+    try {
+      return parseExpression(pattern, timezone ? { currentDate: after, tz: timezone } : { currentDate: after })
+        .next()
+        .toDate();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse phrases like "every weekday 9am", "every first monday 10:30am", "every 15 minutes"
+   */
+  private static parseNaturalLanguage(input: string): RecurrenceParseResult {
+    const normalized = input.replace(/\s+/g, ' ');
+
+    // Fixed intervals: "every 30 minutes", "every 2 hours"
+    const intervalMatch = normalized.match(this.INTERVAL_REGEX);
+    if (intervalMatch) {
+      const value = parseInt(intervalMatch[1], 10);
+      const isHours = intervalMatch[2].startsWith('h');
+
+      if (isHours ? value < 1 || value > 23 : value < 1 || value > 59) {
+        return this.invalid(input, `Interval must be between 1 and ${isHours ? 23 : 59} ${isHours ? 'hours' : 'minutes'}`);
+      }
+
+      return {
+        isValid: true,
+        pattern: isHours ? `0 */${value} * * *` : `*/${value} * * * *`,
+        description: `every ${value} ${isHours ? 'hour' : 'minute'}${value === 1 ? '' : 's'}`,
+        originalInput: input,
+      };
+    }
+
+    if (normalized === 'hourly' || normalized === 'every hour') {
+      return { isValid: true, pattern: '0 * * * *', description: 'every hour', originalInput: input };
+    }
+
+    const timeMatch = normalized.match(this.TIME_SUFFIX_REGEX);
+    if (!timeMatch) {
+      return this.invalid(input, 'Please include a time, e.g. "every weekday 9am" or "every monday at 14:30"');
+    }
+
+    const dayPart = (timeMatch[1] ?? timeMatch[5] ?? '').trim();
+    const time = this.parseTimeOfDay(
+      timeMatch[2] ?? timeMatch[6],
+      timeMatch[3] ?? timeMatch[7],
+      timeMatch[4]
+    );
+    if (!time) {
+      return this.invalid(input, 'Invalid time of day');
+    }
+
+    const days = this.parseDayPart(dayPart.replace(/^every\s*/, '').replace(/\s*\bat$/, '').trim());
+    if (!days) {
+      return this.invalid(
+        input,
+        `Unable to understand "${dayPart}". Try "every day", "every weekday", "every monday and thursday", "every first monday" or "every month on the 15th"`
+      );
+    }
+
+    return {
+      isValid: true,
+      pattern: `${time.minute} ${time.hour} ${days.dayOfMonth} * ${days.dayOfWeek}`,
+      description: `${days.description} at ${this.formatTime(time.hour, time.minute)}`,
+      originalInput: input,
+    };
+  }
+
+  /**
+   * Parse the day part of a natural language recurrence (without "every" and the time)
+   */
+  private static parseDayPart(dayPart: string): { dayOfMonth: string; dayOfWeek: string; description: string } | null {
+    if (dayPart === '' || dayPart === 'day' || dayPart === 'daily') {
+      return { dayOfMonth: '*', dayOfWeek: '*', description: 'every day' };
+    }
+
+    if (/^week ?days?$/.test(dayPart)) {
+      return { dayOfMonth: '*', dayOfWeek: '1-5', description: 'every weekday' };
+    }
+
+    if (/^week ?ends?$/.test(dayPart)) {
+      return { dayOfMonth: '*', dayOfWeek: '0,6', description: 'every weekend day' };
+    }
+
+    // "first monday", "last friday of the month"
+    const ordinalMatch = dayPart.match(/^(first|1st|second|2nd|third|3rd|fourth|4th|last) (\w+?)s?(?: of (?:the|every) month)?$/);
+    if (ordinalMatch) {
+      const day = this.lookupDay(ordinalMatch[2]);
+      if (day === null) {
+        return null;
+      }
+      const ordinal = ORDINALS[ordinalMatch[1]];
+      return {
+        dayOfMonth: '*',
+        dayOfWeek: ordinal === -1 ? `${day}L` : `${day}#${ordinal}`,
+        description: `every ${ordinalMatch[1]} ${DAY_LABELS[day]} of the month`,
+      };
+    }
+
+    // "month on the 15th", "month on day 1", "15th of the month"
+    const monthDayMatch = dayPart.match(/^(?:month (?:on )?(?:the |day )?(\d{1,2})(?:st|nd|rd|th)?|(\d{1,2})(?:st|nd|rd|th)? of (?:the|every) month)$/);
+    if (monthDayMatch) {
+      const dayOfMonth = parseInt(monthDayMatch[1] ?? monthDayMatch[2], 10);
+      if (dayOfMonth < 1 || dayOfMonth > 31) {
+        return null;
+      }
+      return {
+        dayOfMonth: dayOfMonth.toString(),
+        dayOfWeek: '*',
+        description: `every month on day ${dayOfMonth}`,
+      };
+    }
+
+    // "monday", "mon, wed and fri", "tuesdays"
+    const dayNames = dayPart.split(/\s*(?:,|\band\b|&|\s)\s*/).filter(Boolean);
+    const days: number[] = [];
+    for (const name of dayNames) {
+      const day = this.lookupDay(name);
+      if (day === null) {
+        return null;
+      }
+      if (!days.includes(day)) {
+        days.push(day);
+      }
+    }
+
+    if (days.length === 0) {
+      return null;
+    }
+
+    days.sort((a, b) => a - b);
+    return {
+      dayOfMonth: '*',
+      dayOfWeek: days.join(','),
+      description: `every ${days.map(day => DAY_LABELS[day]).join(', ')}`,
+    };
+  }
+
+  /**
+   * Parse the subset of RFC 5545 RRULE that maps onto a cron pattern
+   */
+  private static parseRRule(input: string): RecurrenceParseResult {
+    const parts: Record<string, string> = {};
+    for (const part of input.replace(/^rrule:/i, '').split(';')) {
+      const [key, value] = part.split('=');
+      if (key && value) {
+        parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+      }
+    }
+
+    const freq = parts.FREQ;
+    const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+    if (isNaN(interval) || interval < 1) {
+      return this.invalid(input, 'INTERVAL must be a positive number');
+    }
+
+    const minutes = parts.BYMINUTE ? this.parseNumberList(parts.BYMINUTE, 0, 59) : [0];
+    const hours = parts.BYHOUR ? this.parseNumberList(parts.BYHOUR, 0, 23) : null;
+    if (!minutes || (parts.BYHOUR && !hours)) {
+      return this.invalid(input, 'BYHOUR / BYMINUTE contain invalid values');
+    }
+
+    let pattern: string;
+    let description: string;
+
+    switch (freq) {
+      case 'MINUTELY':
+        if (interval > 59) {
+          return this.invalid(input, 'Minutely INTERVAL must be at most 59');
+        }
+        pattern = `*/${interval} * * * *`;
+        description = `every ${interval} minute${interval === 1 ? '' : 's'}`;
+        break;
+
+      case 'HOURLY':
+        if (interval > 23) {
+          return this.invalid(input, 'Hourly INTERVAL must be at most 23');
+        }
+        pattern = `${minutes.join(',')} ${interval === 1 ? '*' : `*/${interval}`} * * *`;
+        description = interval === 1 ? 'every hour' : `every ${interval} hours`;
+        break;
+
+      case 'DAILY':
+      case 'WEEKLY':
+      case 'MONTHLY':
+      case 'YEARLY': {
+        if (interval !== 1) {
+          return this.invalid(input, `INTERVAL other than 1 is not supported for ${freq} rules`);
+        }
+        if (!hours) {
+          return this.invalid(input, `${freq} rules must include BYHOUR (and optionally BYMINUTE)`);
+        }
+
+        const byDay = parts.BYDAY ? this.parseRRuleDays(parts.BYDAY, parts.BYSETPOS) : null;
+        if (parts.BYDAY && !byDay) {
+          return this.invalid(input, `Unsupported BYDAY value: ${parts.BYDAY}`);
+        }
+        if (byDay?.hasOrdinal && freq !== 'MONTHLY') {
+          return this.invalid(input, 'Ordinal BYDAY values (e.g. 1MO) are only supported for MONTHLY rules');
+        }
+
+        const monthDays = parts.BYMONTHDAY ? this.parseNumberList(parts.BYMONTHDAY, 1, 31) : null;
+        if (parts.BYMONTHDAY && !monthDays) {
+          return this.invalid(input, 'BYMONTHDAY contains invalid values');
+        }
+
+        const months = parts.BYMONTH ? this.parseNumberList(parts.BYMONTH, 1, 12) : null;
+        if (parts.BYMONTH && !months) {
+          return this.invalid(input, 'BYMONTH contains invalid values');
+        }
+
+        if (freq === 'WEEKLY' && !byDay) {
+          return this.invalid(input, 'WEEKLY rules must include BYDAY');
+        }
+        if (freq === 'MONTHLY' && !byDay && !monthDays) {
+          return this.invalid(input, 'MONTHLY rules must include BYMONTHDAY or BYDAY');
+        }
+        if (freq === 'YEARLY' && (!months || !monthDays)) {
+          return this.invalid(input, 'YEARLY rules must include BYMONTH and BYMONTHDAY');
+        }
+        if (byDay && monthDays) {
+          return this.invalid(input, 'Combining BYDAY and BYMONTHDAY is not supported');
+        }
+
+        pattern = [
+          minutes.join(','),
+          hours.join(','),
+          monthDays ? monthDays.join(',') : '*',
+          months && freq === 'YEARLY' ? months.join(',') : '*',
+          byDay ? byDay.cron : '*',
+        ].join(' ');
+        description = this.describeRRule(freq, byDay?.description, monthDays, months, hours, minutes);
+        break;
+      }
+
+      default:
+        return this.invalid(input, freq ? `Unsupported FREQ: ${freq}` : 'RRULE must include FREQ');
+    }
+
+    const result: RecurrenceParseResult = { isValid: true, pattern, description, originalInput: input };
+
+    if (parts.COUNT) {
+      const count = parseInt(parts.COUNT, 10);
+      if (isNaN(count) || count < 1) {
+        return this.invalid(input, 'COUNT must be a positive number');
+      }
+      result.limit = count;
+      result.description += `, ${count} time${count === 1 ? '' : 's'}`;
+    }
+
+    if (parts.UNTIL) {
+      const until = this.parseRRuleDate(parts.UNTIL);
+      if (!until) {
+        return this.invalid(input, `Invalid UNTIL date: ${parts.UNTIL}`);
+      }
+      if (until.getTime() <= Date.now()) {
+        return this.invalid(input, 'UNTIL date is in the past');
+      }
+      result.endDate = until;
+      result.description += ` until ${until.toLocaleDateString()}`;
+    }
+
+    return result;
+  }
+
+  private static parseRRuleDays(
+    byDay: string,
+    bySetPos?: string
+  ): { cron: string; description: string; hasOrdinal: boolean } | null {
+    const entries = byDay.split(',').map(entry => entry.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/));
+    if (entries.some(entry => !entry)) {
+      return null;
+    }
+
+    const setPos = bySetPos ? parseInt(bySetPos, 10) : null;
+    const cronDays: string[] = [];
+    const labels: string[] = [];
+    let hasOrdinal = false;
+
+    for (const entry of entries as RegExpMatchArray[]) {
+      const day = RRULE_DAYS[entry[2]];
+      const ordinal = entry[1] ? parseInt(entry[1], 10) : setPos;
+
+      if (ordinal === null || ordinal === undefined) {
+        cronDays.push(day.toString());
+        labels.push(DAY_LABELS[day]);
+        continue;
+      }
+
+      hasOrdinal = true;
+      if (ordinal === -1) {
+        cronDays.push(`${day}L`);
+        labels.push(`last ${DAY_LABELS[day]}`);
+      } else if (ordinal >= 1 && ordinal <= 5) {
+        cronDays.push(`${day}#${ordinal}`);
+        labels.push(`${this.ordinalLabel(ordinal)} ${DAY_LABELS[day]}`);
+      } else {
+        return null;
+      }
+    }
+
+    // cron-parser cannot mix nth-weekday entries with plain weekdays
+    if (hasOrdinal && cronDays.length > 1) {
+      return null;
+    }
+
+    return { cron: cronDays.join(','), description: labels.join(', '), hasOrdinal };
+  }
+
+  private static describeRRule(
+    freq: string,
+    days: string | undefined,
+    monthDays: number[] | null,
+    months: number[] | null,
+    hours: number[],
+    minutes: number[]
+  ): string {
+    const times = hours
+      .flatMap(hour => minutes.map(minute => this.formatTime(hour, minute)))
+      .join(', ');
+
+    switch (freq) {
+      case 'DAILY':
+        return days ? `every ${days} at ${times}` : `every day at ${times}`;
+      case 'WEEKLY':
+        return `every ${days} at ${times}`;
+      case 'MONTHLY':
+        return days
+          ? `every ${days} of the month at ${times}`
+          : `every month on day ${monthDays!.join(', ')} at ${times}`;
+      default:
+        return `every year on ${months!.join(', ')}/${monthDays!.join(', ')} at ${times}`;
+    }
+  }
+
+  private static parseRRuleDate(value: string): Date | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day, hour = '23', minute = '59', second = '59', utc] = match;
+    const args = [
+      parseInt(year, 10),
+      parseInt(month, 10) - 1,
+      parseInt(day, 10),
+      parseInt(hour, 10),
+      parseInt(minute, 10),
+      parseInt(second, 10),
+    ] as const;
+
+    const date = utc ? new Date(Date.UTC(...args)) : new Date(...args);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private static parseNumberList(value: string, min: number, max: number): number[] | null {
+    const numbers = value.split(',').map(part => parseInt(part, 10));
+    if (numbers.some(n => isNaN(n) || n < min || n > max)) {
+      return null;
+    }
+    return numbers;
+  }
+
+  private static parseTimeOfDay(
+    hourString: string | undefined,
+    minuteString: string | undefined,
+    period: string | undefined
+  ): { hour: number; minute: number } | null {
+    if (!hourString) {
+      return null;
+    }
+
+    let hour = parseInt(hourString, 10);
+    const minute = minuteString ? parseInt(minuteString, 10) : 0;
+
+    if (period) {
+      if (hour < 1 || hour > 12) {
+        return null;
+      }
+      if (period.toLowerCase() === 'pm' && hour !== 12) {
+        hour += 12;
+      } else if (period.toLowerCase() === 'am' && hour === 12) {
+        hour = 0;
+      }
+    }
+
+    if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+      return null;
+    }
+
+    return { hour, minute };
+  }
+
+  private static lookupDay(name: string): number | null {
+    const day = DAY_NAMES[name] ?? DAY_NAMES[name.replace(/s$/, '')];
+    return day === undefined ? null : day;
+  }
+
+  private static ordinalLabel(ordinal: number): string {
+    return ['first', 'second', 'third', 'fourth', 'fifth'][ordinal - 1];
+  }
+
+  private static formatTime(hour: number, minute: number): string {
+    const period = hour < 12 ? 'AM' : 'PM';
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  }
+
+  private static withNextOccurrence(result: RecurrenceParseResult, minIntervalMinutes: number): RecurrenceParseResult {
+    let nextOccurrence: Date;
+    let shortestGapMs = Infinity;
+    try {
+      const expression = parseExpression(result.pattern, result.timezone ? { tz: result.timezone } : {});
+      nextOccurrence = expression.next().toDate();
+
+      let previous = nextOccurrence;
+      for (let i = 1; i < INTERVAL_CHECK_OCCURRENCES; i++) {
+        const occurrence = expression.next().toDate();
+        shortestGapMs = Math.min(shortestGapMs, occurrence.getTime() - previous.getTime());
+        previous = occurrence;
+      }
+    } catch (error) {
+      return this.invalid(
+        result.originalInput,
+        `Invalid schedule: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (result.endDate && nextOccurrence > result.endDate) {
+      return this.invalid(result.originalInput, 'The schedule never fires before its UNTIL date');
+    }
+
+    if (shortestGapMs < minIntervalMinutes * 60 * 1000) {
+      return this.invalid(
+        result.originalInput,
+        `Recurring reminders can call at most every ${minIntervalMinutes} minutes, this schedule calls every ${Math.round(shortestGapMs / 60000)} minute(s)`
+      );
+    }
+
+    return { ...result, nextOccurrence };
+  }
+
+  private static invalid(input: string, error: string): RecurrenceParseResult {
+    return {
+      isValid: false,
+      pattern: '',
+      description: '',
+      error,
+      originalInput: input,
+    };
+  }
+}
@@ -1,46 +1,54 @@
-import moment from 'moment';
+import moment from 'moment-timezone';
 import { TimeParseResult } from '../types/ReminderTypes';
 
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DEFAULT_HOUR_OF_DAY = 9;
+
 export class TimeParser {
   private static readonly RELATIVE_TIME_REGEX = /^(\d+)([smhdw])$/i;
   private static readonly ABSOLUTE_TIME_REGEX = /^(\d{1,2}):(\d{2})(?:\s*(am|pm))?$/i;
   private static readonly DATE_TIME_REGEX = /^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?:\s*(am|pm))?$/i;
   private static readonly UNIX_TIMESTAMP_REGEX = /^\d{10,13}$/;
+  private static readonly NATURAL_LANGUAGE_REGEX =
+    /^(?:(tomorrow)|(?:(next)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday))(?:\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)?$/i;
 
   /**
-   * Parse a time string into milliseconds delay and absolute timestamp
+   * Parse a time string into milliseconds delay and absolute timestamp.
+   * Clock times and dates are read in the given IANA zone (server zone when omitted).
    */
-  static parseTime(timeString: string): TimeParseResult {
+  static parseTime(timeString: string, timezone?: string): TimeParseResult {
     const input = timeString.trim().toLowerCase();
     
     try {
+      // Each parser only sets an error when it recognised the format, so that error is the one to report
+
       // Try relative time parsing first (e.g., "6h", "45m", "2d")
       const relativeResult = this.parseRelativeTime(input);
-      if (relativeResult.isValid) {
+      if (relativeResult.isValid || relativeResult.error) {
         return relativeResult;
       }
 
       // Try absolute time parsing (e.g., "9:00am", "14:30")
-      const absoluteResult = this.parseAbsoluteTime(input);
-      if (absoluteResult.isValid) {
+      const absoluteResult = this.parseAbsoluteTime(input, timezone);
+      if (absoluteResult.isValid || absoluteResult.error) {
         return absoluteResult;
       }
 
       // Try date-time parsing (e.g., "12/25/2024 9:00am")
-      const dateTimeResult = this.parseDateTime(input);
-      if (dateTimeResult.isValid) {
+      const dateTimeResult = this.parseDateTime(input, timezone);
+      if (dateTimeResult.isValid || dateTimeResult.error) {
         return dateTimeResult;
       }
 
       // Try UNIX timestamp parsing
       const unixResult = this.parseUnixTimestamp(input);
-      if (unixResult.isValid) {
+      if (unixResult.isValid || unixResult.error) {
         return unixResult;
       }
 
       // Try natural language parsing
-      const naturalResult = this.parseNaturalLanguage(input);
-      if (naturalResult.isValid) {
+      const naturalResult = this.parseNaturalLanguage(input, timezone);
+      if (naturalResult.isValid || naturalResult.error) {
         return naturalResult;
       }
 
@@ -125,7 +133,7 @@ export class TimeParser {
   /**
    * Parse absolute time formats like "9:00am", "14:30"
    */
-  private static parseAbsoluteTime(timeString: string): TimeParseResult {
+  private static parseAbsoluteTime(timeString: string, timezone?: string): TimeParseResult {
     const match = timeString.match(this.ABSOLUTE_TIME_REGEX);
     if (!match) {
       return { isValid: false, delayMs: 0, timestamp: new Date(), originalInput: timeString };
@@ -153,21 +161,20 @@ export class TimeParser {
       };
     }
 
-    const now = new Date();
-    const targetTime = new Date(now);
-    targetTime.setHours(hour, minute, 0, 0);
+    const now = this.now(timezone);
+    let targetTime = this.atTimeOfDay(now, hour, minute, timezone);
 
     // If the time has already passed today, schedule for tomorrow
-    if (targetTime <= now) {
-      targetTime.setDate(targetTime.getDate() + 1);
+    if (!targetTime.isAfter(now)) {
+      targetTime = this.atTimeOfDay(now.clone().add(1, 'day'), hour, minute, timezone);
     }
 
-    const delayMs = targetTime.getTime() - now.getTime();
+    const delayMs = targetTime.valueOf() - now.valueOf();
 
     return {
       isValid: true,
       delayMs,
-      timestamp: targetTime,
+      timestamp: targetTime.toDate(),
       originalInput: timeString,
     };
   }
@@ -175,7 +182,7 @@ export class TimeParser {
   /**
    * Parse date-time formats like "12/25/2024 9:00am"
    */
-  private static parseDateTime(timeString: string): TimeParseResult {
+  private static parseDateTime(timeString: string, timezone?: string): TimeParseResult {
     const match = timeString.match(this.DATE_TIME_REGEX);
     if (!match) {
       return { isValid: false, delayMs: 0, timestamp: new Date(), originalInput: timeString };
@@ -195,11 +202,13 @@ export class TimeParser {
       hour = 0;
     }
 
-    const targetTime = new Date(year, month, day, hour, minute, 0, 0);
+    const fields = { year, month, date: day, hour, minute };
+    const target = timezone ? moment.tz(fields, timezone) : moment(fields);
+    const targetTime = target.toDate();
     const now = new Date();
 
     // Validate the date
-    if (isNaN(targetTime.getTime())) {
+    if (!target.isValid()) {
       return {
         isValid: false,
         delayMs: 0,
@@ -272,70 +281,95 @@ export class TimeParser {
   }
 
   /**
-   * Parse natural language formats like "tomorrow 9am", "next week monday"
+   * Parse natural language formats like "tomorrow 9am", "friday 14:30" or "next monday".
+   * Without a time of day the reminder calls at 9:00am.
    */
-  private static parseNaturalLanguage(timeString: string): TimeParseResult {
-    const input = timeString.toLowerCase();
-    
-    try {
-      // Use moment.js for natural language parsing
-      const parsed = moment(input, [
-        'tomorrow h:mma',
-        'tomorrow h:mm a',
-        'tomorrow h:mm',
-        'next week monday',
-        'next monday',
-        'next tuesday',
-        'next wednesday',
-        'next thursday',
-        'next friday',
-        'next saturday',
-        'next sunday',
-        'monday',
-        'tuesday',
-        'wednesday',
-        'thursday',
-        'friday',
-        'saturday',
-        'sunday',
-      ], true);
-
-      if (!parsed.isValid()) {
-        return { isValid: false, delayMs: 0, timestamp: new Date(), originalInput: timeString };
-      }
-
-      const now = moment();
-
-      // If the parsed time is before now, it might be next week
-      if (parsed.isBefore(now)) {
-        // For day names, assume next occurrence
-        if (input.match(/^(monday|tuesday|wednesday|thursday|friday|saturday|sunday)$/i)) {
-          parsed.add(1, 'week');
-        }
-      }
+  private static parseNaturalLanguage(timeString: string, timezone?: string): TimeParseResult {
+    const match = timeString.match(this.NATURAL_LANGUAGE_REGEX);
+    if (!match) {
+      return { isValid: false, delayMs: 0, timestamp: new Date(), originalInput: timeString };
+    }
 
-      const delayMs = parsed.valueOf() - now.valueOf();
+    const [, tomorrow, next, dayName = '', hourText, minuteText, period] = match;
+    let hour = hourText ? parseInt(hourText, 10) : DEFAULT_HOUR_OF_DAY;
+    const minute = minuteText ? parseInt(minuteText, 10) : 0;
 
-      if (delayMs <= 0) {
-        return {
-          isValid: false,
-          delayMs: 0,
-          timestamp: new Date(),
-          error: 'Parsed time is in the past',
-          originalInput: timeString,
-        };
-      }
+    // Handle 12-hour format
+    if (period === 'pm' && hour !== 12) {
+      hour += 12;
+    } else if (period === 'am' && hour === 12) {
+      hour = 0;
+    }
 
+    // Validate time values
+    if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
       return {
-        isValid: true,
-        delayMs,
-        timestamp: parsed.toDate(),
+        isValid: false,
+        delayMs: 0,
+        timestamp: new Date(),
+        error: 'Invalid time values',
         originalInput: timeString,
       };
+    }
 
-    } catch (error) {
-      return { isValid: false, delayMs: 0, timestamp: new Date(), originalInput: timeString };
+    const now = this.now(timezone);
+    let targetTime: moment.Moment;
+
+    if (tomorrow) {
+      targetTime = this.atTimeOfDay(now.clone().add(1, 'day'), hour, minute, timezone);
+    } else {
+      // The next time that weekday comes around, a week ahead when its time has passed today.
+      // "next monday" said on a Monday means the one a week from now.
+      const daysAhead = (WEEKDAYS.indexOf(dayName) - now.day() + 7) % 7 || (next ? 7 : 0);
+      targetTime = this.atTimeOfDay(now.clone().add(daysAhead, 'days'), hour, minute, timezone);
+      if (!targetTime.isAfter(now)) {
+        targetTime = this.atTimeOfDay(now.clone().add(daysAhead + 7, 'days'), hour, minute, timezone);
+      }
     }
+
+    return {
+      isValid: true,
+      delayMs: targetTime.valueOf() - now.valueOf(),
+      timestamp: targetTime.toDate(),
+      originalInput: timeString,
+    };
+  }
+
+  /**
+   * Check whether a string is a known IANA timezone such as "Europe/Berlin"
+   */
+  static isValidTimezone(timezone: string): boolean {
+    return moment.tz.zone(timezone) !== null;
+  }
+
+  /**
+   * Format a time as a Discord timestamp tag, which Discord renders in each reader's own timezone
+   */
+  static formatDiscordTimestamp(date: Date, style: 't' | 'T' | 'd' | 'D' | 'f' | 'F' | 'R' = 'f'): string {
+    return `<t:${Math.floor(date.getTime() / 1000)}:${style}>`;
+  }
+
+  /**
+   * Format a time in the given IANA zone, for text where Discord timestamp tags are not rendered
+   */
+  static formatInTimezone(date: Date, timezone?: string): string {
+    const time = timezone ? moment(date).tz(timezone) : moment(date);
+    return time.format('ddd, MMM D YYYY, h:mm A z');
+  }
+
+  /**
+   * Current time in the given IANA zone, or in the server's zone when none is given
+   */
+  private static now(timezone?: string): moment.Moment {
+    return timezone ? moment.tz(timezone) : moment();
+  }
+
+  /**
+   * Build a wall-clock time on the given day. Times skipped by a DST change move forward by the gap.
+   */
+  private static atTimeOfDay(day: moment.Moment, hour: number, minute: number, timezone?: string): moment.Moment {
+    const fields = { year: day.year(), month: day.month(), date: day.date(), hour, minute };
+    return timezone ? moment.tz(fields, timezone) : moment(fields);
   }
 
   /**
@@ -360,6 +394,10 @@ export class TimeParser {
     const hours = Math.floor(minutes / 60);
     if (hours < 24) {
       const remainingMinutes = minutes % 60;
+      const remainingSeconds = seconds % 60;
+      if (remainingSeconds > 0) {
+        return `${hours}h ${remainingMinutes}m ${remainingSeconds}s`;
+      }
       return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
     }
 
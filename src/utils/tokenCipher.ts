@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+
+const CIPHER_VERSION = 'v1';
+const IV_BYTES = 12;
+
+/**
+ * AES-256-GCM encryption for secrets kept in Redis (e.g. OAuth refresh tokens).
+ * Output format: `v1:<iv>:<auth tag>:<ciphertext>`, all base64.
+ */
+export class TokenCipher {
+  private key: Buffer;
+
+  constructor(secret: string) {
+    if (!secret) {
+      throw new Error('Token encryption key is not configured');
+    }
+    // Any passphrase works, it is stretched to a 256-bit key
+    this.key = crypto.createHash('sha256').update(secret).digest();
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [CIPHER_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+      .join(':');
+  }
+
+  /**
+   * Decrypt a value produced by encrypt(). Throws when the value was tampered with or the key is wrong.
+   */
+  decrypt(encrypted: string): string {
+    const [version, iv, authTag, ciphertext] = encrypted.split(':');
+    if (version !== CIPHER_VERSION || !iv || !authTag || ciphertext === undefined) {
+      throw new Error('Unsupported encrypted token format');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  }
+}
@@ -0,0 +1,104 @@
+// Whether retrying a failed Twilio request can help
+export type TwilioFailureKind = 'transient' | 'permanent';
+
+// What a failed Twilio request reported
+export interface TwilioErrorDetails {
+  errorCode?: number | string;   // Twilio error code (e.g. 21211) or a Node network error code (e.g. ECONNRESET)
+  httpStatus?: number;           // HTTP status of the REST API response
+}
+
+/**
+ * Classification of Twilio REST API failures by error code (https://www.twilio.com/docs/api/errors)
+ */
+export class TwilioErrors {
+  // Errors that fail the same way on every attempt: bad numbers, account and permission problems
+  private static readonly PERMANENT_CODES: Record<number, string> = {
+    10001: 'Account is not active',
+    13224: 'Invalid phone number',
+    20003: 'Authentication failed',
+    20005: 'Account is not active',
+    20404: 'Resource not found',
+    21205: 'Invalid callback URL',
+    21210: "'From' phone number is not verified",
+    21211: "Invalid 'To' phone number",
+    21212: "Invalid 'From' phone number",
+    21213: "'From' phone number is required",
+    21214: "'To' phone number cannot be reached",
+    21215: 'Calls to this region are not enabled',
+    21216: 'Calls to this number are not allowed',
+    21217: 'Phone number does not appear to be valid',
+    21219: "'To' phone number is not verified (trial account)",
+    21401: 'Invalid phone number',
+    21408: 'Messages to this region are not enabled',
+    21606: "'From' phone number cannot send messages",
+    21608: "'To' phone number is not verified (trial account)",
+    21610: 'Recipient unsubscribed from messages',
+    21612: "'To' phone number cannot receive messages",
+    21614: "'To' phone number is not a mobile number",
+  };
+
+  // Errors worth retrying with backoff: rate limits and Twilio outages
+  private static readonly TRANSIENT_CODES = new Set([20429, 20500, 20503, 31005, 31009]);
+
+  private static readonly NETWORK_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'ESOCKETTIMEDOUT',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'EPIPE',
+  ]);
+
+  /**
+   * Decide whether a failed request should be retried. Known codes decide first, then the HTTP
+   * status (429 and 5xx are transient, other 4xx permanent). Failures without either, such as
+   * network errors, are transient.
+   */
+  static classify(details: TwilioErrorDetails): TwilioFailureKind {
+    const { errorCode, httpStatus } = details;
+
+    if (typeof errorCode === 'number') {
+      if (this.PERMANENT_CODES[errorCode]) {
+        return 'permanent';
+      }
+      if (this.TRANSIENT_CODES.has(errorCode)) {
+        return 'transient';
+      }
+    } else if (errorCode && this.NETWORK_ERROR_CODES.has(errorCode)) {
+      return 'transient';
+    }
+
+    if (httpStatus !== undefined && httpStatus >= 400 && httpStatus < 500 && httpStatus !== 408 && httpStatus !== 429) {
+      return 'permanent';
+    }
+    return 'transient';
+  }
+
+  /**
+   * Get the details of an error thrown by the Twilio client
+   */
+  static extractDetails(error: unknown): TwilioErrorDetails {
+    const details: TwilioErrorDetails = {};
+    if (typeof error !== 'object' || error === null) {
+      return details;
+    }
+
+    const { code, status } = error as { code?: unknown; status?: unknown };
+    if (typeof code === 'number' || typeof code === 'string') {
+      details.errorCode = code;
+    }
+    if (typeof status === 'number') {
+      details.httpStatus = status;
+    }
+    return details;
+  }
+
+  /**
+   * Describe a Twilio error code, e.g. 21211 → "Invalid 'To' phone number"
+   */
+  static describe(errorCode: number | string | undefined): string | null {
+    return typeof errorCode === 'number' ? this.PERMANENT_CODES[errorCode] || null : null;
+  }
+}
@@ -0,0 +1,233 @@
+import { ReminderQueue } from '../queue/ReminderQueue';
+import { TwilioService } from '../twilio/TwilioService';
+import { DeliveryLogStore } from '../store/DeliveryLogStore';
+import { ReminderRepository } from '../store/ReminderRepository';
+import { TERMINAL_CALL_STATUSES } from '../store/CallOutcomeStore';
+import { Config } from '../config/Config';
+import { logger } from '../utils/logger';
+import {
+  CallOutcome,
+  DeliveryRecord,
+  DeliveryStep,
+  EscalationPolicy,
+  ReminderJobData,
+  ReminderResponse,
+} from '../types/ReminderTypes';
+
+export type DiscordFallbackListener = (reminder: ReminderJobData, record: DeliveryRecord) => Promise<boolean>;
+
+export class EscalationManager {
+  private config: Config;
+  private reminderQueue: ReminderQueue;
+  private twilioService: TwilioService;
+  private deliveryLogStore: DeliveryLogStore;
+  private reminderRepository: ReminderRepository;
+  private discordFallback: DiscordFallbackListener | null = null;
+
+  constructor(
+    config: Config,
+    reminderQueue: ReminderQueue,
+    twilioService: TwilioService,
+    deliveryLogStore: DeliveryLogStore,
+    reminderRepository: ReminderRepository
+  ) {
+    this.config = config;
+    this.reminderQueue = reminderQueue;
+    this.twilioService = twilioService;
+    this.deliveryLogStore = deliveryLogStore;
+    this.reminderRepository = reminderRepository;
+  }
+
+  /**
+   * Set the handler used to DM the reminder owner when everything else failed.
+   * It should resolve to true when the DM was delivered.
+   */
+  setDiscordFallback(listener: DiscordFallbackListener): void {
+    this.discordFallback = listener;
+  }
+
+  /**
+   * Handle a call status update, escalating when a reminder call went unanswered
+   */
+  async handleCallOutcome(outcome: CallOutcome): Promise<void> {
+    if (!TERMINAL_CALL_STATUSES.includes(outcome.status) || !outcome.reminderId) {
+      return;
+    }
+
+    // Twilio may repeat the final callback, only act on it once
+    if (!(await this.deliveryLogStore.claimCallEscalation(outcome.callSid))) {
+      return;
+    }
+
+    const job = await this.reminderQueue.getReminder(outcome.reminderId);
+    if (!job) {
+      logger.warn(`⚠️ Call ${outcome.callSid} finished for unknown reminder ${outcome.reminderId}, not escalating`);
+      return;
+    }
+
+    const reminder = job.data;
+    const rootReminderId = reminder.originalReminderId || outcome.reminderId;
+    const attempt = reminder.deliveryAttempt || 0;
+    const callOutcome = this.describeCallOutcome(outcome);
+
+    await this.deliveryLogStore.recordStep(rootReminderId, {
+      type: attempt === 0 ? 'call' : 'redial',
+      outcome: callOutcome,
+      timestamp: new Date().toISOString(),
+      attempt,
+      callSid: outcome.callSid,
+    });
+    await this.reminderRepository.completeCallAttempt(outcome.callSid, callOutcome, outcome.durationSeconds);
+
+    if (callOutcome === 'answered') {
+      // A keypress confirmation may already have set a stronger status
+      const record = await this.deliveryLogStore.getRecord(rootReminderId);
+      if (record?.status !== 'acknowledged') {
+        await this.deliveryLogStore.setStatus(rootReminderId, 'answered');
+      }
+
+      const stored = await this.reminderRepository.getReminder(rootReminderId);
+      if (stored?.status !== 'acknowledged' && stored?.status !== 'snoozed') {
+        await this.reminderRepository.setStatus(rootReminderId, 'answered');
+      }
+      return;
+    }
+
+    logger.info(`📵 Reminder ${rootReminderId} call attempt ${attempt} ended with "${callOutcome}", escalating`);
+
+    const policy = reminder.escalation || this.config.getDefaultEscalationPolicy();
+
+    if (attempt < policy.maxRedials) {
+      await this.scheduleRedial(rootReminderId, reminder, policy, attempt + 1);
+      return;
+    }
+
+    await this.runFallbacks(rootReminderId, reminder, outcome.to, policy);
+  }
+
+  /**
+   * Record a keypress response as part of the delivery history
+   */
+  async handleReminderResponse(reminderId: string, reminder: ReminderJobData, response: ReminderResponse): Promise<void> {
+    const rootReminderId = reminder.originalReminderId || reminderId;
+
+    await this.deliveryLogStore.recordStep(rootReminderId, {
+      type: 'keypress',
+      outcome: response.action,
+      timestamp: response.respondedAt,
+      callSid: response.callSid,
+    });
+
+    if (response.action === 'acknowledged') {
+      await this.deliveryLogStore.setStatus(rootReminderId, 'acknowledged');
+    }
+    await this.reminderRepository.setStatus(rootReminderId, response.action);
+  }
+
+  private describeCallOutcome(outcome: CallOutcome): string {
+    // Answering machine detection reports machine_start, machine_end_beep, fax, ...
+    if (outcome.answeredBy && outcome.answeredBy !== 'human' && outcome.answeredBy !== 'unknown') {
+      return 'voicemail';
+    }
+
+    if (outcome.status === 'completed') {
+      return outcome.answered ? 'answered' : 'no-answer';
+    }
+
+    return outcome.status;
+  }
+
+  private async scheduleRedial(
+    rootReminderId: string,
+    reminder: ReminderJobData,
+    policy: EscalationPolicy,
+    attempt: number
+  ): Promise<void> {
+    try {
+      const options: Parameters<ReminderQueue['addReminder']>[5] = {
+        priority: (reminder.priority || 0) + 1,
+        escalation: policy,
+        deliveryAttempt: attempt,
+        originalReminderId: rootReminderId,
+      };
+      if (reminder.ttsVoice) {
+        options.ttsVoice = reminder.ttsVoice;
+      }
+      if (reminder.audioFile) {
+        options.audioFile = reminder.audioFile;
+      }
+      if (reminder.phoneNumber) {
+        options.phoneNumber = reminder.phoneNumber;
+      }
+
+      const job = await this.reminderQueue.addReminder(
+        reminder.message,
+        policy.redialSpacingMs,
+        reminder.userId,
+        reminder.channelId,
+        reminder.messageId,
+        options
+      );
+
+      logger.info(`🔁 Scheduled redial ${attempt}/${policy.maxRedials} for reminder ${rootReminderId} (job ${job.id})`);
+    } catch (error) {
+      logger.error(`❌ Failed to schedule redial for reminder ${rootReminderId}:`, error);
+    }
+  }
+
+  private async runFallbacks(
+    rootReminderId: string,
+    reminder: ReminderJobData,
+    targetPhone: string,
+    policy: EscalationPolicy
+  ): Promise<void> {
+    let delivered: 'sms' | 'discord-dm' | null = null;
+
+    if (policy.smsFallback && targetPhone) {
+      const smsResult = await this.twilioService.sendSms(
+        targetPhone,
+        `Reminder: ${reminder.message} (we tried calling but could not reach you)`
+      );
+
+      const step: DeliveryStep = {
+        type: 'sms',
+        outcome: smsResult.success ? 'sent' : 'failed',
+        timestamp: new Date().toISOString(),
+      };
+      const detail = smsResult.success ? smsResult.messageSid : smsResult.error;
+      if (detail) {
+        step.detail = detail;
+      }
+
+      await this.deliveryLogStore.recordStep(rootReminderId, step);
+      if (smsResult.success) {
+        delivered = 'sms';
+      }
+    }
+
+    if (policy.discordFallback && this.discordFallback) {
+      const record = await this.deliveryLogStore.getRecord(rootReminderId);
+      let sent = false;
+
+      try {
+        sent = await this.discordFallback(reminder, record || { reminderId: rootReminderId, status: 'in-progress', steps: [] });
+      } catch (error) {
+        logger.error(`❌ Discord fallback failed for reminder ${rootReminderId}:`, error);
+      }
+
+      await this.deliveryLogStore.recordStep(rootReminderId, {
+        type: 'discord-dm',
+        outcome: sent ? 'sent' : 'failed',
+        timestamp: new Date().toISOString(),
+      });
+
+      if (sent && !delivered) {
+        delivered = 'discord-dm';
+      }
+    }
+
+    await this.deliveryLogStore.setStatus(rootReminderId, delivered || 'undelivered');
+    await this.reminderRepository.setStatus(rootReminderId, delivered || 'undelivered');
+    logger.info(`📬 Reminder ${rootReminderId} escalation finished: ${delivered || 'undelivered'}`);
+  }
+}
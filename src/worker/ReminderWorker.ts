@@ -1,23 +1,53 @@
-import { Queue, Job, Worker } from 'bullmq';
+import { Queue, Job, Worker, DelayedError, UnrecoverableError } from 'bullmq';
 import { RedisConnection } from '../queue/RedisConnection';
 import { ReminderQueue } from '../queue/ReminderQueue';
 import { TwilioService } from '../twilio/TwilioService';
+import { CallOutcomeStore } from '../store/CallOutcomeStore';
+import { PhoneRegistry } from '../store/PhoneRegistry';
+import { RateLimiter } from '../store/RateLimiter';
+import { DeadLetterStore } from '../store/DeadLetterStore';
+import { ReminderRepository, getCallRecordId } from '../store/ReminderRepository';
+import { AgendaService } from '../calendar/AgendaService';
 import { Config } from '../config/Config';
 import { logger } from '../utils/logger';
-import { ReminderJobData, ReminderJobResult } from '../types/ReminderTypes';
+import { TwilioErrors } from '../utils/twilioErrors';
+import { NewReminderRecord, ReminderJobData, ReminderJobResult } from '../types/ReminderTypes';
 
 export class ReminderWorker {
   private queue: Queue<ReminderJobData, ReminderJobResult>;
   private worker: Worker<ReminderJobData, ReminderJobResult>;
   private redisConnection: RedisConnection;
+  private reminderQueue: ReminderQueue;
+  private deadLetterStore: DeadLetterStore;
+  private reminderRepository: ReminderRepository;
   private twilioService: TwilioService;
+  private callOutcomeStore: CallOutcomeStore;
+  private phoneRegistry: PhoneRegistry;
+  private rateLimiter: RateLimiter;
   private config: Config;
+  private agendaService: AgendaService | null = null;
+  private pendingFailures = new Set<Promise<void>>(); // Failed jobs still being recorded
   private isRunning = false;
 
-  constructor(redisConnection: RedisConnection, reminderQueue: ReminderQueue) {
+  constructor(
+    redisConnection: RedisConnection,
+    reminderQueue: ReminderQueue,
+    callOutcomeStore: CallOutcomeStore,
+    twilioService: TwilioService,
+    phoneRegistry: PhoneRegistry,
+    rateLimiter: RateLimiter,
+    deadLetterStore: DeadLetterStore,
+    reminderRepository: ReminderRepository
+  ) {
     this.redisConnection = redisConnection;
+    this.reminderQueue = reminderQueue;
+    this.deadLetterStore = deadLetterStore;
+    this.reminderRepository = reminderRepository;
+    this.callOutcomeStore = callOutcomeStore;
+    this.phoneRegistry = phoneRegistry;
+    this.rateLimiter = rateLimiter;
     this.config = new Config();
-    this.twilioService = new TwilioService(this.config);
+    this.twilioService = twilioService;
     
     // Get the queue instance from ReminderQueue
     this.queue = reminderQueue.getQueue();
@@ -25,8 +55,8 @@ export class ReminderWorker {
     // Create worker to process jobs when they're due
     this.worker = new Worker<ReminderJobData, ReminderJobResult>(
       'reminders',
-      async (job) => {
-        return await this.processReminderJob(job);
+      async (job, token) => {
+        return await this.processReminderJob(job, token);
       },
       {
         connection: this.redisConnection.getClient(),
@@ -38,6 +68,13 @@ export class ReminderWorker {
     logger.info('✅ Reminder worker initialized');
   }
 
+  /**
+   * Set the service that writes the briefing of daily agenda calls when they are placed
+   */
+  setAgendaService(agendaService: AgendaService): void {
+    this.agendaService = agendaService;
+  }
+
   private setupWorkerEventHandlers(): void {
     // Worker events
     this.worker.on('error', (error) => {
@@ -45,12 +82,18 @@ export class ReminderWorker {
     });
 
     this.worker.on('failed', (job, error) => {
-      logger.error(`❌ Job ${job?.id} failed in worker:`, error);
-      
-      // Attempt to retry the job if it's a reminder job
-      if (job && job.name === 'reminder') {
-        this.handleFailedJob(job, error);
+      if (!job) {
+        logger.error('❌ Job failed in worker:', error);
+        return;
       }
+
+      const final = this.isFinalFailure(job, error);
+      if (final) {
+        logger.error(`❌ Job ${job.id} failed permanently after ${job.attemptsMade} attempt(s):`, error);
+      } else {
+        logger.warn(`🔄 Job ${job.id} failed on attempt ${job.attemptsMade}/${job.opts.attempts}, retrying with backoff: ${error.message}`);
+      }
+      this.trackFailure(job, error, final);
     });
 
     this.worker.on('completed', (job) => {
@@ -60,12 +103,66 @@ export class ReminderWorker {
     logger.info('👂 Worker event handlers configured');
   }
 
-  private async processReminderJob(job: Job<ReminderJobData, ReminderJobResult>): Promise<ReminderJobResult> {
-    const { message, ttsVoice, audioFile } = job.data;
+  private async processReminderJob(job: Job<ReminderJobData, ReminderJobResult>, token?: string): Promise<ReminderJobResult> {
+    const { ttsVoice, audioFile, userId, phoneNumber } = job.data;
+    let { message } = job.data;
     
     logger.info(`🔔 Processing reminder job ${job.id}: "${message}"`);
 
+    const recordId = getCallRecordId(job.id as string, job.data);
+    await this.recordReminder(job, recordId);
+
     try {
+      // Occurrences of recurring reminders can be skipped individually
+      if (job.repeatJobKey && (await this.reminderQueue.consumeSkippedOccurrence(job.id as string))) {
+        logger.info(`⏭️ Skipping occurrence ${job.id} of recurring reminder "${message}"`);
+        await this.reminderRepository.setStatus(recordId, 'skipped');
+
+        return {
+          success: true,
+          messageId: job.id as string,
+          timestamp: new Date().toISOString(),
+          message: 'Occurrence skipped',
+        };
+      }
+
+      // Dial the reminder's own number or the owner's verified number, falling back to the global target
+      const targetPhone = phoneNumber || (await this.resolveTargetPhone(userId));
+      if (!targetPhone) {
+        throw new UnrecoverableError('No verified phone number for the reminder owner');
+      }
+
+      // Hold the call back while the owner or the dialled number is over its call limit
+      const callLimit = await this.rateLimiter.consumeCall(userId, targetPhone);
+      if (!callLimit.allowed) {
+        const retryAt = Date.now() + callLimit.retryAfterMs;
+        logger.warn(`⏳ Call limit reached for reminder job ${job.id}, delaying until ${new Date(retryAt).toISOString()}`);
+
+        if (token) {
+          // The next occurrence of a series was queued when this one started, so its data is safe to change
+          await job.updateData({ ...job.data, scheduledFor: new Date(retryAt).toISOString() });
+          await job.moveToDelayed(retryAt, token);
+          throw new DelayedError();
+        }
+
+        return {
+          success: false,
+          messageId: job.id as string,
+          timestamp: new Date().toISOString(),
+          message: 'Call limit reached',
+        };
+      }
+
+      if (job.data.calendarEvent) {
+        await this.reminderQueue.markCalendarReminderCalled(job.id as string, job.data.calendarEvent.startTime);
+      }
+
+      // Agenda calls read out the day as it is now. The briefing is kept on the job so the call
+      // menu can repeat it and a missed call can be sent by DM.
+      if (job.data.agenda) {
+        message = await this.buildAgendaBriefing(job);
+      }
+
       // Make the Twilio call
       let callResult;
       
@@ -73,18 +170,19 @@ export class ReminderWorker {
         // Use audio file if specified
         callResult = await this.twilioService.makeCallWithAudio(
           audioFile,
-          this.config.targetPhoneNumber,
-          { loop: 2, volume: 1.0 }
+          targetPhone,
+          { loop: 2, volume: 1.0, reminderId: job.id as string }
         );
       } else {
         // Use TTS for the reminder message
         callResult = await this.twilioService.makeCallWithTTS(
           message,
-          this.config.targetPhoneNumber,
+          targetPhone,
           { 
             voice: ttsVoice || this.config.defaultTtsVoice,
             volume: 1.0,
-            speed: 1.0
+            speed: 1.0,
+            reminderId: job.id as string,
           }
         );
       }
@@ -96,88 +194,162 @@ export class ReminderWorker {
           success: true,
           messageId: job.id as string,
           timestamp: new Date().toISOString(),
-          message: `Reminder delivered via phone call. Call SID: ${callResult.callSid}`,
+          message: `Reminder call initiated. Call SID: ${callResult.callSid}`,
         };
 
         // Only add callSid if it exists
         if (callResult.callSid) {
           result.callSid = callResult.callSid;
+          if (callResult.status) {
+            result.callStatus = callResult.status;
+          }
+
+          // Track the call so status callbacks can be matched to this reminder
+          try {
+            await this.callOutcomeStore.recordCallPlaced(
+              callResult.callSid,
+              job.id as string,
+              targetPhone,
+              callResult.status
+            );
+          } catch (error) {
+            logger.warn(`⚠️ Could not record call ${callResult.callSid} for job ${job.id}:`, error);
+          }
+
+          await this.reminderRepository.addCallAttempt(recordId, {
+            jobId: job.id as string,
+            attempt: job.data.deliveryAttempt || 0,
+            callSid: callResult.callSid,
+            outcome: 'placed',
+            placedAt: result.timestamp,
+          });
+          await this.reminderRepository.setStatus(recordId, 'calling');
         }
 
         return result;
         
       } else {
-        logger.error(`❌ Twilio call failed for reminder "${message}": ${callResult.error}`);
-        
-        return {
-          success: false,
-          messageId: job.id as string,
-          timestamp: new Date().toISOString(),
-          message: `Failed to make phone call: ${callResult.error}`,
-        };
+        // Throwing hands the job back to BullMQ: transient errors are retried with backoff,
+        // permanent ones (invalid number, unverified caller ID, ...) fail right away
+        const kind = TwilioErrors.classify(callResult);
+        const code = callResult.errorCode !== undefined ? ` (Twilio error ${callResult.errorCode})` : '';
+        logger.error(`❌ Twilio call failed for reminder "${message}"${code}, ${kind} error: ${callResult.error}`);
+
+        const reason = `Failed to make phone call${code}: ${callResult.error}`;
+        throw kind === 'permanent' ? new UnrecoverableError(reason) : new Error(reason);
       }
 
     } catch (error) {
-      logger.error(`❌ Error processing reminder job ${job.id}:`, error);
-      
-      return {
-        success: false,
-        messageId: job.id as string,
-        timestamp: new Date().toISOString(),
-        message: `Error processing reminder: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      };
+      if (!(error instanceof DelayedError)) {
+        logger.error(`❌ Error processing reminder job ${job.id}:`, error);
+      }
+      throw error;
     }
   }
 
-  private async handleFailedJob(job: Job<ReminderJobData, ReminderJobResult>, error: Error): Promise<void> {
-    const { message } = job.data;
-    
-    logger.warn(`⚠️ Handling failed reminder job ${job.id}: "${message}"`);
-    
-    // Check if we should retry based on the error type
-    if (this.shouldRetry(error)) {
-      await this.scheduleRetry(job);
-    } else {
-      logger.error(`❌ Job ${job.id} failed permanently: ${error.message}`);
+  /**
+   * Make sure the reminder a job calls for is stored. Occurrences of a series get a record of
+   * their own when they fire, so do jobs scheduled before the reminder repository existed.
+   */
+  private async recordReminder(job: Job<ReminderJobData, ReminderJobResult>, recordId: string): Promise<void> {
+    const { recurrence, calendarEvent } = job.data;
+    const record: NewReminderRecord = {
+      id: recordId,
+      userId: job.data.userId,
+      channelId: job.data.channelId,
+      message: job.data.message,
+      kind: job.repeatJobKey ? 'occurrence' : calendarEvent ? 'calendar' : 'once',
+      fireAt: this.reminderQueue.getScheduledTime(job).toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+    if (job.repeatJobKey && recurrence) {
+      record.seriesId = recurrence.seriesId;
     }
+
+    await this.reminderRepository.createReminder(record);
+  }
+
+  private async buildAgendaBriefing(job: Job<ReminderJobData, ReminderJobResult>): Promise<string> {
+    let briefing = 'Sorry, your agenda could not be loaded today.';
+
+    try {
+      if (!this.agendaService) {
+        throw new Error('Agenda service is not available');
+      }
+      briefing = await this.agendaService.buildBriefing(job.data.userId, job.data.agenda!.timezone);
+    } catch (error) {
+      logger.error(`❌ Failed to build agenda for reminder job ${job.id}:`, error);
+    }
+
+    await job.updateData({ ...job.data, message: briefing });
+    return briefing;
+  }
+
+  private async resolveTargetPhone(userId: string): Promise<string | null> {
+    const userPhone = await this.phoneRegistry.getVerifiedPhone(userId);
+    if (userPhone) {
+      return userPhone;
+    }
+
+    return this.config.requireVerifiedPhone ? null : this.config.targetPhoneNumber;
   }
 
-  private shouldRetry(error: Error): boolean {
-    const retryableErrors = [
-      'ECONNRESET',
-      'ETIMEDOUT',
-      'ENOTFOUND',
-      'ECONNREFUSED',
-      'Network Error',
-      'timeout',
-      'rate limit',
-      'quota exceeded',
-    ];
-
-    const errorMessage = error.message.toLowerCase();
-    return retryableErrors.some(retryable => errorMessage.includes(retryable.toLowerCase()));
+  /**
+   * Whether BullMQ will not try a failed job again
+   */
+  private isFinalFailure(job: Job<ReminderJobData, ReminderJobResult>, error: Error): boolean {
+    return this.isUnrecoverable(error) || job.attemptsMade >= (job.opts.attempts ?? 1);
+  }
+
+  private isUnrecoverable(error: Error): boolean {
+    return error instanceof UnrecoverableError || error.name === 'UnrecoverableError';
   }
 
-  private async scheduleRetry(job: Job<ReminderJobData, ReminderJobResult>): Promise<void> {
+  /**
+   * Handle a failed job, keeping the handling around so stop() can wait for it
+   */
+  private trackFailure(job: Job<ReminderJobData, ReminderJobResult>, error: Error, final: boolean): void {
+    const handling: Promise<void> = this.handleFailedJob(job, error, final)
+      .catch(handlingError => {
+        logger.error(`❌ Failed to handle failed job ${job.id}:`, handlingError);
+      })
+      .finally(() => this.pendingFailures.delete(handling));
+    this.pendingFailures.add(handling);
+  }
+
+  /**
+   * Keep the error of every attempt and dead-letter the job once BullMQ gives up on it
+   */
+  private async handleFailedJob(job: Job<ReminderJobData, ReminderJobResult>, error: Error, final: boolean): Promise<void> {
     try {
-      const retryDelay = Math.min(5 * 60 * 1000, job.opts.delay || 0); // 5 minutes or original delay
-      
-      // Add a retry job to the queue
-      await this.queue.add(
-        'reminder-retry',
-        job.data,
-        {
-          delay: retryDelay,
-          priority: (job.opts.priority || 0) + 1, // Higher priority for retries
-          jobId: `retry-${job.id}-${Date.now()}`,
-          attempts: 1, // Only retry once
-        }
-      );
+      await this.deadLetterStore.recordFailedAttempt(job.id as string, {
+        attempt: job.attemptsMade,
+        error: error.message,
+        failedAt: new Date().toISOString(),
+      });
+
+      if (final) {
+        await this.deadLetterStore.add(job, this.isUnrecoverable(error));
+        await this.reminderRepository.setStatus(getCallRecordId(job.id as string, job.data), 'failed', error.message);
+      }
+    } catch {
+      // Already logged, the job stays in the reminder queue's failed set
+    }
 
-      logger.info(`🔄 Scheduled retry for job ${job.id} in ${retryDelay / 1000} seconds`);
-      
+    if (!final) {
+      await this.rescheduleRetry(job);
+    }
+  }
+
+  /**
+   * Move the fire time of a job waiting out its backoff to when it is retried.
+   * BullMQ sets the job's delay to the backoff when it moves the job back to the delayed set.
+   */
+  private async rescheduleRetry(job: Job<ReminderJobData, ReminderJobResult>): Promise<void> {
+    try {
+      await job.updateData({ ...job.data, scheduledFor: new Date(Date.now() + job.delay).toISOString() });
     } catch (error) {
-      logger.error(`❌ Failed to schedule retry for job ${job.id}:`, error);
+      logger.error(`❌ Failed to update the fire time of retried job ${job.id}:`, error);
     }
   }
 
@@ -268,8 +440,9 @@ export class ReminderWorker {
         clearInterval((this as any).healthCheckInterval);
       }
       
-      // Close the worker
+      // Close the worker, then let failed jobs finish moving to the dead letter queue
       await this.worker.close();
+      await Promise.all(this.pendingFailures);
       
       logger.info('🛑 Reminder worker stopped successfully');
       